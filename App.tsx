@@ -1,48 +1,82 @@
-import React, { useState } from 'react';
+import React, { useMemo } from 'react';
+import { View, ActivityIndicator, StyleSheet } from 'react-native';
 import { StatusBar } from 'expo-status-bar';
-import { NavigationContainer } from '@react-navigation/native';
+import { NavigationContainer, DarkTheme, DefaultTheme, LinkingOptions } from '@react-navigation/native';
 import { createStackNavigator } from '@react-navigation/stack';
 import { ProfileScreen } from './src/screens/ProfileScreen';
 import { EventDetailScreen } from './src/screens/EventDetailScreen';
 import { EditProfileScreen } from './src/screens/EditProfileScreen';
+import { EventsMapScreen } from './src/screens/EventsMapScreen';
+import { NotFoundScreen } from './src/screens/NotFoundScreen';
 import { RootStackParamList } from './src/types/navigation';
-import profileData from './src/data/profile.json';
-import { NavigationState, PartialState } from '@react-navigation/native';
+import { ProfileProvider, useProfileState } from './src/store/ProfileContext';
+import { EventFiltersProvider } from './src/store/EventFiltersContext';
+import { ColorPalette } from './src/styles/theme';
+import { ThemeProvider, useTheme, useThemedStyles } from './src/styles/ThemeContext';
+import { I18nProvider } from './src/i18n/I18nContext';
 
 const Stack = createStackNavigator<RootStackParamList>();
 
-interface UpdateEventAction {
-  type: 'UPDATE_EVENT';
-  payload: any;
-}
+// The app's own scheme, plus the web domain whose links the OS hands to the
+// app (see associatedDomains and intentFilters in app.json)
+const linking: LinkingOptions<RootStackParamList> = {
+  prefixes: ['profileapp://', 'https://profileapp.example.com'],
+  config: {
+    // Linked screens open on top of the profile so back always leads somewhere
+    initialRouteName: 'Profile',
+    screens: {
+      Profile: {
+        path: '',
+        alias: ['profile'],
+      },
+      EditProfile: 'profile/edit',
+      EventDetail: {
+        path: 'events/:eventId(\\d+)',
+        parse: { eventId: Number },
+      },
+      NotFound: '*',
+    },
+  },
+};
 
-export default function App() {
-  const [profile, setProfile] = useState(profileData);
+const AppNavigator = () => {
+  const { isLoading } = useProfileState();
+  const { colors, scheme } = useTheme();
+  const styles = useThemedStyles(createStyles);
+
+  // Keeps the navigator's own backgrounds (e.g. during transitions) in step with the palette
+  const navigationTheme = useMemo(() => {
+    const base = scheme === 'dark' ? DarkTheme : DefaultTheme;
+    return {
+      ...base,
+      colors: {
+        ...base.colors,
+        primary: colors.primary,
+        background: colors.background.secondary,
+        card: colors.background.primary,
+        text: colors.text.primary,
+        border: colors.border.light,
+      },
+    };
+  }, [colors, scheme]);
+
+  if (isLoading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color={colors.primary} />
+      </View>
+    );
+  }
 
   return (
-    <NavigationContainer>
+    <NavigationContainer theme={navigationTheme} linking={linking}>
       <Stack.Navigator
         initialRouteName="Profile"
-        screenListeners={{
-          state: (e) => {
-            const state = e.data.state as NavigationState;
-            const lastAction = state.routes[0].state?.routes.slice(-1)[0]?.params as UpdateEventAction;
-            
-            if (lastAction?.type === 'UPDATE_EVENT') {
-              setProfile(prevProfile => ({
-                ...prevProfile,
-                attendedEvents: prevProfile.attendedEvents.map(event =>
-                  event.id === lastAction.payload.id ? lastAction.payload : event
-                ),
-              }));
-            }
-          },
-        }}
         screenOptions={{
           headerStyle: {
-            backgroundColor: '#fff',
+            backgroundColor: colors.background.primary,
           },
-          headerTintColor: '#333',
+          headerTintColor: colors.text.primary,
           headerTitleStyle: {
             fontWeight: 'bold',
           },
@@ -51,7 +85,6 @@ export default function App() {
         <Stack.Screen
           name="Profile"
           component={ProfileScreen}
-          initialParams={{ profile }}
           options={{
             headerShown: false,
           }}
@@ -70,8 +103,45 @@ export default function App() {
             headerShown: false,
           }}
         />
+        <Stack.Screen
+          name="EventsMap"
+          component={EventsMapScreen}
+          options={{
+            headerShown: false,
+          }}
+        />
+        <Stack.Screen
+          name="NotFound"
+          component={NotFoundScreen}
+          options={{
+            headerShown: false,
+          }}
+        />
       </Stack.Navigator>
-      <StatusBar style="auto" />
+      <StatusBar style={scheme === 'dark' ? 'light' : 'dark'} />
     </NavigationContainer>
   );
+};
+
+export default function App() {
+  return (
+    <ThemeProvider>
+      <I18nProvider>
+        <ProfileProvider>
+          <EventFiltersProvider>
+            <AppNavigator />
+          </EventFiltersProvider>
+        </ProfileProvider>
+      </I18nProvider>
+    </ThemeProvider>
+  );
 }
+
+const createStyles = (colors: ColorPalette) => StyleSheet.create({
+  loadingContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: colors.background.secondary,
+  },
+});
@@ -0,0 +1,81 @@
+import { Event, UserProfile } from '../../types';
+import { DEFAULT_EVENT_FILTERS } from '../../utils/eventFilters';
+import { ProfileUpdate, createApiClient } from '../client';
+import { createMockServer } from '../mockServer';
+
+const BASE_URL = 'https://mock.test/api';
+
+const event = (id: number, overrides: Partial<Event> = {}): Event => ({
+  id,
+  title: `Event ${id}`,
+  description: '',
+  location: 'Central',
+  // Higher ids are newer
+  date: new Date(Date.UTC(2024, 0, id)).toISOString(),
+  timeZone: 'Asia/Hong_Kong',
+  rated: false,
+  ...overrides,
+});
+
+const seed: UserProfile = {
+  name: 'Ada',
+  bio: '',
+  interests: [],
+  attendedEvents: [
+    ...Array.from({ length: 5 }, (_, index) => event(index + 1)),
+    event(6, { title: 'Harbour Cruise', location: 'Tsim Sha Tsui' }),
+  ],
+  upcomingEvents: [],
+};
+
+const createClient = () => {
+  const server = createMockServer({ baseUrl: BASE_URL, seed, latencyMs: 0 });
+  return createApiClient({ baseUrl: BASE_URL, fetch: server.fetch, retries: 0 });
+};
+
+describe('GET /events', () => {
+  it('hands out the events a page at a time, newest first', async () => {
+    const client = createClient();
+    const query = { limit: 4, filters: DEFAULT_EVENT_FILTERS };
+
+    const first = await client.listEvents({ ...query, offset: 0 });
+    expect(first.ok && first.data.events.map(({ id }) => id)).toEqual([6, 5, 4, 3]);
+    expect(first.ok && first.data.nextOffset).toBe(4);
+
+    const last = await client.listEvents({ ...query, offset: 4 });
+    expect(last.ok && last.data.events.map(({ id }) => id)).toEqual([2, 1]);
+    expect(last.ok && last.data.nextOffset).toBeUndefined();
+  });
+
+  it('filters and sorts on the server', async () => {
+    const result = await createClient().listEvents({
+      offset: 0,
+      limit: 10,
+      filters: { ...DEFAULT_EVENT_FILTERS, query: ' harbour cruise ', sort: 'oldest' },
+    });
+
+    expect(result.ok && result.data.events.map(({ id }) => id)).toEqual([6]);
+  });
+
+  it('rejects a page size out of range', async () => {
+    const result = await createClient().listEvents({ offset: 0, limit: 0, filters: DEFAULT_EVENT_FILTERS });
+
+    expect(result).toEqual({ ok: false, error: expect.objectContaining({ kind: 'http', status: 400 }) });
+  });
+});
+
+describe('request bodies', () => {
+  it('answers 400 to a body that is not JSON', async () => {
+    const server = createMockServer({ baseUrl: BASE_URL, seed, latencyMs: 0 });
+
+    const response = await server.fetch(`${BASE_URL}/profile`, { method: 'PUT', body: '{"name":' });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('rejects a profile update that does not validate', async () => {
+    const result = await createClient().updateProfile({ name: 'Ada', bio: '', interests: 'maths' } as unknown as ProfileUpdate);
+
+    expect(result).toEqual({ ok: false, error: expect.objectContaining({ kind: 'http', status: 400 }) });
+  });
+});
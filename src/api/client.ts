@@ -0,0 +1,248 @@
+import { Event, EventPage, EventReview, RsvpStatus, UpcomingEvent, UserProfile } from '../types';
+import { MessageKey } from '../i18n/messages/en';
+import { EventFilters } from '../utils/eventFilters';
+import {
+  Validator,
+  describeFieldErrors,
+  validateEvent,
+  validateEventPage,
+  validateList,
+  validateUpcomingEvent,
+  validateUserProfile,
+} from '../utils/profileValidation';
+
+export type FetchLike = (url: string, init?: RequestInit) => Promise<Response>;
+
+export interface ApiClientConfig {
+  baseUrl: string;
+  timeoutMs?: number;
+  retries?: number;
+  retryDelayMs?: number;
+  fetch?: FetchLike;
+}
+
+export type ApiErrorKind = 'network' | 'timeout' | 'http' | 'parse';
+
+export interface ApiError {
+  kind: ApiErrorKind;
+  message: string;
+  status?: number;
+}
+
+export type ApiResult<T> =
+  | { ok: true; data: T }
+  | { ok: false; error: ApiError };
+
+// Everything except the events, which are only changed through the event endpoints
+export type ProfileUpdate = Omit<UserProfile, 'attendedEvents' | 'upcomingEvents'>;
+
+// Timestamps are set by the server
+export type ReviewInput = Pick<EventReview, 'text' | 'subScores' | 'photos'>;
+
+// Which attended events to list; the server filters and orders them before
+// cutting out the page
+export interface EventPageQuery {
+  offset: number;
+  limit: number;
+  filters: EventFilters;
+}
+
+export interface ApiClient {
+  getProfile: () => Promise<ApiResult<UserProfile>>;
+  updateProfile: (profile: ProfileUpdate) => Promise<ApiResult<UserProfile>>;
+  listEvents: (query: EventPageQuery) => Promise<ApiResult<EventPage>>;
+  getEvent: (eventId: number) => Promise<ApiResult<Event>>;
+  // A null rating clears the user's rating
+  rateEvent: (eventId: number, rating: number | null) => Promise<ApiResult<Event>>;
+  saveReview: (eventId: number, review: ReviewInput) => Promise<ApiResult<Event>>;
+  listUpcomingEvents: () => Promise<ApiResult<UpcomingEvent[]>>;
+  getUpcomingEvent: (eventId: number) => Promise<ApiResult<UpcomingEvent>>;
+  rsvpEvent: (eventId: number, status: RsvpStatus) => Promise<ApiResult<UpcomingEvent>>;
+  // Sends a local JPEG as the profile photo
+  uploadAvatar: (fileUri: string) => Promise<ApiResult<UserProfile>>;
+  deleteAvatar: () => Promise<ApiResult<UserProfile>>;
+}
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const DEFAULT_RETRIES = 2;
+const DEFAULT_RETRY_DELAY_MS = 500;
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Network failures, timeouts and server errors are worth another attempt;
+// client errors (4xx) and malformed responses are not.
+const isRetryable = (error: ApiError) =>
+  error.kind === 'network' ||
+  error.kind === 'timeout' ||
+  (error.kind === 'http' && (error.status ?? 0) >= 500);
+
+// React Native's FormData reads files from a { uri, name, type } part, which
+// the DOM typings don't know about
+interface FilePart {
+  uri: string;
+  name: string;
+  type: string;
+}
+
+interface FileFormData extends FormData {
+  append(name: string, value: string | Blob | FilePart): void;
+}
+
+const toAvatarForm = (fileUri: string) => {
+  const form = new FormData() as FileFormData;
+  form.append('avatar', { uri: fileUri, name: 'avatar.jpg', type: 'image/jpeg' });
+  return form;
+};
+
+// Built by hand, since React Native's URLSearchParams is only partly
+// implemented. The mock server reads the same names.
+const toEventsPath = ({ offset, limit, filters }: EventPageQuery) => {
+  const params: [string, string | number | null][] = [
+    ['offset', offset],
+    ['limit', limit],
+    ['q', filters.query.trim()],
+    ['rated', filters.rated],
+    ['rating', filters.rating],
+    ['date', filters.dateRange],
+    ['location', filters.location],
+    ['sort', filters.sort],
+  ];
+  const query = params
+    .filter(([, value]) => value !== null && value !== '')
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`)
+    .join('&');
+  return `/events?${query}`;
+};
+
+export const createApiClient = (config: ApiClientConfig): ApiClient => {
+  const {
+    baseUrl,
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    retries = DEFAULT_RETRIES,
+    retryDelayMs = DEFAULT_RETRY_DELAY_MS,
+    fetch: fetchImpl = fetch,
+  } = config;
+  const root = baseUrl.replace(/\/+$/, '');
+
+  const attempt = async <T>(path: string, init: RequestInit): Promise<ApiResult<T>> => {
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+
+    let response: Response;
+    try {
+      response = await fetchImpl(`${root}${path}`, { ...init, signal: controller.signal });
+    } catch (error) {
+      return {
+        ok: false,
+        error: timedOut
+          ? { kind: 'timeout', message: `Request timed out after ${timeoutMs}ms` }
+          : { kind: 'network', message: error instanceof Error ? error.message : 'Network request failed' },
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (!response.ok) {
+      return {
+        ok: false,
+        error: {
+          kind: 'http',
+          status: response.status,
+          message: `Request failed with status ${response.status}`,
+        },
+      };
+    }
+
+    try {
+      return { ok: true, data: (await response.json()) as T };
+    } catch {
+      return { ok: false, error: { kind: 'parse', message: 'Response was not valid JSON' } };
+    }
+  };
+
+  // All endpoints are idempotent (PUT and the rating, RSVP and avatar POSTs set
+  // a value), so every request can safely be retried. Form data is sent as is
+  // so that fetch can add the multipart boundary itself.
+  const request = async <T>(
+    method: string,
+    path: string,
+    body?: unknown
+  ): Promise<ApiResult<T>> => {
+    const isForm = body instanceof FormData;
+    const init: RequestInit = {
+      method,
+      headers: {
+        Accept: 'application/json',
+        ...(body !== undefined && !isForm && { 'Content-Type': 'application/json' }),
+      },
+      body: isForm ? body : body !== undefined ? JSON.stringify(body) : undefined,
+    };
+
+    let result = await attempt<T>(path, init);
+    for (let retry = 0; retry < retries && !result.ok && isRetryable(result.error); retry++) {
+      await delay(retryDelayMs * 2 ** retry);
+      result = await attempt<T>(path, init);
+    }
+    return result;
+  };
+
+  // Responses that don't match the schema are reported like unreadable ones
+  const validated = async <T>(
+    validate: Validator<T>,
+    method: string,
+    path: string,
+    body?: unknown
+  ): Promise<ApiResult<T>> => {
+    const result = await request<unknown>(method, path, body);
+    if (!result.ok) return result;
+
+    const validation = validate(result.data);
+    if (!validation.ok) {
+      return {
+        ok: false,
+        error: { kind: 'parse', message: `Invalid response: ${describeFieldErrors(validation.errors)}` },
+      };
+    }
+    return { ok: true, data: validation.data };
+  };
+
+  return {
+    getProfile: () => validated(validateUserProfile, 'GET', '/profile'),
+    updateProfile: (profile) => validated(validateUserProfile, 'PUT', '/profile', profile),
+    listEvents: (query) => validated(validateEventPage, 'GET', toEventsPath(query)),
+    getEvent: (eventId) => validated(validateEvent, 'GET', `/events/${eventId}`),
+    rateEvent: (eventId, rating) =>
+      rating === null
+        ? validated(validateEvent, 'DELETE', `/events/${eventId}/rating`)
+        : validated(validateEvent, 'POST', `/events/${eventId}/rating`, { rating }),
+    saveReview: (eventId, review) =>
+      validated(validateEvent, 'PUT', `/events/${eventId}/review`, review),
+    listUpcomingEvents: () =>
+      validated(validateList(validateUpcomingEvent), 'GET', '/upcoming-events'),
+    getUpcomingEvent: (eventId) =>
+      validated(validateUpcomingEvent, 'GET', `/upcoming-events/${eventId}`),
+    rsvpEvent: (eventId, status) =>
+      validated(validateUpcomingEvent, 'POST', `/upcoming-events/${eventId}/rsvp`, { status }),
+    uploadAvatar: (fileUri) =>
+      validated(validateUserProfile, 'POST', '/profile/avatar', toAvatarForm(fileUri)),
+    deleteAvatar: () => validated(validateUserProfile, 'DELETE', '/profile/avatar'),
+  };
+};
+
+// Returns the catalog key of a user-facing explanation of the error
+export const describeApiError = (error: ApiError): MessageKey => {
+  switch (error.kind) {
+    case 'network':
+      return 'apiErrors.network';
+    case 'timeout':
+      return 'apiErrors.timeout';
+    case 'http':
+      return error.status === 404 ? 'apiErrors.notFound' : 'apiErrors.server';
+    case 'parse':
+      return 'apiErrors.parse';
+  }
+};
@@ -0,0 +1,32 @@
+import { UserProfile } from '../types';
+import profileData from '../data/profile.json';
+import { describeFieldErrors, validateUserProfile } from '../utils/profileValidation';
+import { createApiClient } from './client';
+import { createMockServer } from './mockServer';
+import { mockServerStorage } from '../services/mockServerStorage';
+
+export * from './client';
+
+// Set EXPO_PUBLIC_API_URL to talk to a real backend. Without it the app runs
+// against the in-process mock server, seeded from the bundled profile.json on
+// first launch and saved on the device after that.
+const API_BASE_URL = process.env.EXPO_PUBLIC_API_URL;
+const MOCK_BASE_URL = 'https://mock.profileapp.local/api';
+
+// A broken seed is a bug in the bundle, so fail loudly rather than serve it
+const loadSeed = (): UserProfile => {
+  const validation = validateUserProfile(profileData);
+  if (!validation.ok) {
+    throw new Error(`Bundled profile.json is invalid: ${describeFieldErrors(validation.errors)}`);
+  }
+  return validation.data;
+};
+
+export const mockServer = API_BASE_URL
+  ? null
+  : createMockServer({ baseUrl: MOCK_BASE_URL, seed: loadSeed(), storage: mockServerStorage });
+
+export const apiClient = createApiClient({
+  baseUrl: API_BASE_URL ?? MOCK_BASE_URL,
+  fetch: mockServer?.fetch,
+});
@@ -0,0 +1,373 @@
+import { Event, ReviewSubScores, RsvpStatus, UpcomingEvent, UserProfile } from '../types';
+import { archivePastEvents } from '../utils/events';
+import {
+  DATE_RANGE_LABELS,
+  DEFAULT_EVENT_FILTERS,
+  EventFilters,
+  RATED_FILTER_LABELS,
+  RATING_RANGE_LABELS,
+  SORT_LABELS,
+  pageEvents,
+} from '../utils/eventFilters';
+import { describeFieldErrors, isRecord, validateUserProfile } from '../utils/profileValidation';
+import { FetchLike, ReviewInput } from './client';
+
+// Where the mock keeps its data between launches, like a real backend would
+export interface MockServerStorage {
+  load: () => Promise<UserProfile | null>;
+  save: (profile: UserProfile) => Promise<void>;
+}
+
+export interface MockServerOptions {
+  baseUrl: string;
+  // Served until the first change is saved, and after a reset
+  seed: UserProfile;
+  storage?: MockServerStorage;
+  latencyMs?: number;
+}
+
+export interface MockServer {
+  fetch: FetchLike;
+  reset: () => void;
+  // Makes every request fail as if the device had no connection
+  setOffline: (offline: boolean) => void;
+}
+
+interface MockResponse {
+  status: number;
+  body?: unknown;
+}
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+const json = (status: number, body?: unknown): MockResponse => ({ status, body });
+
+const notFound = () => json(404, { message: 'Not found' });
+
+const RSVP_CHOICES: RsvpStatus[] = ['going', 'maybe', 'declined'];
+
+const isScore = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= 5;
+
+const isRsvpChoice = (value: unknown): value is RsvpStatus =>
+  RSVP_CHOICES.some(choice => choice === value);
+
+const SUB_SCORE_KEYS: (keyof ReviewSubScores)[] = ['venue', 'host', 'vibe'];
+
+// Null when the body is not a review
+const toReviewInput = (body: unknown): ReviewInput | null => {
+  if (!isRecord(body) || typeof body.text !== 'string') return null;
+  const { text, subScores = {}, photos = [] } = body;
+  if (!isRecord(subScores) || !Array.isArray(photos)) return null;
+  if (!photos.every(photo => typeof photo === 'string')) return null;
+
+  const scores: ReviewSubScores = {};
+  for (const key of SUB_SCORE_KEYS) {
+    const score = subScores[key];
+    if (score === undefined) continue;
+    if (!isScore(score)) return null;
+    scores[key] = score;
+  }
+  return { text, subScores: scores, photos };
+};
+
+// Moves the user's vote in a 1-5 star distribution from one score to
+// another; a missing score means no vote
+const moveVote = (
+  distribution = [0, 0, 0, 0, 0],
+  from: number | undefined,
+  to: number | undefined
+) => {
+  const counts = [...distribution];
+  if (from) counts[from - 1] = Math.max(0, counts[from - 1] - 1);
+  if (to) counts[to - 1] += 1;
+  return counts;
+};
+
+const MAX_PAGE_SIZE = 100;
+
+type Query = Record<string, string>;
+
+// React Native's URLSearchParams cannot parse, so the query is split by hand
+const parseQuery = (search: string): Query =>
+  Object.fromEntries(
+    search
+      .split('&')
+      .filter(Boolean)
+      .map(pair => {
+        const [key, value = ''] = pair.split('=');
+        return [decodeURIComponent(key), decodeURIComponent(value.replace(/\+/g, ' '))];
+      })
+  );
+
+// Unknown values fall back to the default, like a missing parameter
+const oneOf = <T extends string>(labels: Record<T, unknown>, value: string | undefined, fallback: T): T =>
+  value !== undefined && Object.keys(labels).includes(value) ? (value as T) : fallback;
+
+const toEventFilters = (query: Query): EventFilters => ({
+  query: query.q ?? '',
+  rated: oneOf(RATED_FILTER_LABELS, query.rated, DEFAULT_EVENT_FILTERS.rated),
+  rating: oneOf(RATING_RANGE_LABELS, query.rating, DEFAULT_EVENT_FILTERS.rating),
+  dateRange: oneOf(DATE_RANGE_LABELS, query.date, DEFAULT_EVENT_FILTERS.dateRange),
+  location: query.location ?? null,
+  sort: oneOf(SORT_LABELS, query.sort, DEFAULT_EVENT_FILTERS.sort),
+});
+
+const abortError = () => {
+  const error = new Error('Aborted');
+  error.name = 'AbortError';
+  return error;
+};
+
+/**
+ * In-process stand-in for the profile backend. It serves the same routes as
+ * the real API so the app and its API client can run without any network.
+ * With storage, changes survive restarts; otherwise every launch starts from
+ * the seed profile.
+ */
+export const createMockServer = ({
+  baseUrl,
+  seed,
+  storage,
+  latencyMs = 300,
+}: MockServerOptions): MockServer => {
+  const root = baseUrl.replace(/\/+$/, '');
+  let profile = clone(seed);
+  let offline = false;
+
+  // Requests wait for the saved data so the seed is never served in its place
+  const ready = storage
+    ? storage.load().then(saved => {
+        if (saved) profile = saved;
+      })
+    : Promise.resolve();
+
+  const persist = () => {
+    storage?.save(profile);
+  };
+
+  const findEvent = (eventId: number) =>
+    profile.attendedEvents.find(event => event.id === eventId);
+
+  const replaceEvent = (updated: Event) => {
+    profile = {
+      ...profile,
+      attendedEvents: profile.attendedEvents.map(event =>
+        event.id === updated.id ? updated : event
+      ),
+    };
+  };
+
+  const replaceUpcomingEvent = (updated: UpcomingEvent) => {
+    profile = {
+      ...profile,
+      upcomingEvents: profile.upcomingEvents.map(event =>
+        event.id === updated.id ? updated : event
+      ),
+    };
+  };
+
+  // "going" takes a spot if one is free and joins the waitlist otherwise
+  const applyRsvp = (event: UpcomingEvent, requested: RsvpStatus): UpcomingEvent => {
+    const wasGoing = event.rsvpStatus === 'going';
+    if (requested === 'going') {
+      if (wasGoing) return event;
+      const isFull = event.capacity !== undefined && event.attendeeCount >= event.capacity;
+      return isFull
+        ? { ...event, rsvpStatus: 'waitlisted' }
+        : { ...event, rsvpStatus: 'going', attendeeCount: event.attendeeCount + 1 };
+    }
+    return {
+      ...event,
+      rsvpStatus: requested,
+      attendeeCount: wasGoing ? event.attendeeCount - 1 : event.attendeeCount,
+    };
+  };
+
+  const route = (method: string, path: string, body: unknown, query: Query): MockResponse => {
+    profile = archivePastEvents(profile);
+
+    if (path === '/profile') {
+      if (method === 'GET') return json(200, profile);
+      if (method === 'PUT') {
+        if (!isRecord(body)) return json(400, { message: 'Expected a profile' });
+        // The photo only changes through /profile/avatar
+        const validation = validateUserProfile({
+          ...body,
+          profileImageUrl: profile.profileImageUrl,
+          profileThumbnailUrl: profile.profileThumbnailUrl,
+          attendedEvents: profile.attendedEvents,
+          upcomingEvents: profile.upcomingEvents,
+        });
+        if (!validation.ok) return json(400, { message: describeFieldErrors(validation.errors) });
+        profile = validation.data;
+        return json(200, profile);
+      }
+    }
+
+    // Uploads are not stored; the profile just points at where they would live
+    if (path === '/profile/avatar') {
+      if (method === 'POST') {
+        if (!(body instanceof FormData)) return json(400, { message: 'Expected a multipart upload' });
+        const name = `${root}/avatars/${Date.now()}`;
+        profile = {
+          ...profile,
+          profileImageUrl: `${name}.jpg`,
+          profileThumbnailUrl: `${name}-thumb.jpg`,
+        };
+        return json(200, profile);
+      }
+      if (method === 'DELETE') {
+        profile = { ...profile, profileImageUrl: undefined, profileThumbnailUrl: undefined };
+        return json(200, profile);
+      }
+    }
+
+    if (path === '/upcoming-events' && method === 'GET') {
+      return json(200, profile.upcomingEvents);
+    }
+
+    const upcomingMatch = path.match(/^\/upcoming-events\/(\d+)(\/rsvp)?$/);
+    if (upcomingMatch) {
+      const event = profile.upcomingEvents.find(({ id }) => id === Number(upcomingMatch[1]));
+      if (!event) return notFound();
+
+      if (!upcomingMatch[2] && method === 'GET') return json(200, event);
+
+      if (upcomingMatch[2] && method === 'POST') {
+        const status = isRecord(body) ? body.status : undefined;
+        if (!isRsvpChoice(status)) {
+          return json(400, { message: 'RSVP status must be going, maybe or declined' });
+        }
+        const updated = applyRsvp(event, status);
+        replaceUpcomingEvent(updated);
+        return json(200, updated);
+      }
+    }
+
+    if (path === '/events' && method === 'GET') {
+      const offset = Number(query.offset ?? 0);
+      const limit = Number(query.limit ?? MAX_PAGE_SIZE);
+      if (!Number.isInteger(offset) || offset < 0 || !Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+        return json(400, { message: `offset must be 0 or more and limit from 1 to ${MAX_PAGE_SIZE}` });
+      }
+      return json(200, pageEvents(profile.attendedEvents, { offset, limit, filters: toEventFilters(query) }));
+    }
+
+    const eventMatch = path.match(/^\/events\/(\d+)(\/rating|\/review)?$/);
+    if (eventMatch) {
+      const event = findEvent(Number(eventMatch[1]));
+      if (!event) return notFound();
+
+      if (!eventMatch[2] && method === 'GET') return json(200, event);
+
+      if (eventMatch[2] === '/rating' && method === 'POST') {
+        const rating = isRecord(body) ? body.rating : undefined;
+        if (!isScore(rating)) {
+          return json(400, { message: 'Rating must be an integer from 1 to 5' });
+        }
+        const updated = {
+          ...event,
+          rated: true,
+          rating,
+          ratingDistribution: moveVote(event.ratingDistribution, event.rating, rating),
+        };
+        replaceEvent(updated);
+        return json(200, updated);
+      }
+
+      if (eventMatch[2] === '/rating' && method === 'DELETE') {
+        const updated: Event = {
+          ...event,
+          rated: false,
+          rating: undefined,
+          ratingDistribution: moveVote(event.ratingDistribution, event.rating, undefined),
+        };
+        replaceEvent(updated);
+        return json(200, updated);
+      }
+
+      if (eventMatch[2] === '/review' && method === 'PUT') {
+        const review = toReviewInput(body);
+        if (!review) {
+          return json(400, { message: 'Invalid review' });
+        }
+        const now = new Date().toISOString();
+        const updated: Event = {
+          ...event,
+          review: {
+            text: review.text,
+            subScores: review.subScores,
+            photos: review.photos,
+            createdAt: event.review?.createdAt ?? now,
+            ...(event.review && { editedAt: now }),
+          },
+        };
+        replaceEvent(updated);
+        return json(200, updated);
+      }
+    }
+
+    return notFound();
+  };
+
+  const toResponse = ({ status, body }: MockResponse) =>
+    new Response(body !== undefined ? JSON.stringify(clone(body)) : null, {
+      status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  const mockFetch: FetchLike = (url, init = {}) =>
+    new Promise((resolve, reject) => {
+      const { signal } = init;
+      if (signal?.aborted) {
+        reject(abortError());
+        return;
+      }
+
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+
+        if (offline || !url.startsWith(root)) {
+          reject(new TypeError(`Network request failed: ${url}`));
+          return;
+        }
+
+        const [path, search = ''] = url.slice(root.length).split('?');
+        let body: unknown = init.body;
+        if (typeof init.body === 'string') {
+          try {
+            body = JSON.parse(init.body);
+          } catch {
+            resolve(toResponse(json(400, { message: 'Request body is not valid JSON' })));
+            return;
+          }
+        }
+
+        ready.then(() => {
+          const before = profile;
+          const response = route(init.method ?? 'GET', path, body, parseQuery(search));
+          if (profile !== before) persist();
+
+          resolve(toResponse(response));
+        }, reject);
+      }, latencyMs);
+
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(abortError());
+      };
+      signal?.addEventListener('abort', onAbort);
+    });
+
+  return {
+    fetch: mockFetch,
+    reset: () => {
+      profile = clone(seed);
+      persist();
+    },
+    setOffline: (value) => {
+      offline = value;
+    },
+  };
+};
@@ -9,7 +9,9 @@ import {
   GestureResponderEvent,
 } from 'react-native';
 import { MaterialIcons } from '@expo/vector-icons';
-import { Colors, Typography, Spacing, BorderRadius, Shadows } from '../styles/theme';
+import { ColorPalette, Typography, Spacing, BorderRadius, Shadows } from '../styles/theme';
+import { useTheme, useThemedStyles } from '../styles/ThemeContext';
+import { useI18n } from '../i18n/I18nContext';
 
 type ButtonVariant = 'primary' | 'secondary' | 'outline' | 'ghost';
 type ButtonSize = 'sm' | 'md' | 'lg';
@@ -39,6 +41,10 @@ export const AnimatedButton: React.FC<AnimatedButtonProps> = ({
   style,
   textStyle,
 }) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useI18n();
+
   const scaleAnim = useRef(new Animated.Value(1)).current;
   const opacityAnim = useRef(new Animated.Value(1)).current;
 
@@ -96,15 +102,15 @@ export const AnimatedButton: React.FC<AnimatedButtonProps> = ({
     
     switch (variant) {
       case 'primary':
-        return { ...baseStyle, ...sizeStyle, color: Colors.text.white };
+        return { ...baseStyle, ...sizeStyle, color: colors.text.white };
       case 'secondary':
-        return { ...baseStyle, ...sizeStyle, color: Colors.text.white };
+        return { ...baseStyle, ...sizeStyle, color: colors.text.white };
       case 'outline':
-        return { ...baseStyle, ...sizeStyle, color: Colors.primary };
+        return { ...baseStyle, ...sizeStyle, color: colors.primary };
       case 'ghost':
-        return { ...baseStyle, ...sizeStyle, color: Colors.primary };
+        return { ...baseStyle, ...sizeStyle, color: colors.primary };
       default:
-        return { ...baseStyle, ...sizeStyle, color: Colors.text.white };
+        return { ...baseStyle, ...sizeStyle, color: colors.text.white };
     }
   };
 
@@ -121,8 +127,8 @@ export const AnimatedButton: React.FC<AnimatedButtonProps> = ({
     if (!icon) return null;
     
     const iconColor = variant === 'outline' || variant === 'ghost' 
-      ? Colors.primary 
-      : Colors.text.white;
+      ? colors.primary 
+      : colors.text.white;
     
     return (
       <MaterialIcons
@@ -160,7 +166,7 @@ export const AnimatedButton: React.FC<AnimatedButtonProps> = ({
       >
         {iconPosition === 'left' && renderIcon()}
         <Text style={[getTextStyle(), textStyle, disabled && styles.disabledText]}>
-          {loading ? 'Loading...' : title}
+          {loading ? t('common.loading') : title}
         </Text>
         {iconPosition === 'right' && renderIcon()}
       </TouchableOpacity>
@@ -168,7 +174,7 @@ export const AnimatedButton: React.FC<AnimatedButtonProps> = ({
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (colors: ColorPalette) => StyleSheet.create({
   button: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -192,21 +198,21 @@ const styles = StyleSheet.create({
     minHeight: 52,
   },
   primaryButton: {
-    backgroundColor: Colors.primary,
+    backgroundColor: colors.primary,
   },
   secondaryButton: {
-    backgroundColor: Colors.secondary,
+    backgroundColor: colors.secondary,
   },
   outlineButton: {
     backgroundColor: 'transparent',
     borderWidth: 1.5,
-    borderColor: Colors.primary,
+    borderColor: colors.primary,
   },
   ghostButton: {
-    backgroundColor: Colors.primaryUltraLight,
+    backgroundColor: colors.primaryUltraLight,
   },
   disabledButton: {
-    backgroundColor: Colors.border.light,
+    backgroundColor: colors.border.light,
     opacity: 0.6,
   },
   buttonText: {
@@ -223,7 +229,7 @@ const styles = StyleSheet.create({
     fontSize: Typography.size.lg,
   },
   disabledText: {
-    color: Colors.text.tertiary,
+    color: colors.text.tertiary,
   },
   iconLeft: {
     marginRight: Spacing.sm,
@@ -7,7 +7,8 @@ import {
   ViewStyle,
   GestureResponderEvent,
 } from 'react-native';
-import { Colors, Spacing, BorderRadius, Shadows } from '../styles/theme';
+import { ColorPalette, Spacing, BorderRadius, Shadows } from '../styles/theme';
+import { useThemedStyles } from '../styles/ThemeContext';
 
 interface AnimatedCardProps {
   children: ReactNode;
@@ -24,6 +25,8 @@ export const AnimatedCard: React.FC<AnimatedCardProps> = ({
   pressable = true,
   elevated = true,
 }) => {
+  const styles = useThemedStyles(createStyles);
+
   const scaleAnim = useRef(new Animated.Value(1)).current;
 
   const handlePressIn = () => {
@@ -78,16 +81,16 @@ export const AnimatedCard: React.FC<AnimatedCardProps> = ({
   return <View style={styles.container}>{CardContent}</View>;
 };
 
-const styles = StyleSheet.create({
+const createStyles = (colors: ColorPalette) => StyleSheet.create({
   container: {
     marginVertical: Spacing.sm,
   },
   card: {
-    backgroundColor: Colors.background.primary,
+    backgroundColor: colors.background.primary,
     borderRadius: BorderRadius.lg,
     padding: Spacing.xl,
     borderWidth: 1,
-    borderColor: Colors.border.light,
+    borderColor: colors.border.light,
   },
   elevated: {
     ...Shadows.md,
@@ -0,0 +1,115 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { View, StyleSheet, PanResponder, LayoutChangeEvent } from 'react-native';
+import { ColorPalette, Spacing, BorderRadius, Shadows } from '../styles/theme';
+import { useThemedStyles } from '../styles/ThemeContext';
+
+interface DateRangeSliderProps {
+  // Number of selectable steps, e.g. months of history
+  steps: number;
+  range: [number, number];
+  onChange: (range: [number, number]) => void;
+  onSlidingStart?: () => void;
+}
+
+const THUMB_SIZE = 24;
+
+type Thumb = 'start' | 'end';
+
+export const DateRangeSlider: React.FC<DateRangeSliderProps> = ({
+  steps,
+  range,
+  onChange,
+  onSlidingStart,
+}) => {
+  const styles = useThemedStyles(createStyles);
+
+  const [trackWidth, setTrackWidth] = useState(0);
+
+  // The responders are created once, so they read the latest props from here
+  const latest = useRef({ range, steps, trackWidth, onChange, onSlidingStart });
+  latest.current = { range, steps, trackWidth, onChange, onSlidingStart };
+  const dragOrigin = useRef(0);
+
+  const toPosition = (index: number, width: number, count: number) =>
+    count > 1 ? (index / (count - 1)) * width : 0;
+
+  const createResponder = (thumb: Thumb) => PanResponder.create({
+    onStartShouldSetPanResponder: () => true,
+    onMoveShouldSetPanResponder: () => true,
+    onPanResponderGrant: () => {
+      const { range: current, steps: count, trackWidth: width } = latest.current;
+      dragOrigin.current = toPosition(thumb === 'start' ? current[0] : current[1], width, count);
+      latest.current.onSlidingStart?.();
+    },
+    onPanResponderMove: (_, gesture) => {
+      const { range: current, steps: count, trackWidth: width, onChange: notify } = latest.current;
+      if (width === 0 || count < 2) return;
+
+      const position = Math.min(Math.max(dragOrigin.current + gesture.dx, 0), width);
+      const index = Math.round((position / width) * (count - 1));
+      const next: [number, number] = thumb === 'start'
+        ? [Math.min(index, current[1]), current[1]]
+        : [current[0], Math.max(index, current[0])];
+
+      if (next[0] !== current[0] || next[1] !== current[1]) {
+        notify(next);
+      }
+    },
+  });
+
+  const startResponder = useMemo(() => createResponder('start'), []);
+  const endResponder = useMemo(() => createResponder('end'), []);
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    setTrackWidth(event.nativeEvent.layout.width);
+  };
+
+  const startX = toPosition(range[0], trackWidth, steps);
+  const endX = toPosition(range[1], trackWidth, steps);
+
+  return (
+    <View style={styles.container} onLayout={handleLayout}>
+      <View style={styles.track} />
+      <View style={[styles.selectedTrack, { left: startX, width: endX - startX }]} />
+      <View
+        {...startResponder.panHandlers}
+        style={[styles.thumb, { left: startX - THUMB_SIZE / 2 }]}
+        hitSlop={8}
+      />
+      <View
+        {...endResponder.panHandlers}
+        style={[styles.thumb, { left: endX - THUMB_SIZE / 2 }]}
+        hitSlop={8}
+      />
+    </View>
+  );
+};
+
+const createStyles = (colors: ColorPalette) => StyleSheet.create({
+  container: {
+    height: THUMB_SIZE + Spacing.sm,
+    justifyContent: 'center',
+    marginHorizontal: THUMB_SIZE / 2,
+  },
+  track: {
+    height: 4,
+    borderRadius: BorderRadius.full,
+    backgroundColor: colors.border.light,
+  },
+  selectedTrack: {
+    position: 'absolute',
+    height: 4,
+    borderRadius: BorderRadius.full,
+    backgroundColor: colors.primary,
+  },
+  thumb: {
+    position: 'absolute',
+    width: THUMB_SIZE,
+    height: THUMB_SIZE,
+    borderRadius: THUMB_SIZE / 2,
+    backgroundColor: colors.background.primary,
+    borderWidth: 3,
+    borderColor: colors.primary,
+    ...Shadows.base,
+  },
+});
@@ -0,0 +1,60 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { ColorPalette, Typography, Spacing, BorderRadius } from '../styles/theme';
+import { useTheme, useThemedStyles } from '../styles/ThemeContext';
+import { useI18n } from '../i18n/I18nContext';
+
+interface ErrorBannerProps {
+  message: string;
+  onRetry?: () => void;
+  retryTitle?: string;
+}
+
+export const ErrorBanner: React.FC<ErrorBannerProps> = ({
+  message,
+  onRetry,
+  retryTitle,
+}) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useI18n();
+
+  return (
+    <View style={styles.banner}>
+      <MaterialIcons name="error-outline" size={20} color={colors.error} />
+      <Text style={styles.message}>{message}</Text>
+      {onRetry && (
+        <TouchableOpacity onPress={onRetry} style={styles.retryButton}>
+          <Text style={styles.retryText}>{retryTitle ?? t('common.retry')}</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+};
+
+const createStyles = (colors: ColorPalette) => StyleSheet.create({
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.errorLight,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.md,
+    marginVertical: Spacing.sm,
+  },
+  message: {
+    flex: 1,
+    fontSize: Typography.size.sm,
+    color: colors.text.primary,
+    marginHorizontal: Spacing.sm,
+  },
+  retryButton: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+  },
+  retryText: {
+    fontSize: Typography.size.sm,
+    fontWeight: Typography.weight.semibold as any,
+    color: colors.error,
+  },
+});
@@ -0,0 +1,211 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import {
+  addMonths,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameMonth,
+  isToday,
+  startOfMonth,
+  startOfWeek,
+  subMonths,
+} from 'date-fns';
+import { Event } from '../types';
+import { formatDate, formatMonthYear, fromDayKey, toDayKey } from '../utils/dateFormat';
+import { AnimatedCard } from './AnimatedCard';
+import { ColorPalette, Typography, Spacing, BorderRadius } from '../styles/theme';
+import { useTheme, useThemedStyles } from '../styles/ThemeContext';
+import { useI18n } from '../i18n/I18nContext';
+
+interface EventCalendarProps {
+  events: Event[];
+  selectedDay: string | null;
+  onSelectDay: (dayKey: string | null) => void;
+}
+
+export const EventCalendar: React.FC<EventCalendarProps> = ({
+  events,
+  selectedDay,
+  onSelectDay,
+}) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { locale } = useI18n();
+
+  // Open on the selected day's month, else the month of the latest event
+  const [visibleMonth, setVisibleMonth] = useState(() => {
+    if (selectedDay) return startOfMonth(fromDayKey(selectedDay));
+    const latest = Math.max(...events.map(event => new Date(event.date).getTime()));
+    return startOfMonth(Number.isFinite(latest) ? new Date(latest) : new Date());
+  });
+
+  const eventCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    events.forEach(event => {
+      const key = toDayKey(event.date, event.timeZone);
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    });
+    return counts;
+  }, [events]);
+
+  const days = useMemo(() => eachDayOfInterval({
+    start: startOfWeek(startOfMonth(visibleMonth), { locale: locale.dateLocale }),
+    end: endOfWeek(endOfMonth(visibleMonth), { locale: locale.dateLocale }),
+  }), [visibleMonth, locale]);
+
+  const weekdays = days.slice(0, 7).map(day => formatDate(day, 'weekdayNarrow', locale));
+
+  const handleDayPress = (dayKey: string) => {
+    onSelectDay(dayKey === selectedDay ? null : dayKey);
+  };
+
+  return (
+    <AnimatedCard style={styles.card} pressable={false}>
+      {/* Month Navigation */}
+      <View style={styles.monthRow}>
+        <TouchableOpacity
+          onPress={() => setVisibleMonth(month => subMonths(month, 1))}
+          style={styles.monthButton}
+        >
+          <MaterialIcons
+            name="chevron-left"
+            size={24}
+            color={colors.text.secondary}
+          />
+        </TouchableOpacity>
+        <Text style={styles.monthTitle}>{formatMonthYear(visibleMonth, locale)}</Text>
+        <TouchableOpacity
+          onPress={() => setVisibleMonth(month => addMonths(month, 1))}
+          style={styles.monthButton}
+        >
+          <MaterialIcons
+            name="chevron-right"
+            size={24}
+            color={colors.text.secondary}
+          />
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.grid}>
+        {weekdays.map(weekday => (
+          <Text key={weekday} style={styles.weekday}>{weekday}</Text>
+        ))}
+
+        {days.map(day => {
+          const key = toDayKey(day);
+          const count = eventCounts.get(key) ?? 0;
+          const isSelected = key === selectedDay;
+          const inMonth = isSameMonth(day, visibleMonth);
+
+          return (
+            <TouchableOpacity
+              key={key}
+              style={styles.dayCell}
+              onPress={() => handleDayPress(key)}
+              disabled={count === 0}
+            >
+              <View
+                style={[
+                  styles.dayCircle,
+                  count > 0 && styles.dayWithEvents,
+                  isSelected && styles.daySelected,
+                  isToday(day) && !isSelected && styles.dayToday,
+                ]}
+              >
+                <Text
+                  style={[
+                    styles.dayText,
+                    !inMonth && styles.dayTextOutside,
+                    count > 0 && styles.dayTextWithEvents,
+                    isSelected && styles.dayTextSelected,
+                  ]}
+                >
+                  {format(day, 'd')}
+                </Text>
+              </View>
+              {count > 1 && !isSelected && (
+                <Text style={styles.countText}>{count}</Text>
+              )}
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    </AnimatedCard>
+  );
+};
+
+const createStyles = (colors: ColorPalette) => StyleSheet.create({
+  card: {
+    marginBottom: Spacing.lg,
+  },
+  monthRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: Spacing.md,
+  },
+  monthButton: {
+    padding: Spacing.xs,
+  },
+  monthTitle: {
+    fontSize: Typography.size.lg,
+    fontWeight: Typography.weight.semibold as any,
+    color: colors.text.primary,
+  },
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  weekday: {
+    width: `${100 / 7}%`,
+    textAlign: 'center',
+    fontSize: Typography.size.xs,
+    fontWeight: Typography.weight.medium as any,
+    color: colors.text.tertiary,
+    marginBottom: Spacing.sm,
+  },
+  dayCell: {
+    width: `${100 / 7}%`,
+    height: 44,
+    alignItems: 'center',
+  },
+  dayCircle: {
+    width: 34,
+    height: 34,
+    borderRadius: BorderRadius.full,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  dayWithEvents: {
+    backgroundColor: colors.primaryUltraLight,
+  },
+  daySelected: {
+    backgroundColor: colors.primary,
+  },
+  dayToday: {
+    borderWidth: 1,
+    borderColor: colors.primary,
+  },
+  dayText: {
+    fontSize: Typography.size.sm,
+    color: colors.text.primary,
+  },
+  dayTextOutside: {
+    color: colors.text.light,
+  },
+  dayTextWithEvents: {
+    color: colors.primary,
+    fontWeight: Typography.weight.bold as any,
+  },
+  dayTextSelected: {
+    color: colors.text.white,
+  },
+  countText: {
+    fontSize: 9,
+    color: colors.primary,
+    fontWeight: Typography.weight.bold as any,
+  },
+});
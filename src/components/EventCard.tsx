@@ -1,27 +1,32 @@
 import React from 'react';
-import { View, Text, StyleSheet } from 'react-native';
+import { View, Text, Image, StyleSheet } from 'react-native';
 import { MaterialIcons } from '@expo/vector-icons';
-import { format } from 'date-fns';
 import { Event } from '../types';
+import { formatEventDate } from '../utils/dateFormat';
+import { getCoverPhoto } from '../utils/events';
 import { AnimatedCard } from './AnimatedCard';
-import { Colors, Typography, Spacing, BorderRadius } from '../styles/theme';
+import { ColorPalette, Typography, Spacing, BorderRadius } from '../styles/theme';
+import { useTheme, useThemedStyles } from '../styles/ThemeContext';
+import { useI18n } from '../i18n/I18nContext';
 
 interface EventCardProps {
   event: Event;
-  onPress: () => void;
+  onPress: (event: Event) => void;
+  pendingSync?: boolean;
 }
 
-export const EventCard: React.FC<EventCardProps> = ({ event, onPress }) => {
-  const formatDate = (dateString: string) => {
-    const date = new Date(dateString);
-    return {
-      day: format(date, 'd'),
-      month: format(date, 'MMM'),
-      time: format(date, 'h:mm a'),
-    };
-  };
+// Memoized so long lists only re-render the cards whose event changed
+export const EventCard: React.FC<EventCardProps> = React.memo(({
+  event,
+  onPress,
+  pendingSync = false,
+}) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t, locale } = useI18n();
 
-  const { day, month, time } = formatDate(event.date);
+  const { day, month, time } = formatEventDate(event, locale);
+  const coverPhoto = getCoverPhoto(event);
 
   const renderRatingStars = () => {
     if (!event.rating) return null;
@@ -33,7 +38,7 @@ export const EventCard: React.FC<EventCardProps> = ({ event, onPress }) => {
           key={i}
           name="star"
           size={14}
-          color={i <= event.rating ? Colors.star : Colors.starInactive}
+          color={i <= event.rating ? colors.star : colors.starInactive}
           style={styles.star}
         />
       );
@@ -42,7 +47,12 @@ export const EventCard: React.FC<EventCardProps> = ({ event, onPress }) => {
   };
 
   return (
-    <AnimatedCard onPress={onPress} style={styles.cardContainer}>
+    <AnimatedCard onPress={() => onPress(event)} style={styles.cardContainer}>
+      {/* Cover Photo */}
+      {coverPhoto && (
+        <Image source={{ uri: coverPhoto.thumbnailUri }} style={styles.coverPhoto} />
+      )}
+
       <View style={styles.cardContent}>
         {/* Date Badge */}
         <View style={styles.dateBadge}>
@@ -58,7 +68,7 @@ export const EventCard: React.FC<EventCardProps> = ({ event, onPress }) => {
             </Text>
             {event.rated && (
               <View style={styles.ratingBadge}>
-                <MaterialIcons name="star" size={12} color={Colors.star} />
+                <MaterialIcons name="star" size={12} color={colors.star} />
                 <Text style={styles.ratingText}>{event.rating}</Text>
               </View>
             )}
@@ -73,7 +83,7 @@ export const EventCard: React.FC<EventCardProps> = ({ event, onPress }) => {
               <MaterialIcons 
                 name="location-on" 
                 size={14} 
-                color={Colors.text.tertiary} 
+                color={colors.text.tertiary} 
               />
               <Text style={styles.location} numberOfLines={1}>
                 {event.location}
@@ -84,7 +94,7 @@ export const EventCard: React.FC<EventCardProps> = ({ event, onPress }) => {
               <MaterialIcons 
                 name="schedule" 
                 size={14} 
-                color={Colors.text.tertiary} 
+                color={colors.text.tertiary} 
               />
               <Text style={styles.time}>{time}</Text>
             </View>
@@ -96,6 +106,23 @@ export const EventCard: React.FC<EventCardProps> = ({ event, onPress }) => {
               {renderRatingStars()}
             </View>
           )}
+
+          {/* Review Snippet */}
+          {event.review && (
+            <View style={styles.reviewRow}>
+              <MaterialIcons name="format-quote" size={14} color={colors.text.tertiary} />
+              <Text style={styles.reviewSnippet} numberOfLines={1}>
+                {event.review.text}
+              </Text>
+            </View>
+          )}
+
+          {pendingSync && (
+            <View style={styles.pendingRow}>
+              <MaterialIcons name="cloud-upload" size={14} color={colors.warning} />
+              <Text style={styles.pendingText}>{t('events.pendingSync')}</Text>
+            </View>
+          )}
         </View>
 
         {/* Arrow Indicator */}
@@ -103,26 +130,32 @@ export const EventCard: React.FC<EventCardProps> = ({ event, onPress }) => {
           <MaterialIcons 
             name="chevron-right" 
             size={20} 
-            color={Colors.text.tertiary} 
+            color={colors.text.tertiary} 
           />
         </View>
       </View>
     </AnimatedCard>
   );
-};
+});
 
-const styles = StyleSheet.create({
+const createStyles = (colors: ColorPalette) => StyleSheet.create({
   cardContainer: {
     marginHorizontal: Spacing.base,
     marginVertical: Spacing.sm,
   },
+  coverPhoto: {
+    width: '100%',
+    height: 140,
+    borderRadius: BorderRadius.md,
+    marginBottom: Spacing.md,
+  },
   cardContent: {
     flexDirection: 'row',
     alignItems: 'flex-start',
     padding: 0, // AnimatedCard already has padding
   },
   dateBadge: {
-    backgroundColor: Colors.primary,
+    backgroundColor: colors.primary,
     borderRadius: BorderRadius.md,
     paddingHorizontal: Spacing.md,
     paddingVertical: Spacing.sm,
@@ -133,13 +166,13 @@ const styles = StyleSheet.create({
   dateDay: {
     fontSize: Typography.size.lg,
     fontWeight: Typography.weight.bold as any,
-    color: Colors.text.white,
+    color: colors.text.white,
     lineHeight: Typography.size.lg * Typography.lineHeight.tight,
   },
   dateMonth: {
     fontSize: Typography.size.xs,
     fontWeight: Typography.weight.medium as any,
-    color: Colors.text.white,
+    color: colors.text.white,
     textTransform: 'uppercase',
     letterSpacing: 0.5,
   },
@@ -156,7 +189,7 @@ const styles = StyleSheet.create({
   title: {
     fontSize: Typography.size.lg,
     fontWeight: Typography.weight.semibold as any,
-    color: Colors.text.primary,
+    color: colors.text.primary,
     lineHeight: Typography.size.lg * Typography.lineHeight.tight,
     flex: 1,
     marginRight: Spacing.sm,
@@ -164,7 +197,7 @@ const styles = StyleSheet.create({
   ratingBadge: {
     flexDirection: 'row',
     alignItems: 'center',
-    backgroundColor: Colors.accent,
+    backgroundColor: colors.accent,
     paddingHorizontal: Spacing.sm,
     paddingVertical: 2,
     borderRadius: BorderRadius.sm,
@@ -172,12 +205,12 @@ const styles = StyleSheet.create({
   ratingText: {
     fontSize: Typography.size.xs,
     fontWeight: Typography.weight.semibold as any,
-    color: Colors.text.white,
+    color: colors.text.white,
     marginLeft: 2,
   },
   description: {
     fontSize: Typography.size.sm,
-    color: Colors.text.secondary,
+    color: colors.text.secondary,
     lineHeight: Typography.size.sm * Typography.lineHeight.relaxed,
     marginBottom: Spacing.md,
   },
@@ -195,7 +228,7 @@ const styles = StyleSheet.create({
   },
   location: {
     fontSize: Typography.size.sm,
-    color: Colors.text.tertiary,
+    color: colors.text.tertiary,
     marginLeft: Spacing.xs,
     flex: 1,
   },
@@ -205,7 +238,7 @@ const styles = StyleSheet.create({
   },
   time: {
     fontSize: Typography.size.sm,
-    color: Colors.text.tertiary,
+    color: colors.text.tertiary,
     marginLeft: Spacing.xs,
   },
   starsContainer: {
@@ -215,6 +248,29 @@ const styles = StyleSheet.create({
   star: {
     marginRight: 1,
   },
+  reviewRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: Spacing.xs,
+  },
+  reviewSnippet: {
+    flex: 1,
+    fontSize: Typography.size.sm,
+    fontStyle: 'italic',
+    color: colors.text.secondary,
+    marginLeft: Spacing.xs,
+  },
+  pendingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: Spacing.xs,
+  },
+  pendingText: {
+    fontSize: Typography.size.xs,
+    fontWeight: Typography.weight.medium as any,
+    color: colors.warning,
+    marginLeft: Spacing.xs,
+  },
   arrowContainer: {
     justifyContent: 'center',
     alignItems: 'center',
@@ -0,0 +1,269 @@
+import React, { useState } from 'react';
+import { View, Text, ScrollView, TouchableOpacity, StyleSheet } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import {
+  DATE_RANGE_LABELS,
+  DateRange,
+  EventFilters,
+  EventSortOption,
+  RATED_FILTER_LABELS,
+  RATING_RANGE_LABELS,
+  RatedFilter,
+  RatingRange,
+  SORT_LABELS,
+  countActiveFilters,
+} from '../utils/eventFilters';
+import { ColorPalette, Typography, Spacing, BorderRadius } from '../styles/theme';
+import { useTheme, useThemedStyles } from '../styles/ThemeContext';
+import { useI18n } from '../i18n/I18nContext';
+
+type FilterGroup = 'rated' | 'rating' | 'dateRange' | 'location' | 'sort';
+
+interface FilterOption {
+  label: string;
+  update: Partial<EventFilters>;
+  selected: boolean;
+}
+
+interface EventFilterBarProps {
+  filters: EventFilters;
+  locations: string[];
+  onChange: (update: Partial<EventFilters>) => void;
+  onReset: () => void;
+}
+
+interface ChipProps {
+  label: string;
+  icon?: keyof typeof MaterialIcons.glyphMap;
+  active?: boolean;
+  open?: boolean;
+  onPress: () => void;
+}
+
+const Chip: React.FC<ChipProps> = ({ label, icon, active = false, open, onPress }) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+
+  return (
+    <TouchableOpacity
+      style={[styles.chip, active && styles.chipActive]}
+      onPress={onPress}
+    >
+      {icon && (
+        <MaterialIcons
+          name={icon}
+          size={16}
+          color={active ? colors.text.white : colors.text.secondary}
+        />
+      )}
+      <Text style={[styles.chipText, active && styles.chipTextActive]} numberOfLines={1}>
+        {label}
+      </Text>
+      {open !== undefined && (
+        <MaterialIcons
+          name={open ? 'expand-less' : 'expand-more'}
+          size={16}
+          color={active ? colors.text.white : colors.text.secondary}
+        />
+      )}
+    </TouchableOpacity>
+  );
+};
+
+export const EventFilterBar: React.FC<EventFilterBarProps> = ({
+  filters,
+  locations,
+  onChange,
+  onReset,
+}) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useI18n();
+
+  const [openGroup, setOpenGroup] = useState<FilterGroup | null>(null);
+  const activeCount = countActiveFilters(filters);
+
+  const toggleGroup = (group: FilterGroup) => {
+    setOpenGroup(current => (current === group ? null : group));
+  };
+
+  const getOptions = (group: FilterGroup): FilterOption[] => {
+    switch (group) {
+      case 'rated':
+        return (Object.keys(RATED_FILTER_LABELS) as RatedFilter[]).map(rated => ({
+          label: t(RATED_FILTER_LABELS[rated]),
+          update: { rated },
+          selected: filters.rated === rated,
+        }));
+      case 'rating':
+        return (Object.keys(RATING_RANGE_LABELS) as RatingRange[]).map(rating => ({
+          label: t(RATING_RANGE_LABELS[rating]),
+          update: { rating },
+          selected: filters.rating === rating,
+        }));
+      case 'dateRange':
+        return (Object.keys(DATE_RANGE_LABELS) as DateRange[]).map(dateRange => ({
+          label: t(DATE_RANGE_LABELS[dateRange]),
+          update: { dateRange },
+          selected: filters.dateRange === dateRange,
+        }));
+      case 'location':
+        return [
+          { label: t('filters.location.any'), update: { location: null }, selected: filters.location === null },
+          ...locations.map(location => ({
+            label: location,
+            update: { location },
+            selected: filters.location === location,
+          })),
+        ];
+      case 'sort':
+        return (Object.keys(SORT_LABELS) as EventSortOption[]).map(sort => ({
+          label: t(SORT_LABELS[sort]),
+          update: { sort },
+          selected: filters.sort === sort,
+        }));
+    }
+  };
+
+  const handleSelect = (option: FilterOption) => {
+    onChange(option.update);
+    setOpenGroup(null);
+  };
+
+  return (
+    <View style={styles.container}>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.chipRow}
+      >
+        <Chip
+          icon="sort"
+          label={t(SORT_LABELS[filters.sort])}
+          open={openGroup === 'sort'}
+          onPress={() => toggleGroup('sort')}
+        />
+        <Chip
+          label={filters.rated === 'all' ? t('filters.rated.chip') : t(RATED_FILTER_LABELS[filters.rated])}
+          active={filters.rated !== 'all'}
+          open={openGroup === 'rated'}
+          onPress={() => toggleGroup('rated')}
+        />
+        <Chip
+          icon="star"
+          label={filters.rating === 'any' ? t('filters.rating.chip') : t(RATING_RANGE_LABELS[filters.rating])}
+          active={filters.rating !== 'any'}
+          open={openGroup === 'rating'}
+          onPress={() => toggleGroup('rating')}
+        />
+        <Chip
+          icon="event"
+          label={filters.dateRange === 'any' ? t('filters.date.chip') : t(DATE_RANGE_LABELS[filters.dateRange])}
+          active={filters.dateRange !== 'any'}
+          open={openGroup === 'dateRange'}
+          onPress={() => toggleGroup('dateRange')}
+        />
+        <Chip
+          icon="place"
+          label={filters.location ?? t('filters.location.chip')}
+          active={filters.location !== null}
+          open={openGroup === 'location'}
+          onPress={() => toggleGroup('location')}
+        />
+        {activeCount > 0 && (
+          <Chip
+            icon="clear"
+            label={t('filters.clear', { count: activeCount })}
+            onPress={() => {
+              setOpenGroup(null);
+              onReset();
+            }}
+          />
+        )}
+      </ScrollView>
+
+      {/* Options for the open chip */}
+      {openGroup && (
+        <View style={styles.optionsPanel}>
+          {getOptions(openGroup).map(option => (
+            <TouchableOpacity
+              key={option.label}
+              style={[styles.option, option.selected && styles.optionSelected]}
+              onPress={() => handleSelect(option)}
+            >
+              {option.selected && (
+                <MaterialIcons name="check" size={14} color={colors.primary} />
+              )}
+              <Text style={[styles.optionText, option.selected && styles.optionTextSelected]}>
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+};
+
+const createStyles = (colors: ColorPalette) => StyleSheet.create({
+  container: {
+    marginBottom: Spacing.lg,
+  },
+  chipRow: {
+    gap: Spacing.sm,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+    backgroundColor: colors.background.primary,
+    borderWidth: 1,
+    borderColor: colors.border.light,
+    borderRadius: BorderRadius.full,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    maxWidth: 200,
+  },
+  chipActive: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  chipText: {
+    fontSize: Typography.size.sm,
+    fontWeight: Typography.weight.medium as any,
+    color: colors.text.secondary,
+    flexShrink: 1,
+  },
+  chipTextActive: {
+    color: colors.text.white,
+  },
+  optionsPanel: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm,
+    marginTop: Spacing.md,
+    padding: Spacing.md,
+    backgroundColor: colors.background.primary,
+    borderRadius: BorderRadius.md,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.full,
+    backgroundColor: colors.background.tertiary,
+  },
+  optionSelected: {
+    backgroundColor: colors.primaryUltraLight,
+  },
+  optionText: {
+    fontSize: Typography.size.sm,
+    color: colors.text.secondary,
+  },
+  optionTextSelected: {
+    color: colors.primary,
+    fontWeight: Typography.weight.semibold as any,
+  },
+});
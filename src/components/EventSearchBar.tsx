@@ -0,0 +1,62 @@
+import React from 'react';
+import { View, TextInput, TouchableOpacity, StyleSheet } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { ColorPalette, Typography, Spacing, BorderRadius, Shadows } from '../styles/theme';
+import { useTheme, useThemedStyles } from '../styles/ThemeContext';
+import { useI18n } from '../i18n/I18nContext';
+
+interface EventSearchBarProps {
+  value: string;
+  onChangeText: (text: string) => void;
+  placeholder?: string;
+}
+
+export const EventSearchBar: React.FC<EventSearchBarProps> = ({
+  value,
+  onChangeText,
+  placeholder,
+}) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useI18n();
+
+  return (
+    <View style={styles.container}>
+      <MaterialIcons name="search" size={20} color={colors.text.tertiary} />
+      <TextInput
+        style={styles.input}
+        value={value}
+        onChangeText={onChangeText}
+        placeholder={placeholder ?? t('search.placeholder')}
+        placeholderTextColor={colors.text.tertiary}
+        autoCorrect={false}
+        returnKeyType="search"
+        clearButtonMode="never"
+      />
+      {value.length > 0 && (
+        <TouchableOpacity onPress={() => onChangeText('')} hitSlop={8}>
+          <MaterialIcons name="close" size={18} color={colors.text.tertiary} />
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+};
+
+const createStyles = (colors: ColorPalette) => StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.background.primary,
+    borderRadius: BorderRadius.lg,
+    paddingHorizontal: Spacing.base,
+    marginBottom: Spacing.md,
+    ...Shadows.sm,
+  },
+  input: {
+    flex: 1,
+    paddingVertical: Spacing.md,
+    marginLeft: Spacing.sm,
+    fontSize: Typography.size.base,
+    color: colors.text.primary,
+  },
+});
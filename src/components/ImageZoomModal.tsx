@@ -1,102 +1,62 @@
-import React, { useState } from 'react';
+import React, { useEffect } from 'react';
 import {
+  Animated,
   Modal,
   View,
-  Image,
   StyleSheet,
   TouchableOpacity,
   Text,
-  Alert,
   Dimensions,
 } from 'react-native';
 import { MaterialIcons } from '@expo/vector-icons';
-import * as ImagePicker from 'expo-image-picker';
+import { useI18n } from '../i18n/I18nContext';
+import { PickedImage } from '../services/imageProcessing';
+import { useImagePicker } from '../hooks/useImagePicker';
+import { useZoomGestures } from '../hooks/useZoomGestures';
 
 interface ImageZoomModalProps {
   visible: boolean;
   imageUri: string;
   onClose: () => void;
-  onImageChange?: (newImageUri: string) => void;
+  // The screen showing the modal confirms the change and can offer to undo it
+  onImageChange?: (image: PickedImage) => void;
+  // Only offered when set, i.e. while a custom photo is shown
+  onImageRemove?: () => void;
 }
 
 const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
+const IMAGE_SIZE = { width: screenWidth * 0.9, height: screenHeight * 0.56 };
+const SCREEN_SIZE = { width: screenWidth, height: screenHeight };
 
 export const ImageZoomModal: React.FC<ImageZoomModalProps> = ({
   visible,
   imageUri,
   onClose,
   onImageChange,
+  onImageRemove,
 }) => {
-  const [currentImageUri, setCurrentImageUri] = useState(imageUri);
+  const { t } = useI18n();
+  const { chooseImage } = useImagePicker({ square: true });
+  // A single tap closes the viewer like tapping the backdrop used to
+  const { panHandlers, imageStyle, backdropOpacity, reset } = useZoomGestures({
+    imageSize: IMAGE_SIZE,
+    viewportSize: SCREEN_SIZE,
+    onDismiss: onClose,
+    onTap: onClose,
+  });
 
-  const pickImage = async () => {
-    try {
-      // Request permission
-      const permissionResult = await ImagePicker.requestMediaLibraryPermissionsAsync();
-      
-      if (permissionResult.granted === false) {
-        Alert.alert('Permission Required', 'Permission to access camera roll is required!');
-        return;
-      }
-
-      // Launch image picker
-      const result = await ImagePicker.launchImageLibraryAsync({
-        mediaTypes: ['images'],
-        allowsEditing: true,
-        aspect: [1, 1],
-        quality: 0.8,
-      });
-
-      if (!result.canceled && result.assets[0]) {
-        const newImageUri = result.assets[0].uri;
-        setCurrentImageUri(newImageUri);
-        onImageChange?.(newImageUri);
-        Alert.alert('Success', 'Profile image updated!');
-      }
-    } catch (error) {
-      Alert.alert('Error', 'Failed to pick image. Please try again.');
-      console.error('Image picker error:', error);
-    }
-  };
-
-  const takePhoto = async () => {
-    try {
-      // Request permission
-      const permissionResult = await ImagePicker.requestCameraPermissionsAsync();
-      
-      if (permissionResult.granted === false) {
-        Alert.alert('Permission Required', 'Permission to access camera is required!');
-        return;
-      }
-
-      // Launch camera
-      const result = await ImagePicker.launchCameraAsync({
-        allowsEditing: true,
-        aspect: [1, 1],
-        quality: 0.8,
-      });
-
-      if (!result.canceled && result.assets[0]) {
-        const newImageUri = result.assets[0].uri;
-        setCurrentImageUri(newImageUri);
-        onImageChange?.(newImageUri);
-        Alert.alert('Success', 'Profile image updated!');
-      }
-    } catch (error) {
-      Alert.alert('Error', 'Failed to take photo. Please try again.');
-      console.error('Camera error:', error);
-    }
-  };
+  // Every time the viewer opens it starts unzoomed
+  useEffect(() => {
+    if (visible) reset();
+  }, [visible, imageUri, reset]);
 
   const showImageOptions = () => {
-    Alert.alert(
-      'Change Profile Picture',
-      'Choose an option',
-      [
-        { text: 'Take Photo', onPress: takePhoto },
-        { text: 'Choose from Library', onPress: pickImage },
-        { text: 'Cancel', style: 'cancel' },
-      ]
+    chooseImage(
+      t('profileImage.changeTitle'),
+      image => onImageChange?.(image),
+      onImageRemove
+        ? [{ text: t('profileImage.remove'), style: 'destructive', onPress: onImageRemove }]
+        : []
     );
   };
 
@@ -108,27 +68,27 @@ export const ImageZoomModal: React.FC<ImageZoomModalProps> = ({
       onRequestClose={onClose}
     >
       <View style={styles.modalContainer}>
-        <TouchableOpacity style={styles.backdrop} onPress={onClose} />
-        
-        <View style={styles.imageContainer}>
-          <Image
-            source={{ uri: currentImageUri }}
-            style={styles.zoomedImage}
+        <Animated.View style={[styles.backdrop, { opacity: backdropOpacity }]} />
+
+        <View style={styles.gestureArea} {...panHandlers}>
+          <Animated.Image
+            source={{ uri: imageUri }}
+            style={[styles.zoomedImage, imageStyle]}
             resizeMode="contain"
           />
-          
-          <View style={styles.buttonContainer}>
-            <TouchableOpacity style={styles.actionButton} onPress={showImageOptions}>
-              <MaterialIcons name="edit" size={20} color="#fff" />
-              <Text style={styles.buttonText}>Change Photo</Text>
-            </TouchableOpacity>
-            
-            <TouchableOpacity style={styles.closeButton} onPress={onClose}>
-              <MaterialIcons name="close" size={20} color="#fff" />
-              <Text style={styles.buttonText}>Close</Text>
-            </TouchableOpacity>
-          </View>
         </View>
+
+        <Animated.View style={[styles.buttonContainer, { opacity: backdropOpacity }]}>
+          <TouchableOpacity style={styles.actionButton} onPress={showImageOptions}>
+            <MaterialIcons name="edit" size={20} color="#fff" />
+            <Text style={styles.buttonText}>{t('profileImage.change')}</Text>
+          </TouchableOpacity>
+          
+          <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+            <MaterialIcons name="close" size={20} color="#fff" />
+            <Text style={styles.buttonText}>{t('common.close')}</Text>
+          </TouchableOpacity>
+        </Animated.View>
       </View>
     </Modal>
   );
@@ -137,9 +97,6 @@ export const ImageZoomModal: React.FC<ImageZoomModalProps> = ({
 const styles = StyleSheet.create({
   modalContainer: {
     flex: 1,
-    backgroundColor: 'rgba(0, 0, 0, 0.9)',
-    justifyContent: 'center',
-    alignItems: 'center',
   },
   backdrop: {
     position: 'absolute',
@@ -147,21 +104,24 @@ const styles = StyleSheet.create({
     left: 0,
     right: 0,
     bottom: 0,
+    backgroundColor: 'rgba(0, 0, 0, 0.9)',
   },
-  imageContainer: {
-    width: screenWidth * 0.9,
-    height: screenHeight * 0.7,
+  gestureArea: {
+    flex: 1,
     justifyContent: 'center',
     alignItems: 'center',
   },
   zoomedImage: {
-    width: '100%',
-    height: '80%',
+    ...IMAGE_SIZE,
     borderRadius: 12,
   },
   buttonContainer: {
+    position: 'absolute',
+    bottom: screenHeight * 0.1,
+    left: 0,
+    right: 0,
     flexDirection: 'row',
-    marginTop: 20,
+    justifyContent: 'center',
     gap: 16,
   },
   actionButton: {
@@ -0,0 +1,230 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  TextInput,
+  Image,
+  FlatList,
+  StyleSheet,
+  SafeAreaView,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Alert,
+  Dimensions,
+  Platform,
+  NativeSyntheticEvent,
+  NativeScrollEvent,
+} from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { EventPhoto } from '../types';
+import { ColorPalette, Typography, Spacing, BorderRadius } from '../styles/theme';
+import { useTheme, useThemedStyles } from '../styles/ThemeContext';
+import { useI18n } from '../i18n/I18nContext';
+
+interface PhotoViewerModalProps {
+  visible: boolean;
+  photos: EventPhoto[];
+  initialIndex: number;
+  coverPhotoId?: string;
+  onClose: () => void;
+  onCaptionChange: (photoId: string, caption: string) => void;
+  onSetCover: (photoId: string) => void;
+  onDelete: (photoId: string) => void;
+}
+
+const { width: screenWidth } = Dimensions.get('window');
+
+/**
+ * Full-screen viewer for an event's photos. Swipe sideways to move between
+ * them; each one can be captioned, made the cover or deleted.
+ */
+export const PhotoViewerModal: React.FC<PhotoViewerModalProps> = ({
+  visible,
+  photos,
+  initialIndex,
+  coverPhotoId,
+  onClose,
+  onCaptionChange,
+  onSetCover,
+  onDelete,
+}) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useI18n();
+
+  const [index, setIndex] = useState(initialIndex);
+  // Deleting the last photo in the list moves back to the one before it
+  const currentIndex = Math.min(index, photos.length - 1);
+  const photo = photos[currentIndex];
+  const [caption, setCaption] = useState(photo?.caption ?? '');
+
+  useEffect(() => {
+    if (visible) setIndex(initialIndex);
+  }, [visible, initialIndex]);
+
+  // Show the caption of whichever photo is on screen
+  useEffect(() => {
+    setCaption(photo?.caption ?? '');
+  }, [photo?.id, photo?.caption]);
+
+  // Nothing left to show once the last photo is deleted
+  useEffect(() => {
+    if (visible && photos.length === 0) onClose();
+  }, [visible, photos.length, onClose]);
+
+  const handleScrollEnd = useCallback((event: NativeSyntheticEvent<NativeScrollEvent>) => {
+    setIndex(Math.round(event.nativeEvent.contentOffset.x / screenWidth));
+  }, []);
+
+  const handleCaptionEnd = useCallback(() => {
+    if (photo && caption.trim() !== (photo.caption ?? '')) {
+      onCaptionChange(photo.id, caption);
+    }
+  }, [photo, caption, onCaptionChange]);
+
+  const handleDelete = useCallback(() => {
+    if (!photo) return;
+    Alert.alert(t('photos.delete'), t('photos.deleteMessage'), [
+      { text: t('common.cancel'), style: 'cancel' },
+      { text: t('photos.delete'), style: 'destructive', onPress: () => onDelete(photo.id) },
+    ]);
+  }, [photo, onDelete, t]);
+
+  const renderPhoto = useCallback(({ item }: { item: EventPhoto }) => (
+    <View style={styles.page}>
+      <Image source={{ uri: item.uri }} style={styles.photo} resizeMode="contain" />
+    </View>
+  ), [styles]);
+
+  if (!photo) return null;
+  const isCover = photo.id === coverPhotoId;
+
+  return (
+    <Modal visible={visible} animationType="fade" onRequestClose={onClose}>
+      <KeyboardAvoidingView
+        style={styles.container}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <SafeAreaView style={styles.container}>
+          {/* Top Bar */}
+          <View style={styles.topBar}>
+            <TouchableOpacity
+              onPress={onClose}
+              style={styles.iconButton}
+              accessibilityLabel={t('common.close')}
+            >
+              <MaterialIcons name="close" size={24} color={colors.text.white} />
+            </TouchableOpacity>
+            <Text style={styles.position}>
+              {t('photos.position', { index: currentIndex + 1, count: photos.length })}
+            </Text>
+            <TouchableOpacity
+              onPress={() => onSetCover(photo.id)}
+              disabled={isCover}
+              style={styles.iconButton}
+              accessibilityLabel={isCover ? t('photos.isCover') : t('photos.setCover')}
+            >
+              <MaterialIcons
+                name={isCover ? 'star' : 'star-border'}
+                size={24}
+                color={isCover ? colors.star : colors.text.white}
+              />
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={handleDelete}
+              style={styles.iconButton}
+              accessibilityLabel={t('photos.delete')}
+            >
+              <MaterialIcons name="delete-outline" size={24} color={colors.text.white} />
+            </TouchableOpacity>
+          </View>
+
+          <FlatList
+            data={photos}
+            keyExtractor={item => item.id}
+            renderItem={renderPhoto}
+            horizontal
+            pagingEnabled
+            showsHorizontalScrollIndicator={false}
+            initialScrollIndex={Math.min(initialIndex, photos.length - 1)}
+            getItemLayout={(_, itemIndex) => ({
+              length: screenWidth,
+              offset: screenWidth * itemIndex,
+              index: itemIndex,
+            })}
+            onMomentumScrollEnd={handleScrollEnd}
+            keyboardShouldPersistTaps="handled"
+          />
+
+          {/* Caption */}
+          <View style={styles.captionBar}>
+            {isCover && <Text style={styles.coverLabel}>{t('photos.isCover')}</Text>}
+            <TextInput
+              style={styles.captionInput}
+              value={caption}
+              onChangeText={setCaption}
+              onEndEditing={handleCaptionEnd}
+              placeholder={t('photos.captionPlaceholder')}
+              placeholderTextColor={colors.text.tertiary}
+              returnKeyType="done"
+              maxLength={200}
+            />
+          </View>
+        </SafeAreaView>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+// Always dark, whatever the theme, so the photos stand out
+const createStyles = (colors: ColorPalette) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000',
+  },
+  topBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: Spacing.sm,
+  },
+  iconButton: {
+    padding: Spacing.sm,
+  },
+  position: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: Typography.size.base,
+    fontWeight: Typography.weight.semibold as any,
+    color: colors.text.white,
+  },
+  page: {
+    width: screenWidth,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  photo: {
+    width: screenWidth,
+    height: '100%',
+  },
+  captionBar: {
+    paddingHorizontal: Spacing.base,
+    paddingVertical: Spacing.md,
+  },
+  coverLabel: {
+    fontSize: Typography.size.xs,
+    fontWeight: Typography.weight.semibold as any,
+    color: colors.star,
+    textTransform: 'uppercase',
+    marginBottom: Spacing.xs,
+  },
+  captionInput: {
+    fontSize: Typography.size.base,
+    color: colors.text.white,
+    backgroundColor: 'rgba(255, 255, 255, 0.12)',
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+  },
+});
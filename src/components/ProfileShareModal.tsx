@@ -0,0 +1,166 @@
+import React, { useState, useMemo, useCallback } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TouchableWithoutFeedback,
+  Alert,
+  Dimensions,
+} from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { UserProfile } from '../types';
+import { QrCode } from './QrCode';
+import { AnimatedButton } from './AnimatedButton';
+import { buildVCard } from '../utils/vcard';
+import { shareContactCard } from '../services/profileShare';
+import { ColorPalette, Typography, Spacing, BorderRadius, Shadows } from '../styles/theme';
+import { useTheme, useThemedStyles } from '../styles/ThemeContext';
+import { useI18n } from '../i18n/I18nContext';
+
+interface ProfileShareModalProps {
+  visible: boolean;
+  profile: UserProfile;
+  onClose: () => void;
+}
+
+const { width: screenWidth } = Dimensions.get('window');
+const QR_SIZE = Math.min(screenWidth * 0.7, 300);
+
+/**
+ * Shows the profile's contact card as a QR code and offers to send it as a
+ * .vcf file.
+ */
+export const ProfileShareModal: React.FC<ProfileShareModalProps> = ({
+  visible,
+  profile,
+  onClose,
+}) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useI18n();
+  const [isSharing, setIsSharing] = useState(false);
+
+  // Photos would not fit in a QR code; the shared file includes it
+  const vCard = useMemo(() => buildVCard(profile), [profile]);
+
+  const handleShare = useCallback(async () => {
+    setIsSharing(true);
+    try {
+      await shareContactCard(profile, t('profileShare.dialogTitle'));
+    } catch (error) {
+      Alert.alert(t('common.error'), t('profileShare.failed'));
+      console.error('Contact card share error:', error);
+    } finally {
+      setIsSharing(false);
+    }
+  }, [profile, t]);
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <TouchableWithoutFeedback onPress={onClose}>
+        <View style={styles.backdrop}>
+          <TouchableWithoutFeedback>
+            <View style={styles.card}>
+              <View style={styles.header}>
+                <Text style={styles.title}>{t('profileShare.title')}</Text>
+                <TouchableOpacity
+                  onPress={onClose}
+                  style={styles.closeButton}
+                  accessibilityLabel={t('common.close')}
+                >
+                  <MaterialIcons name="close" size={22} color={colors.text.secondary} />
+                </TouchableOpacity>
+              </View>
+
+              <Text style={styles.name}>{profile.name}</Text>
+              {profile.occupation ? (
+                <Text style={styles.occupation}>{profile.occupation}</Text>
+              ) : null}
+
+              <View style={styles.qrContainer}>
+                <QrCode
+                  value={vCard}
+                  size={QR_SIZE}
+                  accessibilityLabel={t('profileShare.qrLabel', { name: profile.name })}
+                />
+              </View>
+
+              <Text style={styles.hint}>
+                {t('profileShare.scanHint', { name: profile.name })}
+              </Text>
+
+              <AnimatedButton
+                title={t('profileShare.shareCard')}
+                onPress={handleShare}
+                icon="share"
+                loading={isSharing}
+                style={styles.shareButton}
+              />
+            </View>
+          </TouchableWithoutFeedback>
+        </View>
+      </TouchableWithoutFeedback>
+    </Modal>
+  );
+};
+
+const createStyles = (colors: ColorPalette) => StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: Spacing.lg,
+    backgroundColor: colors.background.overlay,
+  },
+  card: {
+    width: '100%',
+    maxWidth: 400,
+    padding: Spacing.lg,
+    borderRadius: BorderRadius.xl,
+    backgroundColor: colors.background.primary,
+    ...Shadows.lg,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: Spacing.md,
+  },
+  title: {
+    flex: 1,
+    fontSize: Typography.size.lg,
+    fontWeight: Typography.weight.bold as any,
+    color: colors.text.primary,
+  },
+  closeButton: {
+    padding: Spacing.xs,
+  },
+  name: {
+    fontSize: Typography.size.xl,
+    fontWeight: Typography.weight.semibold as any,
+    color: colors.text.primary,
+    textAlign: 'center',
+  },
+  occupation: {
+    fontSize: Typography.size.sm,
+    color: colors.text.secondary,
+    textAlign: 'center',
+    marginTop: Spacing.xs,
+  },
+  qrContainer: {
+    alignItems: 'center',
+    marginVertical: Spacing.lg,
+    borderRadius: BorderRadius.md,
+    overflow: 'hidden',
+  },
+  hint: {
+    fontSize: Typography.size.sm,
+    color: colors.text.secondary,
+    textAlign: 'center',
+    marginBottom: Spacing.lg,
+  },
+  shareButton: {
+    alignSelf: 'stretch',
+  },
+});
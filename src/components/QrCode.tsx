@@ -0,0 +1,87 @@
+import React, { useMemo } from 'react';
+import { View, StyleSheet } from 'react-native';
+import { ErrorCorrectionLevel, encodeQrCode } from '../utils/qrCode';
+
+interface QrCodeProps {
+  value: string;
+  // Width and height in points, quiet zone included
+  size: number;
+  errorCorrection?: ErrorCorrectionLevel;
+  accessibilityLabel?: string;
+}
+
+// Scanners need a light margin four modules wide around the symbol
+const QUIET_ZONE = 4;
+// Dark on light whatever the theme; many scanners cannot read inverted codes
+const DARK = '#000000';
+const LIGHT = '#FFFFFF';
+
+/**
+ * Draws a QR code with plain views. Runs of dark modules in a row are merged
+ * into one view to keep the view count down.
+ */
+export const QrCode: React.FC<QrCodeProps> = ({
+  value,
+  size,
+  errorCorrection = 'M',
+  accessibilityLabel,
+}) => {
+  const code = useMemo(
+    () => encodeQrCode(value, { errorCorrection }),
+    [value, errorCorrection]
+  );
+
+  // Whole points per module so there are no hairline gaps between rows
+  const moduleSize = Math.max(1, Math.floor(size / (code.size + QUIET_ZONE * 2)));
+
+  const rows = useMemo(() => code.modules.map(row => {
+    const runs: { start: number; length: number }[] = [];
+    row.forEach((dark, x) => {
+      if (!dark) return;
+      const last = runs[runs.length - 1];
+      if (last && last.start + last.length === x) {
+        last.length++;
+      } else {
+        runs.push({ start: x, length: 1 });
+      }
+    });
+    return runs;
+  }), [code]);
+
+  return (
+    <View
+      style={[styles.container, { padding: moduleSize * QUIET_ZONE }]}
+      accessible={!!accessibilityLabel}
+      accessibilityRole="image"
+      accessibilityLabel={accessibilityLabel}
+    >
+      <View style={{ width: moduleSize * code.size, height: moduleSize * code.size }}>
+        {rows.map((runs, y) => runs.map(run => (
+          <View
+            key={`${y}-${run.start}`}
+            style={[
+              styles.module,
+              {
+                top: y * moduleSize,
+                left: run.start * moduleSize,
+                width: run.length * moduleSize,
+                height: moduleSize,
+              },
+            ]}
+          />
+        )))}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    alignSelf: 'center',
+    backgroundColor: LIGHT,
+  },
+  module: {
+    position: 'absolute',
+    backgroundColor: DARK,
+  },
+});
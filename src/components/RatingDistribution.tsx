@@ -0,0 +1,99 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { ColorPalette, Typography, Spacing, BorderRadius } from '../styles/theme';
+import { useTheme, useThemedStyles } from '../styles/ThemeContext';
+import { useI18n } from '../i18n/I18nContext';
+
+interface RatingDistributionProps {
+  counts: number[]; // Counts for 1 to 5 stars
+}
+
+export const RatingDistribution: React.FC<RatingDistributionProps> = ({ counts }) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t, formatNumber } = useI18n();
+
+  const total = counts.reduce((sum, count) => sum + count, 0);
+  const average = total > 0
+    ? counts.reduce((sum, count, index) => sum + count * (index + 1), 0) / total
+    : 0;
+  const maxCount = Math.max(...counts, 1);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.summary}>
+        <Text style={styles.average}>{formatNumber(average, 1)}</Text>
+        <MaterialIcons name="star" size={20} color={colors.star} />
+        <Text style={styles.total}>
+          {t('ratings.count', { count: total })}
+        </Text>
+      </View>
+
+      {[5, 4, 3, 2, 1].map(stars => {
+        const count = counts[stars - 1] ?? 0;
+        return (
+          <View key={stars} style={styles.row}>
+            <Text style={styles.rowLabel}>{formatNumber(stars)}</Text>
+            <MaterialIcons name="star" size={12} color={colors.star} />
+            <View style={styles.barTrack}>
+              <View style={[styles.barFill, { width: `${(count / maxCount) * 100}%` }]} />
+            </View>
+            <Text style={styles.rowCount}>{formatNumber(count)}</Text>
+          </View>
+        );
+      })}
+    </View>
+  );
+};
+
+const createStyles = (colors: ColorPalette) => StyleSheet.create({
+  container: {
+    marginBottom: Spacing.base,
+  },
+  summary: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: Spacing.sm,
+  },
+  average: {
+    fontSize: Typography.size['2xl'],
+    fontWeight: Typography.weight.bold as any,
+    color: colors.text.primary,
+    marginRight: Spacing.xs,
+  },
+  total: {
+    fontSize: Typography.size.sm,
+    color: colors.text.secondary,
+    marginLeft: Spacing.sm,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: Spacing.xs,
+  },
+  rowLabel: {
+    width: 12,
+    fontSize: Typography.size.sm,
+    color: colors.text.secondary,
+  },
+  barTrack: {
+    flex: 1,
+    height: 8,
+    marginHorizontal: Spacing.sm,
+    borderRadius: BorderRadius.full,
+    backgroundColor: colors.background.tertiary,
+    overflow: 'hidden',
+  },
+  barFill: {
+    height: '100%',
+    borderRadius: BorderRadius.full,
+    backgroundColor: colors.star,
+  },
+  rowCount: {
+    width: 28,
+    fontSize: Typography.size.sm,
+    color: colors.text.secondary,
+    textAlign: 'right',
+  },
+});
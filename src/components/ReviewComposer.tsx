@@ -0,0 +1,345 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  Image,
+  StyleSheet,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { EventReview, ReviewSubScores } from '../types';
+import { ReviewInput } from '../api';
+import { loadReviewDraft, saveReviewDraft, clearReviewDraft } from '../services/reviewDrafts';
+import { deleteReviewPhotoFile, saveReviewPhoto } from '../services/eventPhotoStorage';
+import { useImagePicker } from '../hooks/useImagePicker';
+import { AnimatedButton } from './AnimatedButton';
+import { ColorPalette, Typography, Spacing, BorderRadius } from '../styles/theme';
+import { useTheme, useThemedStyles } from '../styles/ThemeContext';
+import { useI18n } from '../i18n/I18nContext';
+import { MessageKey } from '../i18n/messages/en';
+
+export const MAX_REVIEW_LENGTH = 500;
+const MAX_REVIEW_PHOTOS = 4;
+const DRAFT_SAVE_DELAY_MS = 500;
+
+export const SUB_SCORE_LABELS: Record<keyof ReviewSubScores, MessageKey> = {
+  venue: 'reviews.subScore.venue',
+  host: 'reviews.subScore.host',
+  vibe: 'reviews.subScore.vibe',
+};
+
+interface ReviewComposerProps {
+  eventId: number;
+  review?: EventReview;
+  onSubmit: (review: ReviewInput) => Promise<boolean>;
+  onCancel?: () => void;
+}
+
+const toInput = (review?: EventReview): ReviewInput => ({
+  text: review?.text ?? '',
+  subScores: review?.subScores ?? {},
+  photos: review?.photos ?? [],
+});
+
+export const ReviewComposer: React.FC<ReviewComposerProps> = ({
+  eventId,
+  review,
+  onSubmit,
+  onCancel,
+}) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useI18n();
+
+  const [draft, setDraft] = useState<ReviewInput>(() => toInput(review));
+  const [isDraftLoaded, setIsDraftLoaded] = useState(false);
+  const [isRestored, setIsRestored] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isSavingPhoto, setIsSavingPhoto] = useState(false);
+  const isDirty = useRef(false);
+  const saveTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const { pickFromLibrary } = useImagePicker();
+
+  // Pick up where the user left off if a draft was autosaved earlier
+  useEffect(() => {
+    loadReviewDraft(eventId).then(saved => {
+      if (saved) {
+        setDraft(saved);
+        setIsRestored(true);
+      }
+      setIsDraftLoaded(true);
+    });
+  }, [eventId]);
+
+  // Kept in a ref so posting or cancelling can stop a pending save from
+  // writing the draft back after it has been cleared
+  const cancelDraftSave = useCallback(() => {
+    if (saveTimer.current) clearTimeout(saveTimer.current);
+    saveTimer.current = null;
+  }, []);
+
+  useEffect(() => {
+    if (!isDraftLoaded || !isDirty.current) return;
+    cancelDraftSave();
+    saveTimer.current = setTimeout(() => {
+      saveTimer.current = null;
+      saveReviewDraft(eventId, draft);
+    }, DRAFT_SAVE_DELAY_MS);
+  }, [eventId, draft, isDraftLoaded, cancelDraftSave]);
+
+  useEffect(() => cancelDraftSave, [cancelDraftSave]);
+
+  const updateDraft = useCallback((update: Partial<ReviewInput>) => {
+    isDirty.current = true;
+    setDraft(prev => ({ ...prev, ...update }));
+  }, []);
+
+  const handleSubScore = useCallback((key: keyof ReviewSubScores, score: number) => {
+    // Tapping the current score again clears it
+    const subScores = { ...draft.subScores };
+    if (subScores[key] === score) {
+      delete subScores[key];
+    } else {
+      subScores[key] = score;
+    }
+    updateDraft({ subScores });
+  }, [draft.subScores, updateDraft]);
+
+  // The picker's file lives in the cache, which the system may clear before
+  // the draft is posted
+  const handleAddPhoto = useCallback(async () => {
+    const image = await pickFromLibrary();
+    if (!image) return;
+
+    setIsSavingPhoto(true);
+    try {
+      const uri = await saveReviewPhoto(eventId, image);
+      isDirty.current = true;
+      setDraft(prev => ({ ...prev, photos: [...prev.photos, uri] }));
+    } catch (error) {
+      Alert.alert(t('common.error'), t('errors.saveImage'));
+      console.error('Failed to save review photo:', error);
+    } finally {
+      setIsSavingPhoto(false);
+    }
+  }, [eventId, pickFromLibrary, t]);
+
+  // Photos of the posted review stay until it is saved without them
+  const deleteDraftPhotos = useCallback((uris: string[]) => {
+    uris
+      .filter(uri => !review?.photos.includes(uri))
+      .forEach(deleteReviewPhotoFile);
+  }, [review?.photos]);
+
+  const handleRemovePhoto = useCallback((uri: string) => {
+    updateDraft({ photos: draft.photos.filter(photo => photo !== uri) });
+    deleteDraftPhotos([uri]);
+  }, [draft.photos, updateDraft, deleteDraftPhotos]);
+
+  const handleSubmit = useCallback(async () => {
+    if (!draft.text.trim()) {
+      Alert.alert(t('common.error'), t('reviews.textRequired'));
+      return;
+    }
+
+    setIsSubmitting(true);
+    const saved = await onSubmit({ ...draft, text: draft.text.trim() });
+    setIsSubmitting(false);
+
+    if (saved) {
+      isDirty.current = false;
+      cancelDraftSave();
+      clearReviewDraft(eventId);
+    }
+  }, [draft, eventId, onSubmit, cancelDraftSave, t]);
+
+  const handleCancel = useCallback(() => {
+    isDirty.current = false;
+    cancelDraftSave();
+    deleteDraftPhotos(draft.photos);
+    clearReviewDraft(eventId);
+    onCancel?.();
+  }, [draft.photos, eventId, onCancel, cancelDraftSave, deleteDraftPhotos]);
+
+  const remaining = MAX_REVIEW_LENGTH - draft.text.length;
+
+  return (
+    <View>
+      {isRestored && (
+        <View style={styles.restoredNotice}>
+          <MaterialIcons name="restore" size={16} color={colors.info} />
+          <Text style={styles.restoredText}>{t('reviews.draftRestored')}</Text>
+        </View>
+      )}
+
+      <TextInput
+        style={styles.textInput}
+        placeholder={t('reviews.placeholder')}
+        placeholderTextColor={colors.text.tertiary}
+        value={draft.text}
+        onChangeText={(text) => updateDraft({ text })}
+        maxLength={MAX_REVIEW_LENGTH}
+        multiline
+        numberOfLines={5}
+        textAlignVertical="top"
+      />
+      <Text style={[styles.counter, remaining <= 50 && styles.counterWarning]}>
+        {t('reviews.charactersLeft', { count: remaining })}
+      </Text>
+
+      {(Object.keys(SUB_SCORE_LABELS) as (keyof ReviewSubScores)[]).map(key => (
+        <View key={key} style={styles.subScoreRow}>
+          <Text style={styles.subScoreLabel}>{t(SUB_SCORE_LABELS[key])}</Text>
+          <View style={styles.subScoreStars}>
+            {[1, 2, 3, 4, 5].map(score => (
+              <TouchableOpacity key={score} onPress={() => handleSubScore(key, score)}>
+                <MaterialIcons
+                  name="star"
+                  size={24}
+                  color={(draft.subScores[key] ?? 0) >= score ? colors.star : colors.starInactive}
+                />
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+      ))}
+
+      <View style={styles.photosRow}>
+        {draft.photos.map(uri => (
+          <View key={uri} style={styles.photoContainer}>
+            <Image source={{ uri }} style={styles.photo} />
+            <TouchableOpacity
+              style={styles.removePhotoButton}
+              onPress={() => handleRemovePhoto(uri)}
+            >
+              <MaterialIcons name="close" size={14} color={colors.text.white} />
+            </TouchableOpacity>
+          </View>
+        ))}
+        {draft.photos.length < MAX_REVIEW_PHOTOS && (
+          <TouchableOpacity
+            style={styles.addPhotoButton}
+            onPress={handleAddPhoto}
+            disabled={isSavingPhoto}
+          >
+            {isSavingPhoto ? (
+              <ActivityIndicator color={colors.primary} />
+            ) : (
+              <MaterialIcons name="add-a-photo" size={24} color={colors.primary} />
+            )}
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <View style={styles.actions}>
+        {onCancel && (
+          <AnimatedButton
+            title={t('common.cancel')}
+            onPress={handleCancel}
+            variant="ghost"
+            style={styles.actionButton}
+          />
+        )}
+        <AnimatedButton
+          title={review ? t('reviews.update') : t('reviews.post')}
+          onPress={handleSubmit}
+          icon="send"
+          loading={isSubmitting}
+          style={styles.actionButton}
+        />
+      </View>
+    </View>
+  );
+};
+
+const createStyles = (colors: ColorPalette) => StyleSheet.create({
+  restoredNotice: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: Spacing.sm,
+  },
+  restoredText: {
+    fontSize: Typography.size.sm,
+    color: colors.info,
+    marginLeft: Spacing.xs,
+  },
+  textInput: {
+    backgroundColor: colors.background.primary,
+    borderWidth: 2,
+    borderColor: colors.border.light,
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.base,
+    paddingTop: Spacing.md,
+    paddingBottom: Spacing.md,
+    fontSize: Typography.size.base,
+    color: colors.text.primary,
+    minHeight: 120,
+  },
+  counter: {
+    fontSize: Typography.size.xs,
+    color: colors.text.tertiary,
+    textAlign: 'right',
+    marginTop: Spacing.xs,
+    marginBottom: Spacing.base,
+  },
+  counterWarning: {
+    color: colors.warning,
+  },
+  subScoreRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: Spacing.sm,
+  },
+  subScoreLabel: {
+    fontSize: Typography.size.base,
+    fontWeight: Typography.weight.medium as any,
+    color: colors.text.primary,
+  },
+  subScoreStars: {
+    flexDirection: 'row',
+    gap: Spacing.xs,
+  },
+  photosRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm,
+    marginVertical: Spacing.base,
+  },
+  photoContainer: {
+    position: 'relative',
+  },
+  photo: {
+    width: 64,
+    height: 64,
+    borderRadius: BorderRadius.base,
+  },
+  removePhotoButton: {
+    position: 'absolute',
+    top: -6,
+    right: -6,
+    backgroundColor: colors.text.primary,
+    borderRadius: BorderRadius.full,
+    padding: 2,
+  },
+  addPhotoButton: {
+    width: 64,
+    height: 64,
+    borderRadius: BorderRadius.base,
+    borderWidth: 2,
+    borderStyle: 'dashed',
+    borderColor: colors.border.medium,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: Spacing.sm,
+  },
+  actionButton: {
+    flex: 1,
+  },
+});
@@ -0,0 +1,67 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { RsvpStatus } from '../types';
+import { ColorPalette, Typography, Spacing, BorderRadius } from '../styles/theme';
+import { useTheme, useThemedStyles } from '../styles/ThemeContext';
+import { useI18n } from '../i18n/I18nContext';
+import { MessageKey } from '../i18n/messages/en';
+
+export const getRsvpDisplay = (colors: ColorPalette): Record<
+  RsvpStatus,
+  { label: MessageKey; icon: keyof typeof MaterialIcons.glyphMap; color: string }
+> => ({
+  going: { label: 'rsvp.going', icon: 'check-circle', color: colors.success },
+  maybe: { label: 'rsvp.maybe', icon: 'help', color: colors.accent },
+  declined: { label: 'rsvp.declined', icon: 'cancel', color: colors.text.tertiary },
+  waitlisted: { label: 'rsvp.waitlisted', icon: 'hourglass-empty', color: colors.info },
+});
+
+interface RsvpBadgeProps {
+  status: RsvpStatus | null;
+}
+
+export const RsvpBadge: React.FC<RsvpBadgeProps> = ({ status }) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useI18n();
+
+  if (!status) {
+    return (
+      <View style={[styles.badge, styles.noResponse]}>
+        <Text style={[styles.text, styles.noResponseText]}>{t('rsvp.none')}</Text>
+      </View>
+    );
+  }
+
+  const { label, icon, color } = getRsvpDisplay(colors)[status];
+  return (
+    <View style={[styles.badge, { backgroundColor: color }]}>
+      <MaterialIcons name={icon} size={12} color={colors.text.white} />
+      <Text style={styles.text}>{t(label)}</Text>
+    </View>
+  );
+};
+
+const createStyles = (colors: ColorPalette) => StyleSheet.create({
+  badge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 2,
+    borderRadius: BorderRadius.sm,
+  },
+  text: {
+    fontSize: Typography.size.xs,
+    fontWeight: Typography.weight.semibold as any,
+    color: colors.text.white,
+    marginLeft: 2,
+  },
+  noResponse: {
+    backgroundColor: colors.background.tertiary,
+  },
+  noResponseText: {
+    color: colors.text.secondary,
+    marginLeft: 0,
+  },
+});
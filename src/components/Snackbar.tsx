@@ -0,0 +1,92 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Animated, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { ColorPalette, Typography, Spacing, BorderRadius, Shadows } from '../styles/theme';
+import { useThemedStyles } from '../styles/ThemeContext';
+
+const AUTO_HIDE_MS = 5000;
+
+export interface SnackbarMessage {
+  message: string;
+  actionTitle?: string;
+  onAction?: () => void;
+}
+
+interface SnackbarProps {
+  snackbar: SnackbarMessage | null;
+  onDismiss: () => void;
+}
+
+/**
+ * Short-lived message pinned to the bottom of the screen, usually with an
+ * "Undo" action. It hides itself after a few seconds.
+ */
+export const Snackbar: React.FC<SnackbarProps> = ({ snackbar, onDismiss }) => {
+  const styles = useThemedStyles(createStyles);
+  const opacity = useRef(new Animated.Value(0)).current;
+
+  useEffect(() => {
+    if (!snackbar) return;
+    opacity.setValue(0);
+    Animated.timing(opacity, { toValue: 1, duration: 200, useNativeDriver: true }).start();
+
+    const timer = setTimeout(onDismiss, AUTO_HIDE_MS);
+    return () => clearTimeout(timer);
+  }, [snackbar, opacity, onDismiss]);
+
+  const handleAction = useCallback(() => {
+    snackbar?.onAction?.();
+    onDismiss();
+  }, [snackbar, onDismiss]);
+
+  if (!snackbar) return null;
+
+  return (
+    <Animated.View style={[styles.container, { opacity }]} accessibilityLiveRegion="polite">
+      <Text style={styles.message}>{snackbar.message}</Text>
+      {snackbar.actionTitle && snackbar.onAction && (
+        <TouchableOpacity onPress={handleAction} style={styles.actionButton}>
+          <Text style={styles.actionText}>{snackbar.actionTitle}</Text>
+        </TouchableOpacity>
+      )}
+    </Animated.View>
+  );
+};
+
+// Each new message replaces the one on screen
+export const useSnackbar = () => {
+  const [snackbar, setSnackbar] = useState<SnackbarMessage | null>(null);
+  const hideSnackbar = useCallback(() => setSnackbar(null), []);
+  return { snackbar, showSnackbar: setSnackbar, hideSnackbar };
+};
+
+// Uses the text colour as the background so it stands out in either theme
+const createStyles = (colors: ColorPalette) => StyleSheet.create({
+  container: {
+    position: 'absolute',
+    left: Spacing.base,
+    right: Spacing.base,
+    bottom: Spacing.xl,
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.text.primary,
+    borderRadius: BorderRadius.md,
+    paddingVertical: Spacing.md,
+    paddingHorizontal: Spacing.base,
+    ...Shadows.lg,
+  },
+  message: {
+    flex: 1,
+    fontSize: Typography.size.sm,
+    color: colors.background.primary,
+  },
+  actionButton: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    marginLeft: Spacing.sm,
+  },
+  actionText: {
+    fontSize: Typography.size.sm,
+    fontWeight: Typography.weight.bold as any,
+    color: colors.primaryLight,
+  },
+});
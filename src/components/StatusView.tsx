@@ -0,0 +1,56 @@
+import React from 'react';
+import { View, Text, StyleSheet, ActivityIndicator } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { AnimatedButton } from './AnimatedButton';
+import { ColorPalette, Typography, Spacing } from '../styles/theme';
+import { useTheme, useThemedStyles } from '../styles/ThemeContext';
+
+interface StatusViewProps {
+  message: string;
+  loading?: boolean;
+  icon?: keyof typeof MaterialIcons.glyphMap;
+  actionTitle?: string;
+  onAction?: () => void;
+}
+
+// Full-screen placeholder for loading, error and empty states
+export const StatusView: React.FC<StatusViewProps> = ({
+  message,
+  loading = false,
+  icon,
+  actionTitle,
+  onAction,
+}) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+
+  return (
+    <View style={styles.container}>
+      {loading ? (
+        <ActivityIndicator size="large" color={colors.primary} />
+      ) : (
+        icon && <MaterialIcons name={icon} size={48} color={colors.text.tertiary} />
+      )}
+      <Text style={styles.message}>{message}</Text>
+      {actionTitle && onAction && (
+        <AnimatedButton title={actionTitle} onPress={onAction} variant="outline" />
+      )}
+    </View>
+  );
+};
+
+const createStyles = (colors: ColorPalette) => StyleSheet.create({
+  container: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: Spacing.xl,
+    backgroundColor: colors.background.secondary,
+  },
+  message: {
+    fontSize: Typography.size.base,
+    color: colors.text.secondary,
+    marginVertical: Spacing.base,
+    textAlign: 'center',
+  },
+});
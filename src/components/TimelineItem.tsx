@@ -0,0 +1,166 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { Event } from '../types';
+import { formatEventDate } from '../utils/dateFormat';
+import { ColorPalette, Typography, Spacing, BorderRadius, Shadows } from '../styles/theme';
+import { useTheme, useThemedStyles } from '../styles/ThemeContext';
+import { useI18n } from '../i18n/I18nContext';
+
+interface TimelineItemProps {
+  event: Event;
+  onPress: (event: Event) => void;
+  isLast?: boolean;
+}
+
+export const TimelineMonthHeader: React.FC<{ title: string }> = ({ title }) => {
+  const styles = useThemedStyles(createStyles);
+
+  return (
+    <View style={styles.monthHeader}>
+      <View style={styles.monthDot} />
+      <Text style={styles.monthTitle}>{title}</Text>
+    </View>
+  );
+};
+
+export const TimelineItem: React.FC<TimelineItemProps> = React.memo(({
+  event,
+  onPress,
+  isLast = false,
+}) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { locale } = useI18n();
+
+  const { weekday, day, time } = formatEventDate(event, locale);
+
+  return (
+    <View style={styles.row}>
+      {/* Rail */}
+      <View style={styles.rail}>
+        <View style={styles.railDot} />
+        {!isLast && <View style={styles.railLine} />}
+      </View>
+
+      <View style={styles.dateColumn}>
+        <Text style={styles.day}>{day}</Text>
+        <Text style={styles.weekday}>{weekday}</Text>
+      </View>
+
+      <TouchableOpacity style={styles.content} onPress={() => onPress(event)}>
+        <Text style={styles.title} numberOfLines={1}>{event.title}</Text>
+        <View style={styles.metaRow}>
+          <MaterialIcons name="schedule" size={12} color={colors.text.tertiary} />
+          <Text style={styles.metaText}>{time}</Text>
+          <MaterialIcons name="location-on" size={12} color={colors.text.tertiary} />
+          <Text style={[styles.metaText, styles.location]} numberOfLines={1}>
+            {event.location}
+          </Text>
+          {event.rated && (
+            <View style={styles.rating}>
+              <MaterialIcons name="star" size={12} color={colors.star} />
+              <Text style={styles.ratingText}>{event.rating}</Text>
+            </View>
+          )}
+        </View>
+      </TouchableOpacity>
+    </View>
+  );
+});
+
+const RAIL_WIDTH = 20;
+
+const createStyles = (colors: ColorPalette) => StyleSheet.create({
+  monthHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingTop: Spacing.md,
+    paddingBottom: Spacing.sm,
+  },
+  monthDot: {
+    width: 12,
+    height: 12,
+    borderRadius: BorderRadius.full,
+    backgroundColor: colors.primary,
+    marginHorizontal: (RAIL_WIDTH - 12) / 2,
+  },
+  monthTitle: {
+    fontSize: Typography.size.lg,
+    fontWeight: Typography.weight.bold as any,
+    color: colors.text.primary,
+    marginLeft: Spacing.sm,
+  },
+  row: {
+    flexDirection: 'row',
+  },
+  rail: {
+    width: RAIL_WIDTH,
+    alignItems: 'center',
+  },
+  railDot: {
+    width: 8,
+    height: 8,
+    borderRadius: BorderRadius.full,
+    backgroundColor: colors.primaryLight,
+    marginTop: Spacing.lg,
+  },
+  railLine: {
+    flex: 1,
+    width: 2,
+    backgroundColor: colors.border.light,
+    marginTop: Spacing.xs,
+  },
+  dateColumn: {
+    width: 44,
+    alignItems: 'center',
+    paddingTop: Spacing.md,
+  },
+  day: {
+    fontSize: Typography.size.lg,
+    fontWeight: Typography.weight.bold as any,
+    color: colors.text.primary,
+  },
+  weekday: {
+    fontSize: Typography.size.xs,
+    color: colors.text.tertiary,
+  },
+  content: {
+    flex: 1,
+    backgroundColor: colors.background.primary,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.md,
+    marginBottom: Spacing.sm,
+    ...Shadows.sm,
+  },
+  title: {
+    fontSize: Typography.size.base,
+    fontWeight: Typography.weight.semibold as any,
+    color: colors.text.primary,
+    marginBottom: Spacing.xs,
+  },
+  metaRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 2,
+  },
+  metaText: {
+    fontSize: Typography.size.xs,
+    color: colors.text.secondary,
+    marginRight: Spacing.sm,
+  },
+  location: {
+    flexShrink: 1,
+  },
+  rating: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginLeft: 'auto',
+  },
+  ratingText: {
+    fontSize: Typography.size.xs,
+    fontWeight: Typography.weight.semibold as any,
+    color: colors.text.primary,
+    marginLeft: 2,
+  },
+});
@@ -0,0 +1,146 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { UpcomingEvent } from '../types';
+import { AnimatedCard } from './AnimatedCard';
+import { RsvpBadge } from './RsvpBadge';
+import { formatDate } from '../utils/dateFormat';
+import { ColorPalette, Typography, Spacing, BorderRadius } from '../styles/theme';
+import { useTheme, useThemedStyles } from '../styles/ThemeContext';
+import { useI18n } from '../i18n/I18nContext';
+
+interface UpcomingEventCardProps {
+  event: UpcomingEvent;
+  onPress: () => void;
+}
+
+export const UpcomingEventCard: React.FC<UpcomingEventCardProps> = ({ event, onPress }) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t, locale } = useI18n();
+
+  const spotsLabel = event.capacity !== undefined
+    ? t('upcoming.spotsOfCapacity', { count: event.attendeeCount, capacity: event.capacity })
+    : t('upcoming.spots', { count: event.attendeeCount });
+
+  return (
+    <AnimatedCard onPress={onPress} style={styles.cardContainer}>
+      <View style={styles.cardContent}>
+        {/* Date Badge */}
+        <View style={styles.dateBadge}>
+          <Text style={styles.dateDay}>{formatDate(event.date, 'day', locale, event.timeZone)}</Text>
+          <Text style={styles.dateMonth}>{formatDate(event.date, 'month', locale, event.timeZone)}</Text>
+        </View>
+
+        {/* Event Content */}
+        <View style={styles.eventContent}>
+          <View style={styles.headerRow}>
+            <Text style={styles.title} numberOfLines={2}>
+              {event.title}
+            </Text>
+            <RsvpBadge status={event.rsvpStatus} />
+          </View>
+
+          <View style={styles.detailRow}>
+            <MaterialIcons name="location-on" size={14} color={colors.text.tertiary} />
+            <Text style={styles.detailText} numberOfLines={1}>
+              {event.location}
+            </Text>
+          </View>
+
+          <View style={styles.detailRow}>
+            <MaterialIcons name="schedule" size={14} color={colors.text.tertiary} />
+            <Text style={styles.detailText}>{formatDate(event.date, 'weekdayTime', locale, event.timeZone)}</Text>
+            <MaterialIcons
+              name="group"
+              size={14}
+              color={colors.text.tertiary}
+              style={styles.attendeesIcon}
+            />
+            <Text style={styles.detailText}>{spotsLabel}</Text>
+          </View>
+        </View>
+
+        {/* Arrow Indicator */}
+        <View style={styles.arrowContainer}>
+          <MaterialIcons
+            name="chevron-right"
+            size={20}
+            color={colors.text.tertiary}
+          />
+        </View>
+      </View>
+    </AnimatedCard>
+  );
+};
+
+const createStyles = (colors: ColorPalette) => StyleSheet.create({
+  cardContainer: {
+    marginHorizontal: Spacing.base,
+    marginVertical: Spacing.sm,
+  },
+  cardContent: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+  },
+  dateBadge: {
+    backgroundColor: colors.secondary,
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    alignItems: 'center',
+    minWidth: 50,
+    marginRight: Spacing.base,
+  },
+  dateDay: {
+    fontSize: Typography.size.lg,
+    fontWeight: Typography.weight.bold as any,
+    color: colors.text.white,
+    lineHeight: Typography.size.lg * Typography.lineHeight.tight,
+  },
+  dateMonth: {
+    fontSize: Typography.size.xs,
+    fontWeight: Typography.weight.medium as any,
+    color: colors.text.white,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  eventContent: {
+    flex: 1,
+    marginRight: Spacing.sm,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    marginBottom: Spacing.sm,
+  },
+  title: {
+    fontSize: Typography.size.lg,
+    fontWeight: Typography.weight.semibold as any,
+    color: colors.text.primary,
+    lineHeight: Typography.size.lg * Typography.lineHeight.tight,
+    flex: 1,
+    marginRight: Spacing.sm,
+  },
+  detailRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: Spacing.xs,
+  },
+  detailText: {
+    fontSize: Typography.size.sm,
+    color: colors.text.tertiary,
+    marginLeft: Spacing.xs,
+    flexShrink: 1,
+  },
+  attendeesIcon: {
+    marginLeft: Spacing.base,
+  },
+  arrowContainer: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    width: 24,
+    height: 24,
+  },
+});
@@ -0,0 +1,61 @@
+import { useEffect, useState } from 'react';
+import { Event } from '../types';
+import { geocoder, isApproximate } from '../services/geocoding';
+
+export interface ResolvedLocation {
+  latitude: number;
+  longitude: number;
+  isApproximate: boolean;
+}
+
+interface EventLocationState {
+  location: ResolvedLocation | null;
+  isResolving: boolean;
+}
+
+/**
+ * Where to put an event on the map: its own coordinates when it has them,
+ * otherwise the geocoded `location` text.
+ */
+export const useEventLocation = (
+  event: Pick<Event, 'location' | 'coordinates'> | undefined
+): EventLocationState => {
+  const coordinates = event?.coordinates;
+  const locationText = event?.location;
+  const [geocoded, setGeocoded] = useState<EventLocationState>({
+    location: null,
+    isResolving: false,
+  });
+
+  useEffect(() => {
+    if (coordinates || !locationText) return;
+
+    let isCurrent = true;
+    setGeocoded({ location: null, isResolving: true });
+    geocoder.geocode(locationText)
+      .then(result => {
+        if (!isCurrent) return;
+        setGeocoded({
+          location: result && {
+            latitude: result.latitude,
+            longitude: result.longitude,
+            isApproximate: isApproximate(result),
+          },
+          isResolving: false,
+        });
+      })
+      .catch(error => {
+        console.error('Geocoding failed:', error);
+        if (isCurrent) setGeocoded({ location: null, isResolving: false });
+      });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [coordinates, locationText]);
+
+  if (coordinates) {
+    return { location: { ...coordinates, isApproximate: false }, isResolving: false };
+  }
+  return geocoded;
+};
@@ -0,0 +1,88 @@
+import { useCallback } from 'react';
+import { Alert, AlertButton } from 'react-native';
+import * as ImagePicker from 'expo-image-picker';
+import { PickedImage } from '../services/imageProcessing';
+import { useI18n } from '../i18n/I18nContext';
+
+interface ImagePickerOptions {
+  // Lets the user crop to a square before the image is returned
+  square?: boolean;
+}
+
+/**
+ * Camera and photo library access with the permission prompts and error
+ * alerts handled. Images come back uncompressed; they are resized and
+ * compressed when they are stored.
+ */
+export const useImagePicker = ({ square = false }: ImagePickerOptions = {}) => {
+  const { t } = useI18n();
+
+  const pickFromLibrary = useCallback(async (): Promise<PickedImage | null> => {
+    try {
+      const permissionResult = await ImagePicker.requestMediaLibraryPermissionsAsync();
+
+      if (permissionResult.granted === false) {
+        Alert.alert(t('permissions.title'), t('permissions.library'));
+        return null;
+      }
+
+      const result = await ImagePicker.launchImageLibraryAsync({
+        mediaTypes: ['images'],
+        allowsEditing: square,
+        aspect: square ? [1, 1] : undefined,
+        quality: 1,
+      });
+
+      return !result.canceled && result.assets[0] ? result.assets[0] : null;
+    } catch (error) {
+      Alert.alert(t('common.error'), t('errors.pickImage'));
+      console.error('Image picker error:', error);
+      return null;
+    }
+  }, [square, t]);
+
+  const takePhoto = useCallback(async (): Promise<PickedImage | null> => {
+    try {
+      const permissionResult = await ImagePicker.requestCameraPermissionsAsync();
+
+      if (permissionResult.granted === false) {
+        Alert.alert(t('permissions.title'), t('permissions.camera'));
+        return null;
+      }
+
+      const result = await ImagePicker.launchCameraAsync({
+        allowsEditing: square,
+        aspect: square ? [1, 1] : undefined,
+        quality: 1,
+      });
+
+      return !result.canceled && result.assets[0] ? result.assets[0] : null;
+    } catch (error) {
+      Alert.alert(t('common.error'), t('errors.takePhoto'));
+      console.error('Camera error:', error);
+      return null;
+    }
+  }, [square, t]);
+
+  // Asks whether to use the camera or the library. Extra buttons, such as
+  // "Remove Photo", are listed between those and Cancel.
+  const chooseImage = useCallback((
+    title: string,
+    onPick: (image: PickedImage) => void,
+    extraButtons: AlertButton[] = []
+  ) => {
+    const pickWith = (launch: () => Promise<PickedImage | null>) => async () => {
+      const image = await launch();
+      if (image) onPick(image);
+    };
+
+    Alert.alert(title, t('imagePicker.chooseOption'), [
+      { text: t('imagePicker.takePhoto'), onPress: pickWith(takePhoto) },
+      { text: t('imagePicker.chooseFromLibrary'), onPress: pickWith(pickFromLibrary) },
+      ...extraButtons,
+      { text: t('common.cancel'), style: 'cancel' },
+    ]);
+  }, [pickFromLibrary, takePhoto, t]);
+
+  return { pickFromLibrary, takePhoto, chooseImage };
+};
@@ -0,0 +1,101 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ApiError, ApiResult } from '../api';
+
+export interface Page<T> {
+  items: T[];
+  // Where the next page starts; missing on the last page
+  nextOffset?: number;
+}
+
+export type PageFetcher<T> = (offset: number, limit: number) => Promise<ApiResult<Page<T>>>;
+
+interface PagedItems<T> {
+  items: T[];
+  hasMore: boolean;
+  // The first page is loading
+  isLoading: boolean;
+  isLoadingMore: boolean;
+  error: ApiError | null;
+  loadMore: () => void;
+  // Fetches the page that failed again
+  retry: () => void;
+  // Starts over from the first page; resolves once it has arrived
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Fetches a list one page at a time as the user scrolls. Starts over from
+ * the first page whenever `fetchPage` changes, so memoize it on whatever the
+ * query depends on. The items already shown stay in place until the new
+ * first page arrives, and answers to an older query are dropped.
+ */
+export const usePagedItems = <T>(fetchPage: PageFetcher<T>, pageSize: number): PagedItems<T> => {
+  const [items, setItems] = useState<T[]>([]);
+  const [nextOffset, setNextOffset] = useState<number | undefined>(undefined);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState<ApiError | null>(null);
+  // Bumped on every restart so requests for an older query can tell
+  const generation = useRef(0);
+  const isFetching = useRef(false);
+  // Where the failed request started, for retry
+  const failedOffset = useRef(0);
+
+  const load = useCallback(async (offset: number) => {
+    const current = generation.current;
+    const setLoading = offset === 0 ? setIsLoading : setIsLoadingMore;
+    isFetching.current = true;
+    setError(null);
+    setLoading(true);
+
+    const result = await fetchPage(offset, pageSize);
+    if (current !== generation.current) return;
+
+    isFetching.current = false;
+    setLoading(false);
+    if (result.ok) {
+      setItems(previous => (offset === 0 ? result.data.items : [...previous, ...result.data.items]));
+      setNextOffset(result.data.nextOffset);
+    } else {
+      failedOffset.current = offset;
+      setError(result.error);
+    }
+  }, [fetchPage, pageSize]);
+
+  const refresh = useCallback(() => {
+    generation.current += 1;
+    setIsLoadingMore(false);
+    return load(0);
+  }, [load]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Drop answers that arrive after unmounting
+  useEffect(() => () => {
+    generation.current += 1;
+  }, []);
+
+  // A failed page waits for retry, or onEndReached would keep firing it
+  const loadMore = useCallback(() => {
+    if (nextOffset === undefined || isFetching.current || error) return;
+    load(nextOffset);
+  }, [nextOffset, error, load]);
+
+  const retry = useCallback(() => {
+    if (isFetching.current) return;
+    load(failedOffset.current);
+  }, [load]);
+
+  return {
+    items,
+    hasMore: nextOffset !== undefined,
+    isLoading,
+    isLoadingMore,
+    error,
+    loadMore,
+    retry,
+    refresh,
+  };
+};
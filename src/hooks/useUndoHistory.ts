@@ -0,0 +1,88 @@
+import { useCallback, useState } from 'react';
+
+const MAX_HISTORY = 50;
+
+interface History<T> {
+  past: T[];
+  present: T;
+  future: T[];
+  // Changes in the same group replace each other instead of adding a step
+  group: string | null;
+}
+
+interface UndoHistory<T> {
+  value: T;
+  set: (update: T | ((previous: T) => T), group?: string) => void;
+  undo: () => void;
+  redo: () => void;
+  // Ends the current group, so the next change is a step of its own
+  checkpoint: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+/**
+ * State with a multi-step undo/redo stack. Pass a `group` to fold a run of
+ * changes into one step, e.g. every keystroke while typing in one field.
+ */
+export const useUndoHistory = <T>(initial: T | (() => T)): UndoHistory<T> => {
+  const [history, setHistory] = useState<History<T>>(() => ({
+    past: [],
+    present: initial instanceof Function ? initial() : initial,
+    future: [],
+    group: null,
+  }));
+
+  const set = useCallback((update: T | ((previous: T) => T), group?: string) => {
+    setHistory(current => {
+      const present = update instanceof Function ? update(current.present) : update;
+      if (Object.is(present, current.present)) return current;
+
+      const continuesGroup = group !== undefined && group === current.group;
+      return {
+        past: continuesGroup ? current.past : [...current.past, current.present].slice(-MAX_HISTORY),
+        present,
+        future: [],
+        group: group ?? null,
+      };
+    });
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory(current => {
+      if (current.past.length === 0) return current;
+      return {
+        past: current.past.slice(0, -1),
+        present: current.past[current.past.length - 1],
+        future: [current.present, ...current.future],
+        group: null,
+      };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory(current => {
+      if (current.future.length === 0) return current;
+      return {
+        past: [...current.past, current.present],
+        present: current.future[0],
+        future: current.future.slice(1),
+        group: null,
+      };
+    });
+  }, []);
+
+  const checkpoint = useCallback(() => {
+    setHistory(current => (current.group === null ? current : { ...current, group: null }));
+  }, []);
+
+  return {
+    value: history.present,
+    set,
+    undo,
+    redo,
+    checkpoint,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  };
+};
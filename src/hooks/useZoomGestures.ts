@@ -0,0 +1,264 @@
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+import {
+  Animated,
+  GestureResponderEvent,
+  NativeTouchEvent,
+  PanResponder,
+  PanResponderGestureState,
+} from 'react-native';
+
+const MAX_SCALE = 4;
+const DOUBLE_TAP_SCALE = 2.5;
+// How far a pinch can go past the bounds before it springs back
+const OVERSHOOT = 0.25;
+const DOUBLE_TAP_DELAY_MS = 300;
+// Movement below this many points still counts as a tap
+const TAP_SLOP = 10;
+const DISMISS_DISTANCE = 120;
+// Points per millisecond, as reported by PanResponder
+const DISMISS_VELOCITY = 1;
+
+interface Size {
+  width: number;
+  height: number;
+}
+
+interface ZoomState {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+type GestureMode = 'none' | 'pan' | 'pinch' | 'dismiss';
+
+interface ZoomGestureOptions {
+  // Size of the image at scale 1 and of the area it is shown in
+  imageSize: Size;
+  viewportSize: Size;
+  // Called once a swipe has carried the image off screen
+  onDismiss: () => void;
+  // A single tap on the unzoomed image that wasn't the start of a double tap
+  onTap?: () => void;
+}
+
+const IDENTITY: ZoomState = { scale: 1, x: 0, y: 0 };
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const getDistance = ([a, b]: NativeTouchEvent[]) => Math.hypot(a.pageX - b.pageX, a.pageY - b.pageY);
+
+/**
+ * Pinch-to-zoom, panning while zoomed, double-tap to zoom and swipe to
+ * dismiss for a single image. The touches are tracked with PanResponder and
+ * every animation runs on the native driver; spread `panHandlers` on the view
+ * that receives the gestures and apply `imageStyle` to the image.
+ */
+export const useZoomGestures = ({ imageSize, viewportSize, onDismiss, onTap }: ZoomGestureOptions) => {
+  const scale = useRef(new Animated.Value(1)).current;
+  const translateX = useRef(new Animated.Value(0)).current;
+  const translateY = useRef(new Animated.Value(0)).current;
+  const dismissY = useRef(new Animated.Value(0)).current;
+
+  // What is on screen, mirrored here because Animated values can't be read synchronously
+  const zoom = useRef<ZoomState>(IDENTITY);
+  const gesture = useRef({
+    mode: 'none' as GestureMode,
+    start: IDENTITY,
+    origin: { dx: 0, dy: 0 },
+    pinchDistance: 0,
+    moved: false,
+  });
+  const lastTapAt = useRef(0);
+  const tapTimer = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+
+  // The handlers are created once, so they read the latest props through a ref
+  const options = useRef({ imageSize, viewportSize, onDismiss, onTap });
+  options.current = { imageSize, viewportSize, onDismiss, onTap };
+
+  // Keeps the edges of a zoomed image from being dragged inside the viewport
+  const clampOffset = useCallback(({ scale: nextScale, x, y }: ZoomState): ZoomState => {
+    const { imageSize: image, viewportSize: viewport } = options.current;
+    const maxX = Math.max(0, (image.width * nextScale - viewport.width) / 2);
+    const maxY = Math.max(0, (image.height * nextScale - viewport.height) / 2);
+    return { scale: nextScale, x: clamp(x, -maxX, maxX), y: clamp(y, -maxY, maxY) };
+  }, []);
+
+  const setZoom = useCallback((next: ZoomState) => {
+    zoom.current = next;
+    scale.setValue(next.scale);
+    translateX.setValue(next.x);
+    translateY.setValue(next.y);
+  }, [scale, translateX, translateY]);
+
+  const animateZoom = useCallback((next: ZoomState) => {
+    zoom.current = next;
+    Animated.parallel([
+      Animated.spring(scale, { toValue: next.scale, friction: 7, useNativeDriver: true }),
+      Animated.spring(translateX, { toValue: next.x, friction: 7, useNativeDriver: true }),
+      Animated.spring(translateY, { toValue: next.y, friction: 7, useNativeDriver: true }),
+    ]).start();
+  }, [scale, translateX, translateY]);
+
+  // Springs back inside the bounds once the fingers are lifted
+  const settle = useCallback(() => {
+    const { scale: current, x, y } = zoom.current;
+    const nextScale = clamp(current, 1, MAX_SCALE);
+    animateZoom(
+      nextScale === 1
+        ? IDENTITY
+        : clampOffset({ scale: nextScale, x: (x * nextScale) / current, y: (y * nextScale) / current })
+    );
+  }, [animateZoom, clampOffset]);
+
+  const reset = useCallback(() => {
+    clearTimeout(tapTimer.current);
+    lastTapAt.current = 0;
+    setZoom(IDENTITY);
+    dismissY.setValue(0);
+  }, [setZoom, dismissY]);
+
+  // Zooms in on the tapped point, or back out when already zoomed
+  const handleTap = useCallback(({ pageX, pageY }: NativeTouchEvent) => {
+    const now = Date.now();
+    if (now - lastTapAt.current > DOUBLE_TAP_DELAY_MS) {
+      lastTapAt.current = now;
+      tapTimer.current = setTimeout(() => {
+        if (zoom.current.scale === 1) options.current.onTap?.();
+      }, DOUBLE_TAP_DELAY_MS);
+      return;
+    }
+
+    clearTimeout(tapTimer.current);
+    lastTapAt.current = 0;
+    if (zoom.current.scale > 1) {
+      animateZoom(IDENTITY);
+      return;
+    }
+    const { viewportSize: viewport } = options.current;
+    const focusX = pageX - viewport.width / 2;
+    const focusY = pageY - viewport.height / 2;
+    animateZoom(clampOffset({
+      scale: DOUBLE_TAP_SCALE,
+      x: focusX * (1 - DOUBLE_TAP_SCALE),
+      y: focusY * (1 - DOUBLE_TAP_SCALE),
+    }));
+  }, [animateZoom, clampOffset]);
+
+  const handleMove = useCallback((event: GestureResponderEvent, { dx, dy }: PanResponderGestureState) => {
+    const state = gesture.current;
+    const { touches } = event.nativeEvent;
+
+    if (touches.length >= 2) {
+      const distance = getDistance(touches);
+      if (state.mode !== 'pinch') {
+        state.mode = 'pinch';
+        state.start = zoom.current;
+        state.pinchDistance = distance;
+        dismissY.setValue(0);
+      }
+      state.moved = true;
+      const { start } = state;
+      const nextScale = clamp(
+        (start.scale * distance) / state.pinchDistance,
+        1 - OVERSHOOT,
+        MAX_SCALE + OVERSHOOT
+      );
+      setZoom({
+        scale: nextScale,
+        x: (start.x * nextScale) / start.scale,
+        y: (start.y * nextScale) / start.scale,
+      });
+      return;
+    }
+
+    // One finger was lifted mid-pinch: carry on panning from here
+    if (state.mode === 'pinch') {
+      state.mode = 'none';
+      state.start = zoom.current;
+      state.origin = { dx, dy };
+    }
+
+    const moveX = dx - state.origin.dx;
+    const moveY = dy - state.origin.dy;
+    if (!state.moved && Math.hypot(moveX, moveY) < TAP_SLOP) return;
+    state.moved = true;
+
+    if (state.mode === 'none') {
+      state.mode = zoom.current.scale > 1 ? 'pan' : 'dismiss';
+    }
+    if (state.mode === 'pan') {
+      setZoom(clampOffset({ scale: state.start.scale, x: state.start.x + moveX, y: state.start.y + moveY }));
+    } else {
+      dismissY.setValue(moveY);
+    }
+  }, [setZoom, clampOffset, dismissY]);
+
+  const handleRelease = useCallback((event: GestureResponderEvent, { dy, vy }: PanResponderGestureState) => {
+    const state = gesture.current;
+    if (!state.moved) {
+      handleTap(event.nativeEvent);
+      return;
+    }
+
+    if (state.mode !== 'dismiss') {
+      settle();
+      return;
+    }
+    const moveY = dy - state.origin.dy;
+    if (Math.abs(moveY) > DISMISS_DISTANCE || Math.abs(vy) > DISMISS_VELOCITY) {
+      Animated.timing(dismissY, {
+        toValue: Math.sign(moveY || vy) * options.current.viewportSize.height,
+        duration: 200,
+        useNativeDriver: true,
+      }).start(() => options.current.onDismiss());
+    } else {
+      Animated.spring(dismissY, { toValue: 0, friction: 7, useNativeDriver: true }).start();
+    }
+  }, [handleTap, settle, dismissY]);
+
+  const handlers = useRef({ handleMove, handleRelease, settle });
+  handlers.current = { handleMove, handleRelease, settle };
+
+  const panResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: () => true,
+      // Keep the gesture once it has started, even over a ScrollView
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderGrant: () => {
+        gesture.current = {
+          mode: 'none',
+          start: zoom.current,
+          origin: { dx: 0, dy: 0 },
+          pinchDistance: 0,
+          moved: false,
+        };
+      },
+      onPanResponderMove: (event, state) => handlers.current.handleMove(event, state),
+      onPanResponderRelease: (event, state) => handlers.current.handleRelease(event, state),
+      onPanResponderTerminate: () => {
+        dismissY.setValue(0);
+        handlers.current.settle();
+      },
+    })
+  ).current;
+
+  useEffect(() => () => clearTimeout(tapTimer.current), []);
+
+  const imageStyle = useMemo(() => ({
+    transform: [
+      { translateX },
+      { translateY: Animated.add(translateY, dismissY) },
+      { scale },
+    ],
+  }), [translateX, translateY, dismissY, scale]);
+
+  // Fades out the further the image is swiped towards the edge
+  const backdropOpacity = useMemo(() => dismissY.interpolate({
+    inputRange: [-viewportSize.height / 2, 0, viewportSize.height / 2],
+    outputRange: [0, 1, 0],
+    extrapolate: 'clamp',
+  }), [dismissY, viewportSize.height]);
+
+  return { panHandlers: panResponder.panHandlers, imageStyle, backdropOpacity, reset };
+};
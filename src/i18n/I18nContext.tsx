@@ -0,0 +1,74 @@
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+  ReactNode,
+} from 'react';
+import { I18nManager } from 'react-native';
+import {
+  AppLocale,
+  LOCALES,
+  FormatNumber,
+  Translate,
+  createNumberFormatter,
+  createTranslator,
+  getDeviceLanguage,
+} from './locales';
+import { LanguagePreference, loadSettings, updateSettings } from '../services/settingsStorage';
+
+interface I18nContextValue {
+  locale: AppLocale;
+  language: LanguagePreference;
+  setLanguage: (language: LanguagePreference) => void;
+  t: Translate;
+  formatNumber: FormatNumber;
+}
+
+const I18nContext = createContext<I18nContextValue | null>(null);
+
+// Both catalogs are left-to-right and right-to-left layouts are not supported,
+// so devices set to such a language keep the left-to-right layout
+I18nManager.allowRTL(false);
+
+interface I18nProviderProps {
+  children: ReactNode;
+}
+
+// Follows the device language unless the user picked one explicitly
+export const I18nProvider: React.FC<I18nProviderProps> = ({ children }) => {
+  const [language, setLanguageState] = useState<LanguagePreference | null>(null);
+
+  useEffect(() => {
+    loadSettings().then(settings => setLanguageState(settings.language));
+  }, []);
+
+  const setLanguage = useCallback((next: LanguagePreference) => {
+    setLanguageState(next);
+    updateSettings({ language: next });
+  }, []);
+
+  const locale = LOCALES[!language || language === 'system' ? getDeviceLanguage() : language];
+
+  const value = useMemo(() => ({
+    locale,
+    language: language ?? 'system',
+    setLanguage,
+    t: createTranslator(locale),
+    formatNumber: createNumberFormatter(locale),
+  }), [locale, language, setLanguage]);
+
+  if (language === null) return null;
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export const useI18n = (): I18nContextValue => {
+  const context = useContext(I18nContext);
+  if (!context) {
+    throw new Error('useI18n must be used within an I18nProvider');
+  }
+  return context;
+};
@@ -0,0 +1,139 @@
+import type { Locale } from 'date-fns';
+import { enUS } from 'date-fns/locale/en-US';
+import { zhHK } from 'date-fns/locale/zh-HK';
+import { MessageKey, Messages, en } from './messages/en';
+import { zhHant } from './messages/zhHant';
+import { MessageValues, PluralCategory, formatMessage } from './messageFormat';
+
+export type LanguageCode = 'en' | 'zh-Hant';
+
+// date-fns patterns; word order differs between languages, so each locale
+// supplies its own rather than only swapping month and weekday names
+export interface DatePatterns {
+  full: string;
+  longDate: string;
+  shortDate: string;
+  dayHeading: string;
+  monthYear: string;
+  weekday: string;
+  weekdayNarrow: string;
+  weekdayTime: string;
+  day: string;
+  month: string;
+  year: string;
+  time: string;
+}
+
+export interface AppLocale {
+  code: LanguageCode;
+  // Shown in the language picker, written in the language itself
+  nativeName: string;
+  // BCP 47 tag used for Intl number formatting
+  intlTag: string;
+  dateLocale: Locale;
+  datePatterns: DatePatterns;
+  pluralCategory: (count: number) => PluralCategory;
+  messages: Messages;
+}
+
+export const LOCALES: Record<LanguageCode, AppLocale> = {
+  en: {
+    code: 'en',
+    nativeName: 'English',
+    intlTag: 'en-US',
+    dateLocale: enUS,
+    datePatterns: {
+      full: 'EEEE, MMMM d, yyyy \'at\' h:mm a',
+      longDate: 'MMMM d, yyyy',
+      shortDate: 'MMM d, yyyy',
+      dayHeading: 'EEEE, MMMM d',
+      monthYear: 'MMMM yyyy',
+      weekday: 'EEE',
+      weekdayNarrow: 'EEEEEE',
+      weekdayTime: 'EEE, h:mm a',
+      day: 'd',
+      month: 'MMM',
+      year: 'yyyy',
+      time: 'h:mm a',
+    },
+    pluralCategory: count => (count === 1 ? 'one' : 'other'),
+    messages: en,
+  },
+  'zh-Hant': {
+    code: 'zh-Hant',
+    nativeName: '繁體中文',
+    intlTag: 'zh-Hant-HK',
+    dateLocale: zhHK,
+    datePatterns: {
+      full: 'yyyy年M月d日 EEEE ah:mm',
+      longDate: 'yyyy年M月d日',
+      shortDate: 'yyyy年M月d日',
+      dayHeading: 'M月d日 EEEE',
+      monthYear: 'yyyy年M月',
+      weekday: 'EEE',
+      weekdayNarrow: 'EEEEEE',
+      weekdayTime: 'EEE ah:mm',
+      day: 'd',
+      month: 'MMM',
+      year: 'yyyy',
+      time: 'ah:mm',
+    },
+    pluralCategory: () => 'other',
+    messages: zhHant,
+  },
+};
+
+export const DEFAULT_LOCALE = LOCALES.en;
+
+export const SUPPORTED_LANGUAGES = Object.keys(LOCALES) as LanguageCode[];
+
+// Maps a device locale tag such as "zh-Hant-TW" or "zh-HK" to a shipped
+// language. Simplified Chinese and anything unknown fall back to English.
+export const matchLanguage = (tag: string): LanguageCode => {
+  const [language, ...subtags] = tag.replace(/_/g, '-').split('-').map(part => part.toLowerCase());
+
+  if (language === 'zh') {
+    const traditional = subtags.some(subtag => ['hant', 'hk', 'tw', 'mo'].includes(subtag));
+    return traditional ? 'zh-Hant' : 'en';
+  }
+  return SUPPORTED_LANGUAGES.find(code => code.toLowerCase() === language) ?? 'en';
+};
+
+export const getDeviceLanguage = (): LanguageCode => {
+  try {
+    return matchLanguage(Intl.DateTimeFormat().resolvedOptions().locale);
+  } catch {
+    return DEFAULT_LOCALE.code;
+  }
+};
+
+export type Translate = (key: MessageKey, values?: MessageValues) => string;
+
+export type FormatNumber = (value: number, fractionDigits?: number) => string;
+
+export const createNumberFormatter = (locale: AppLocale): FormatNumber => {
+  const formatters = new Map<number, Intl.NumberFormat>();
+
+  return (value, fractionDigits = 0) => {
+    let formatter = formatters.get(fractionDigits);
+    if (!formatter) {
+      formatter = new Intl.NumberFormat(locale.intlTag, {
+        minimumFractionDigits: fractionDigits,
+        maximumFractionDigits: fractionDigits,
+      });
+      formatters.set(fractionDigits, formatter);
+    }
+    return formatter.format(value);
+  };
+};
+
+// Missing translations fall back to English rather than showing the raw key
+export const createTranslator = (locale: AppLocale): Translate => {
+  const options = {
+    pluralCategory: locale.pluralCategory,
+    formatNumber: createNumberFormatter(locale),
+  };
+
+  return (key, values = {}) =>
+    formatMessage(locale.messages[key] ?? en[key] ?? key, values, options);
+};
@@ -0,0 +1,147 @@
+export type PluralCategory = 'zero' | 'one' | 'two' | 'few' | 'many' | 'other';
+
+export type MessageValues = Record<string, string | number>;
+
+export interface MessageFormatOptions {
+  pluralCategory: (count: number) => PluralCategory;
+  formatNumber: (value: number) => string;
+}
+
+type MessageNode =
+  | { type: 'text'; value: string }
+  | { type: 'argument'; name: string }
+  | { type: 'pound' }
+  | { type: 'plural' | 'select'; name: string; branches: Record<string, MessageNode[]> };
+
+/**
+ * Parses the subset of ICU MessageFormat the catalogs use: `{name}`
+ * arguments, `{count, plural, =0 {...} one {...} other {...}}` and
+ * `{key, select, a {...} other {...}}`. Inside a plural branch `#` stands for
+ * the formatted count. ICU apostrophe quoting is not supported, so
+ * apostrophes are always literal.
+ */
+const parseMessage = (message: string): MessageNode[] => {
+  let index = 0;
+
+  const fail = (reason: string): never => {
+    throw new Error(`Malformed message "${message}": ${reason} at ${index}`);
+  };
+
+  const readUntil = (stops: string) => {
+    const start = index;
+    while (index < message.length && !stops.includes(message[index])) index++;
+    return message.slice(start, index).trim();
+  };
+
+  const skipWhitespace = () => {
+    while (index < message.length && /\s/.test(message[index])) index++;
+  };
+
+  const parseNodes = (inPlural: boolean): MessageNode[] => {
+    const nodes: MessageNode[] = [];
+    let text = '';
+    const flushText = () => {
+      if (text) nodes.push({ type: 'text', value: text });
+      text = '';
+    };
+
+    while (index < message.length && message[index] !== '}') {
+      const char = message[index];
+      if (char === '{') {
+        flushText();
+        nodes.push(parseArgument(inPlural));
+      } else if (char === '#' && inPlural) {
+        flushText();
+        nodes.push({ type: 'pound' });
+        index++;
+      } else {
+        text += char;
+        index++;
+      }
+    }
+
+    flushText();
+    return nodes;
+  };
+
+  const parseArgument = (inPlural: boolean): MessageNode => {
+    index++; // {
+    const name = readUntil(',}');
+    if (!name) fail('missing argument name');
+
+    if (message[index] === '}') {
+      index++;
+      return { type: 'argument', name };
+    }
+
+    index++; // ,
+    const type = readUntil(',}');
+    if (type !== 'plural' && type !== 'select') fail(`unsupported argument type "${type}"`);
+    if (message[index] !== ',') fail('missing branches');
+    index++;
+
+    const branches: Record<string, MessageNode[]> = {};
+    skipWhitespace();
+    while (message[index] !== '}') {
+      const selector = readUntil('{}');
+      if (!selector || message[index] !== '{') fail('missing branch');
+      index++;
+      branches[selector] = parseNodes(inPlural || type === 'plural');
+      if (message[index] !== '}') fail('unclosed branch');
+      index++;
+      skipWhitespace();
+      if (index >= message.length) fail('unclosed argument');
+    }
+    index++;
+
+    if (!branches.other) fail('missing "other" branch');
+    return { type: type as 'plural' | 'select', name, branches };
+  };
+
+  const nodes = parseNodes(false);
+  if (index < message.length) fail('unexpected "}"');
+  return nodes;
+};
+
+// Catalog messages are static, so each one is parsed once per session
+const parsedMessages = new Map<string, MessageNode[]>();
+
+const renderNodes = (
+  nodes: MessageNode[],
+  values: MessageValues,
+  options: MessageFormatOptions,
+  count?: number
+): string => nodes.map(node => {
+  switch (node.type) {
+    case 'text':
+      return node.value;
+    case 'pound':
+      return count === undefined ? '#' : options.formatNumber(count);
+    case 'argument':
+      return node.name in values ? String(values[node.name]) : `{${node.name}}`;
+    case 'plural': {
+      const value = Number(values[node.name]);
+      const branch = node.branches[`=${value}`]
+        ?? node.branches[options.pluralCategory(value)]
+        ?? node.branches.other;
+      return renderNodes(branch, values, options, value);
+    }
+    case 'select': {
+      const branch = node.branches[String(values[node.name])] ?? node.branches.other;
+      return renderNodes(branch, values, options, count);
+    }
+  }
+}).join('');
+
+export const formatMessage = (
+  message: string,
+  values: MessageValues,
+  options: MessageFormatOptions
+): string => {
+  let nodes = parsedMessages.get(message);
+  if (!nodes) {
+    nodes = parseMessage(message);
+    parsedMessages.set(message, nodes);
+  }
+  return renderNodes(nodes, values, options);
+};
@@ -0,0 +1,263 @@
+/**
+ * English catalog; it defines the message keys every other catalog must
+ * provide. Messages use ICU syntax, see `messageFormat.ts`.
+ */
+export const en = {
+  // Common
+  'common.cancel': 'Cancel',
+  'common.close': 'Close',
+  'common.error': 'Error',
+  'common.success': 'Success',
+  'common.goBack': 'Go Back',
+  'common.tryAgain': 'Try Again',
+  'common.retry': 'Retry',
+  'common.loading': 'Loading...',
+  'common.saving': 'Saving...',
+  'common.undo': 'Undo',
+  'common.redo': 'Redo',
+  'common.done': 'Done',
+
+  'apiErrors.network': 'Unable to reach the server. Check your connection and try again.',
+  'apiErrors.timeout': 'The server took too long to respond. Please try again.',
+  'apiErrors.notFound': 'We couldn\'t find what you were looking for.',
+  'apiErrors.server': 'Something went wrong on our end. Please try again.',
+  'apiErrors.parse': 'The server sent an unexpected response.',
+
+  'notFound.message': 'This link doesn\'t lead anywhere in the app.',
+  'notFound.goToProfile': 'Go to Profile',
+
+  'permissions.title': 'Permission Required',
+  'permissions.library': 'Permission to access camera roll is required!',
+  'permissions.camera': 'Permission to access camera is required!',
+  'errors.pickImage': 'Failed to pick image. Please try again.',
+  'errors.takePhoto': 'Failed to take photo. Please try again.',
+  'errors.saveImage': 'Failed to save photo. Please try again.',
+
+  'imagePicker.chooseOption': 'Choose an option',
+  'imagePicker.takePhoto': 'Take Photo',
+  'imagePicker.chooseFromLibrary': 'Choose from Library',
+
+  'validation.required': 'This field is required',
+  'validation.invalidValue': 'This value isn\'t valid',
+  'validation.invalidDate': 'Enter a valid date, e.g. 1995-03-15',
+  'validation.invalidBirthdate': 'Choose a date between 1900 and today',
+  'validation.invalidEmail': 'Enter an email address like name@example.com',
+  'validation.invalidPhone': 'Enter the number with its country code, e.g. +852 9876 5432',
+  'validation.invalidTimeZone': 'Unknown time zone',
+  'validation.outOfRange': 'Must be between {min} and {max}',
+  'validation.tooSmall': 'Must be at least {min}',
+  'validation.unexpectedRating': 'Only rated events can have a rating',
+  'validation.duplicateId': 'ID {id} is used by more than one event',
+
+  // Sync
+  'sync.offline': 'Offline',
+  'sync.pendingCount': '{count} pending sync',
+  'sync.conflictBanner': '{count, plural, one {# change} other {# changes}} couldn\'t sync because the server copy changed.',
+  'sync.review': 'Review',
+  'sync.conflictTitle': 'Sync Conflict',
+  'sync.ratingConflict': 'Your {count}-star rating for "{title}" conflicts with a change made elsewhere.',
+  'sync.clearedRatingConflict': 'Clearing your rating for "{title}" conflicts with a change made elsewhere.',
+  'sync.profileConflict': 'Your profile edits conflict with changes made elsewhere.',
+  'sync.keepMine': 'Keep Mine',
+  'sync.useServer': 'Use Server Version',
+
+  // Profile
+  'profile.loading': 'Loading profile...',
+  'profile.showingSaved': 'Showing saved data. {reason}',
+  'profile.about': 'About',
+  'profile.birthday': 'Birthday',
+  'profile.age': '{count, plural, one {# year old} other {# years old}}',
+  'profile.email': 'Email',
+  'profile.phone': 'Phone',
+  'profile.interests': 'Interests',
+  'profile.eventsAttended': 'Events Attended',
+  'profile.eventsRated': 'Events Rated',
+
+  'profileImage.change': 'Change Photo',
+  'profileImage.changeTitle': 'Change Profile Picture',
+  'profileImage.updated': 'Profile image updated!',
+  'profileImage.remove': 'Remove Photo',
+  'profileImage.removed': 'Profile photo removed',
+
+  'profileShare.title': 'Share Profile',
+  'profileShare.scanHint': 'Scan with a phone camera to save {name} as a contact.',
+  'profileShare.qrLabel': 'QR code with the contact card for {name}',
+  'profileShare.shareCard': 'Share Contact Card',
+  'profileShare.dialogTitle': 'Share contact',
+  'profileShare.failed': 'Failed to share the contact card. Please try again.',
+
+  // Events list
+  'events.pastTitle': 'Past Events',
+  'events.subtitle': 'Tap any event to view details and rate your experience',
+  'events.showingCount': 'Showing {visible} of {count, plural, one {# event} other {# events}}',
+  'events.calendarHint': 'Tap a highlighted day to see its events',
+  'events.emptyHistory': 'No past events yet',
+  'events.noMatches': 'No events match your search and filters',
+  'events.pendingSync': 'Pending sync',
+
+  'search.placeholder': 'Search by title, description or place',
+
+  // Filters
+  'filters.rated.chip': 'Rated?',
+  'filters.rated.all': 'All',
+  'filters.rated.rated': 'Rated',
+  'filters.rated.unrated': 'Not rated',
+  'filters.rating.chip': 'Rating',
+  'filters.rating.any': 'Any rating',
+  'filters.rating.high': '4-5 stars',
+  'filters.rating.mid': '3 stars',
+  'filters.rating.low': '1-2 stars',
+  'filters.date.chip': 'Date',
+  'filters.date.any': 'Any time',
+  'filters.date.month': 'Past 30 days',
+  'filters.date.halfYear': 'Past 6 months',
+  'filters.date.year': 'Past year',
+  'filters.date.older': 'Over a year ago',
+  'filters.location.chip': 'Location',
+  'filters.location.any': 'Anywhere',
+  'filters.sort.newest': 'Newest first',
+  'filters.sort.oldest': 'Oldest first',
+  'filters.sort.highestRated': 'Highest rated',
+  'filters.sort.lowestRated': 'Lowest rated',
+  'filters.sort.title': 'Title A-Z',
+  'filters.clear': 'Clear ({count})',
+  'filters.clearAll': 'Clear Filters',
+
+  // Upcoming events and RSVP
+  'upcoming.title': 'Upcoming Events',
+  'upcoming.subtitle': 'Tap an event to see details and update your RSVP',
+  'upcoming.spots': '{count} going',
+  'upcoming.spotsOfCapacity': '{count}/{capacity} going',
+
+  'rsvp.title': 'Your RSVP',
+  'rsvp.going': 'Going',
+  'rsvp.maybe': 'Maybe',
+  'rsvp.declined': 'Not Going',
+  'rsvp.waitlisted': 'Waitlisted',
+  'rsvp.none': 'No RSVP',
+  'rsvp.peopleGoing': '{count, plural, one {# person} other {# people}} going',
+  'rsvp.spotsTaken': '{taken} of {capacity} spots taken',
+  'rsvp.full': 'This event is full. New RSVPs join the waitlist.',
+  'rsvp.notSaved': 'Your RSVP wasn\'t saved. {reason}',
+  'rsvp.waitlistedTitle': 'Added to Waitlist',
+  'rsvp.waitlistedMessage': 'This event is full. We\'ll let you know if a spot opens up.',
+
+  // Event detail
+  'eventDetail.title': 'Event Details',
+  'eventDetail.loading': 'Loading event...',
+  'eventDetail.showingSaved': 'Showing saved details. {reason}',
+  'eventDetail.ratedBadge': 'Rated {rating}/5',
+  'eventDetail.location': 'Location',
+  'eventDetail.time': 'Time',
+  'eventDetail.timeWithZone': '{time} ({zone})',
+  'eventDetail.localTime': 'Your time: {dateTime} ({zone})',
+
+  'ratings.title': 'Rate Your Experience',
+  'ratings.subtitle': 'How was your experience at this event?',
+  'ratings.current': 'Your rating: {rating} out of 5 stars',
+  'ratings.thanks': 'Thank you for your feedback!',
+  'ratings.savedMessage': 'You rated this event {count, plural, one {# star} other {# stars}}!',
+  'ratings.savedOfflineMessage': 'Your rating will sync when you\'re back online.',
+  'ratings.notSaved': 'Your rating wasn\'t saved. {reason}',
+  'ratings.overviewTitle': 'What Attendees Thought',
+  'ratings.count': '{count, plural, one {# rating} other {# ratings}}',
+
+  'reviews.title': 'Your Review',
+  'reviews.placeholder': 'What stood out? What could be better?',
+  'reviews.charactersLeft': '{count, plural, one {# character left} other {# characters left}}',
+  'reviews.draftRestored': 'Restored your unsaved draft',
+  'reviews.textRequired': 'Please write a few words about the event',
+  'reviews.post': 'Post Review',
+  'reviews.update': 'Update Review',
+  'reviews.posted': 'Posted {date}',
+  'reviews.edited': 'Edited {date}',
+  'reviews.notSaved': 'Your review wasn\'t saved. {reason}',
+  'reviews.subScore.venue': 'Venue',
+  'reviews.subScore.host': 'Host',
+  'reviews.subScore.vibe': 'Vibe',
+
+  'photos.title': 'Photos',
+  'photos.empty': 'Add photos to remember this event by',
+  'photos.add': 'Add Photo',
+  'photos.addTitle': 'Add Event Photo',
+  'photos.position': '{index} of {count}',
+  'photos.captionPlaceholder': 'Add a caption',
+  'photos.setCover': 'Set as Cover',
+  'photos.isCover': 'Cover Photo',
+  'photos.delete': 'Delete Photo',
+  'photos.deleteMessage': 'This photo will be removed from this device.',
+
+  'calendar.add': 'Add to Calendar',
+  'calendar.addDialogTitle': 'Add to calendar',
+  'calendar.exportDialogTitle': 'Export events',
+  'calendar.feedName': 'Attended Events',
+  'calendar.exportEventFailed': 'Failed to export the event. Please try again.',
+  'calendar.exportFeedFailed': 'Failed to export your events. Please try again.',
+  'calendar.nothingToExportTitle': 'Nothing to Export',
+  'calendar.nothingToExportMessage': 'You have not attended any events yet.',
+
+  // Maps
+  'map.eventLocation': 'Event Location',
+  'map.approximate': 'Approximate location',
+  'map.notFound': 'We couldn\'t find this place on the map',
+
+  'directions.title': 'Get Directions',
+  'directions.chooseApp': 'Open directions in',
+  'directions.provider.apple': 'Apple Maps',
+  'directions.provider.google': 'Google Maps',
+  'directions.provider.geo': 'Other Maps App',
+  'directions.unavailableTitle': 'No Maps App Found',
+  'directions.unavailableMessage': '{provider} couldn\'t be opened. The address is:\n\n{address}',
+
+  'eventsMap.title': 'My Events Map',
+  'eventsMap.visibleCount': '{visible} of {count, plural, one {# event} other {# events}}',
+  'eventsMap.viewDetails': 'View details',
+  'eventsMap.empty': 'None of your past events have a location to show yet.',
+
+  // Edit profile
+  'editProfile.title': 'Edit Profile',
+  'editProfile.personalInfo': 'Personal Information',
+  'editProfile.name': 'Full Name',
+  'editProfile.namePlaceholder': 'Enter your full name',
+  'editProfile.occupation': 'Occupation',
+  'editProfile.occupationPlaceholder': 'What do you do for work?',
+  'editProfile.location': 'Location',
+  'editProfile.locationPlaceholder': 'Where are you based?',
+  'editProfile.bio': 'Bio',
+  'editProfile.bioPlaceholder': 'Tell us about yourself...',
+  'editProfile.contactInfo': 'Contact Information',
+  'editProfile.birthdate': 'Birthdate',
+  'editProfile.birthdatePlaceholder': 'Choose your birthdate',
+  'editProfile.clearBirthdate': 'Clear birthdate',
+  'editProfile.interests': 'Interests & Hobbies',
+  'editProfile.interestPlaceholder': 'Add an interest...',
+  'editProfile.save': 'Save Changes',
+  'editProfile.fixErrors': 'Please fix the highlighted fields.',
+  'editProfile.interestRemoved': 'Removed "{interest}"',
+  'editProfile.birthdateCleared': 'Birthdate cleared',
+  'editProfile.duplicateInterestTitle': 'Duplicate',
+  'editProfile.duplicateInterestMessage': 'This interest already exists',
+  'editProfile.saved': 'Profile updated successfully!',
+  'editProfile.savedOfflineTitle': 'Saved Offline',
+  'editProfile.savedOfflineMessage': 'Your changes will sync when you\'re back online.',
+  'editProfile.unsavedTitle': 'Discard Changes?',
+  'editProfile.unsavedMessage': 'You have unsaved changes to your profile.',
+  'editProfile.keepEditing': 'Keep Editing',
+  'editProfile.discard': 'Discard',
+  'editProfile.restoreDraftTitle': 'Restore Unsaved Changes?',
+  'editProfile.restoreDraftMessage': 'You didn\'t finish editing your profile last time. Pick up where you left off?',
+  'editProfile.restore': 'Restore',
+
+  // Device settings
+  'settings.appearance': 'Appearance',
+  'settings.language': 'Language',
+  'settings.deviceHint': 'Applies right away on this device',
+  'settings.theme.system': 'System',
+  'settings.theme.light': 'Light',
+  'settings.theme.dark': 'Dark',
+  'settings.language.system': 'System',
+};
+
+export type MessageKey = keyof typeof en;
+
+export type Messages = Record<MessageKey, string>;
@@ -0,0 +1,258 @@
+import { Messages } from './en';
+
+// Traditional Chinese as written in Hong Kong
+export const zhHant: Messages = {
+  // Common
+  'common.cancel': '取消',
+  'common.close': '關閉',
+  'common.error': '錯誤',
+  'common.success': '成功',
+  'common.goBack': '返回',
+  'common.tryAgain': '再試一次',
+  'common.retry': '重試',
+  'common.loading': '載入中…',
+  'common.saving': '儲存中…',
+  'common.undo': '復原',
+  'common.redo': '重做',
+  'common.done': '完成',
+
+  'apiErrors.network': '無法連接伺服器，請檢查網絡連線後再試。',
+  'apiErrors.timeout': '伺服器回應時間過長，請再試一次。',
+  'apiErrors.notFound': '找不到你要的內容。',
+  'apiErrors.server': '我們這邊出了點問題，請再試一次。',
+  'apiErrors.parse': '伺服器傳回了無法辨識的回應。',
+
+  'notFound.message': '這個連結在應用程式中找不到對應的頁面。',
+  'notFound.goToProfile': '前往個人資料',
+
+  'permissions.title': '需要權限',
+  'permissions.library': '需要存取相簿的權限！',
+  'permissions.camera': '需要使用相機的權限！',
+  'errors.pickImage': '無法選取相片，請再試一次。',
+  'errors.takePhoto': '無法拍照，請再試一次。',
+  'errors.saveImage': '無法儲存相片，請再試一次。',
+
+  'imagePicker.chooseOption': '請選擇',
+  'imagePicker.takePhoto': '拍照',
+  'imagePicker.chooseFromLibrary': '從相簿選取',
+
+  'validation.required': '必須填寫此欄',
+  'validation.invalidValue': '此值無效',
+  'validation.invalidDate': '請輸入有效日期，例如 1995-03-15',
+  'validation.invalidBirthdate': '請選擇 1900 年至今天之間的日期',
+  'validation.invalidEmail': '請輸入電郵地址，例如 name@example.com',
+  'validation.invalidPhone': '請輸入連國家代碼的電話號碼，例如 +852 9876 5432',
+  'validation.invalidTimeZone': '不明時區',
+  'validation.outOfRange': '必須介乎 {min} 至 {max}',
+  'validation.tooSmall': '不可少於 {min}',
+  'validation.unexpectedRating': '只有已評分的活動才可有評分',
+  'validation.duplicateId': '多於一個活動使用 ID {id}',
+
+  // Sync
+  'sync.offline': '離線',
+  'sync.pendingCount': '{count} 項待同步',
+  'sync.conflictBanner': '伺服器上的資料已更改，有 {count} 項變更未能同步。',
+  'sync.review': '查看',
+  'sync.conflictTitle': '同步衝突',
+  'sync.ratingConflict': '你為「{title}」給予的 {count} 星評分與其他地方的更改有衝突。',
+  'sync.clearedRatingConflict': '你清除「{title}」評分的操作與其他地方的更改有衝突。',
+  'sync.profileConflict': '你對個人檔案的修改與其他地方的更改有衝突。',
+  'sync.keepMine': '保留我的版本',
+  'sync.useServer': '使用伺服器版本',
+
+  // Profile
+  'profile.loading': '正在載入個人檔案…',
+  'profile.showingSaved': '正在顯示已儲存的資料。{reason}',
+  'profile.about': '關於我',
+  'profile.birthday': '生日',
+  'profile.age': '{count, plural, other {# 歲}}',
+  'profile.email': '電郵',
+  'profile.phone': '電話',
+  'profile.interests': '興趣',
+  'profile.eventsAttended': '已參加活動',
+  'profile.eventsRated': '已評分活動',
+
+  'profileImage.change': '更換相片',
+  'profileImage.changeTitle': '更換個人頭像',
+  'profileImage.updated': '已更新個人頭像！',
+  'profileImage.remove': '移除相片',
+  'profileImage.removed': '已移除個人頭像',
+
+  'profileShare.title': '分享個人資料',
+  'profileShare.scanHint': '用手機相機掃描，即可把{name}加入通訊錄。',
+  'profileShare.qrLabel': '{name}的聯絡人名片 QR 碼',
+  'profileShare.shareCard': '分享聯絡人名片',
+  'profileShare.dialogTitle': '分享聯絡人',
+  'profileShare.failed': '無法分享聯絡人名片，請再試一次。',
+
+  // Events list
+  'events.pastTitle': '過往活動',
+  'events.subtitle': '點按任何活動以查看詳情並評分',
+  'events.showingCount': '顯示 {visible} 個，共 {count, plural, other {# 個}}活動',
+  'events.calendarHint': '點按已標示的日子以查看當日活動',
+  'events.emptyHistory': '尚未有過往活動',
+  'events.noMatches': '沒有活動符合你的搜尋及篩選條件',
+  'events.pendingSync': '待同步',
+
+  'search.placeholder': '按標題、描述或地點搜尋',
+
+  // Filters
+  'filters.rated.chip': '已評分？',
+  'filters.rated.all': '全部',
+  'filters.rated.rated': '已評分',
+  'filters.rated.unrated': '未評分',
+  'filters.rating.chip': '評分',
+  'filters.rating.any': '任何評分',
+  'filters.rating.high': '4-5 星',
+  'filters.rating.mid': '3 星',
+  'filters.rating.low': '1-2 星',
+  'filters.date.chip': '日期',
+  'filters.date.any': '任何時間',
+  'filters.date.month': '過去 30 日',
+  'filters.date.halfYear': '過去 6 個月',
+  'filters.date.year': '過去一年',
+  'filters.date.older': '一年以前',
+  'filters.location.chip': '地點',
+  'filters.location.any': '任何地點',
+  'filters.sort.newest': '最新優先',
+  'filters.sort.oldest': '最舊優先',
+  'filters.sort.highestRated': '評分最高',
+  'filters.sort.lowestRated': '評分最低',
+  'filters.sort.title': '按標題排序',
+  'filters.clear': '清除 ({count})',
+  'filters.clearAll': '清除篩選',
+
+  // Upcoming events and RSVP
+  'upcoming.title': '即將舉行的活動',
+  'upcoming.subtitle': '點按活動以查看詳情及更新出席回覆',
+  'upcoming.spots': '{count} 人出席',
+  'upcoming.spotsOfCapacity': '{count}/{capacity} 人出席',
+
+  'rsvp.title': '你的出席回覆',
+  'rsvp.going': '出席',
+  'rsvp.maybe': '或會出席',
+  'rsvp.declined': '不出席',
+  'rsvp.waitlisted': '候補中',
+  'rsvp.none': '未回覆',
+  'rsvp.peopleGoing': '{count, plural, other {# 人}}出席',
+  'rsvp.spotsTaken': '已佔 {taken} 個名額，共 {capacity} 個',
+  'rsvp.full': '此活動已滿額，新的出席回覆會加入候補名單。',
+  'rsvp.notSaved': '未能儲存你的出席回覆。{reason}',
+  'rsvp.waitlistedTitle': '已加入候補名單',
+  'rsvp.waitlistedMessage': '此活動已滿額。如有空缺，我們會通知你。',
+
+  // Event detail
+  'eventDetail.title': '活動詳情',
+  'eventDetail.loading': '正在載入活動…',
+  'eventDetail.showingSaved': '正在顯示已儲存的詳情。{reason}',
+  'eventDetail.ratedBadge': '已評 {rating}/5',
+  'eventDetail.location': '地點',
+  'eventDetail.time': '時間',
+  'eventDetail.timeWithZone': '{time}（{zone}）',
+  'eventDetail.localTime': '你的當地時間：{dateTime}（{zone}）',
+
+  'ratings.title': '為你的體驗評分',
+  'ratings.subtitle': '你覺得這次活動怎麼樣？',
+  'ratings.current': '你的評分：{rating} 星（滿分 5 星）',
+  'ratings.thanks': '多謝你的意見！',
+  'ratings.savedMessage': '你為此活動評了 {count, plural, other {# 星}}！',
+  'ratings.savedOfflineMessage': '恢復連線後，你的評分便會同步。',
+  'ratings.notSaved': '未能儲存你的評分。{reason}',
+  'ratings.overviewTitle': '參加者的評價',
+  'ratings.count': '{count, plural, other {# 個評分}}',
+
+  'reviews.title': '你的評論',
+  'reviews.placeholder': '有甚麼令你印象深刻？有甚麼可以做得更好？',
+  'reviews.charactersLeft': '尚餘 {count, plural, other {# 字}}',
+  'reviews.draftRestored': '已還原你未儲存的草稿',
+  'reviews.textRequired': '請為此活動寫幾句評論',
+  'reviews.post': '發佈評論',
+  'reviews.update': '更新評論',
+  'reviews.posted': '發佈於 {date}',
+  'reviews.edited': '編輯於 {date}',
+  'reviews.notSaved': '未能儲存你的評論。{reason}',
+  'reviews.subScore.venue': '場地',
+  'reviews.subScore.host': '主辦',
+  'reviews.subScore.vibe': '氣氛',
+
+  'photos.title': '相片',
+  'photos.empty': '加入相片，留住這次活動的回憶',
+  'photos.add': '加入相片',
+  'photos.addTitle': '加入活動相片',
+  'photos.position': '第 {index} 張，共 {count} 張',
+  'photos.captionPlaceholder': '加入說明',
+  'photos.setCover': '設為封面',
+  'photos.isCover': '封面相片',
+  'photos.delete': '刪除相片',
+  'photos.deleteMessage': '此相片將從此裝置移除。',
+
+  'calendar.add': '加入日曆',
+  'calendar.addDialogTitle': '加入日曆',
+  'calendar.exportDialogTitle': '匯出活動',
+  'calendar.feedName': '已參加的活動',
+  'calendar.exportEventFailed': '無法匯出此活動，請再試一次。',
+  'calendar.exportFeedFailed': '無法匯出你的活動，請再試一次。',
+  'calendar.nothingToExportTitle': '沒有可匯出的內容',
+  'calendar.nothingToExportMessage': '你尚未參加任何活動。',
+
+  // Maps
+  'map.eventLocation': '活動地點',
+  'map.approximate': '大約位置',
+  'map.notFound': '無法在地圖上找到這個地點',
+
+  'directions.title': '取得路線',
+  'directions.chooseApp': '使用以下應用程式開啟路線',
+  'directions.provider.apple': 'Apple 地圖',
+  'directions.provider.google': 'Google 地圖',
+  'directions.provider.geo': '其他地圖應用程式',
+  'directions.unavailableTitle': '找不到地圖應用程式',
+  'directions.unavailableMessage': '無法開啟{provider}。地址是：\n\n{address}',
+
+  'eventsMap.title': '我的活動地圖',
+  'eventsMap.visibleCount': '{visible} 個，共 {count, plural, other {# 個}}活動',
+  'eventsMap.viewDetails': '查看詳情',
+  'eventsMap.empty': '你的過往活動暫時沒有可顯示的地點。',
+
+  // Edit profile
+  'editProfile.title': '編輯個人檔案',
+  'editProfile.personalInfo': '個人資料',
+  'editProfile.name': '全名',
+  'editProfile.namePlaceholder': '輸入你的全名',
+  'editProfile.occupation': '職業',
+  'editProfile.occupationPlaceholder': '你從事甚麼工作？',
+  'editProfile.location': '所在地',
+  'editProfile.locationPlaceholder': '你住在哪裏？',
+  'editProfile.bio': '簡介',
+  'editProfile.bioPlaceholder': '介紹一下你自己…',
+  'editProfile.contactInfo': '聯絡資料',
+  'editProfile.birthdate': '出生日期',
+  'editProfile.birthdatePlaceholder': '選擇你的出生日期',
+  'editProfile.clearBirthdate': '清除出生日期',
+  'editProfile.interests': '興趣與嗜好',
+  'editProfile.interestPlaceholder': '新增興趣…',
+  'editProfile.save': '儲存變更',
+  'editProfile.fixErrors': '請修正標示的欄位。',
+  'editProfile.interestRemoved': '已移除「{interest}」',
+  'editProfile.birthdateCleared': '已清除出生日期',
+  'editProfile.duplicateInterestTitle': '重複',
+  'editProfile.duplicateInterestMessage': '這個興趣已經存在',
+  'editProfile.saved': '已成功更新個人檔案！',
+  'editProfile.savedOfflineTitle': '已離線儲存',
+  'editProfile.savedOfflineMessage': '恢復連線後，你的變更便會同步。',
+  'editProfile.unsavedTitle': '捨棄變更？',
+  'editProfile.unsavedMessage': '你的個人檔案有未儲存的變更。',
+  'editProfile.keepEditing': '繼續編輯',
+  'editProfile.discard': '捨棄',
+  'editProfile.restoreDraftTitle': '還原未儲存的變更？',
+  'editProfile.restoreDraftMessage': '你上次未完成編輯個人檔案，要從上次停下的地方繼續嗎？',
+  'editProfile.restore': '還原',
+
+  // Device settings
+  'settings.appearance': '外觀',
+  'settings.language': '語言',
+  'settings.deviceHint': '即時套用於此裝置',
+  'settings.theme.system': '跟隨系統',
+  'settings.theme.light': '淺色',
+  'settings.theme.dark': '深色',
+  'settings.language.system': '跟隨系統',
+};
@@ -1,4 +1,4 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import {
   View,
   Text,
@@ -13,66 +13,329 @@ import {
 } from 'react-native';
 import { MaterialIcons } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
+import DateTimePicker, { DateTimePickerEvent } from '@react-native-community/datetimepicker';
+import { NavigationAction } from '@react-navigation/native';
 import { UserProfile } from '../types';
+import { useProfile, useProfileActions, useProfileState } from '../store/ProfileContext';
 import { AnimatedCard } from '../components/AnimatedCard';
 import { AnimatedButton } from '../components/AnimatedButton';
+import { ErrorBanner } from '../components/ErrorBanner';
+import { StatusView } from '../components/StatusView';
+import { Snackbar, useSnackbar } from '../components/Snackbar';
+import { useUndoHistory } from '../hooks/useUndoHistory';
+import { ProfileUpdate, describeApiError } from '../api';
+import { toProfileUpdate } from '../services/outbox';
+import { clearProfileDraft, loadProfileDraft, saveProfileDraft } from '../services/profileDraft';
+import { FieldError, toFieldErrorMap, validateProfileForm } from '../utils/profileValidation';
+import { formatPhoneNumber } from '../utils/contactFormat';
+import { MIN_BIRTHDATE, parseBirthdate, toBirthdateString } from '../utils/birthdate';
+import { formatDate } from '../utils/dateFormat';
 import { EditProfileScreenNavigationProp, EditProfileScreenRouteProp } from '../types/navigation';
-import { Colors, Typography, Spacing, BorderRadius, Shadows } from '../styles/theme';
+import { ColorPalette, Typography, Spacing, BorderRadius, Shadows } from '../styles/theme';
+import { useTheme, useThemedStyles } from '../styles/ThemeContext';
+import { useI18n } from '../i18n/I18nContext';
+import { LOCALES, SUPPORTED_LANGUAGES } from '../i18n/locales';
+import { MessageKey } from '../i18n/messages/en';
+import { LanguagePreference, ThemePreference } from '../services/settingsStorage';
 
 interface EditProfileScreenProps {
   navigation: EditProfileScreenNavigationProp;
   route: EditProfileScreenRouteProp;
 }
 
-export const EditProfileScreen: React.FC<EditProfileScreenProps> = ({
-  navigation,
-  route,
-}) => {
-  const { profile, onUpdateProfile } = route.params;
-  const [editedProfile, setEditedProfile] = useState<UserProfile>(profile);
+interface SettingOption<T> {
+  value: T;
+  label: string;
+  icon?: keyof typeof MaterialIcons.glyphMap;
+}
+
+const THEME_OPTIONS: {
+  value: ThemePreference;
+  label: MessageKey;
+  icon: keyof typeof MaterialIcons.glyphMap;
+}[] = [
+  { value: 'system', label: 'settings.theme.system', icon: 'brightness-auto' },
+  { value: 'light', label: 'settings.theme.light', icon: 'light-mode' },
+  { value: 'dark', label: 'settings.theme.dark', icon: 'dark-mode' },
+];
+
+// Where the birthdate picker opens when no birthdate is set yet
+const PICKER_START_DATE = new Date(2000, 0, 1);
+
+// Top-level form field an error belongs to, e.g. "interests" for "interests.2"
+const toFormField = (error: FieldError) => error.path.split('.')[0];
+
+const DRAFT_SAVE_DELAY_MS = 500;
+
+// A cleared text field is stored as '' but may have started out missing
+const hasChanges = (edited: ProfileUpdate, original: ProfileUpdate) => {
+  const left = edited as Record<string, unknown>;
+  const right = original as Record<string, unknown>;
+  const keys = new Set([...Object.keys(left), ...Object.keys(right)]);
+  return [...keys].some(key => JSON.stringify(left[key] ?? '') !== JSON.stringify(right[key] ?? ''));
+};
+
+// A link can open the form before the profile has ever been fetched, e.g.
+// on a first launch while offline
+export const EditProfileScreen: React.FC<EditProfileScreenProps> = (props) => {
+  const { t } = useI18n();
+  const { profile, isSyncing, error } = useProfileState();
+  const { refreshProfile } = useProfileActions();
+
+  if (!profile) {
+    return error && !isSyncing ? (
+      <StatusView
+        icon="cloud-off"
+        message={t(describeApiError(error))}
+        actionTitle={t('common.tryAgain')}
+        onAction={refreshProfile}
+      />
+    ) : (
+      <StatusView loading message={t('profile.loading')} />
+    );
+  }
+
+  return <EditProfileForm {...props} />;
+};
+
+const EditProfileForm: React.FC<EditProfileScreenProps> = ({ navigation }) => {
+  const { colors, scheme, preference: themePreference, setPreference: setThemePreference } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t, locale, language, setLanguage } = useI18n();
+
+  const profile = useProfile();
+  const { updateProfile } = useProfileActions();
+  // Every edit is a step that can be undone and redone until the form closes
+  const {
+    value: editedProfile,
+    set: setEditedProfile,
+    undo,
+    redo,
+    checkpoint,
+    canUndo,
+    canRedo,
+  } = useUndoHistory<UserProfile>(profile);
+  const { snackbar, showSnackbar, hideSnackbar } = useSnackbar();
   const [newInterest, setNewInterest] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [showBirthdatePicker, setShowBirthdatePicker] = useState(false);
+  // Autosave waits until any earlier draft has been restored or dropped
+  const [isDraftChecked, setIsDraftChecked] = useState(false);
+  // Set once the edits are saved or discarded so leaving isn't blocked
+  const canLeaveRef = useRef(false);
 
-  const handleSave = useCallback(() => {
-    if (!editedProfile.name.trim()) {
-      Alert.alert('Error', 'Name is required');
+  const isDirty = useMemo(
+    () => hasChanges(toProfileUpdate(editedProfile), toProfileUpdate(profile)),
+    [editedProfile, profile]
+  );
+
+  // The form is checked on every edit, but a field's errors only show once
+  // it has been left. Fields that were already invalid show straight away.
+  const validation = useMemo(() => validateProfileForm(editedProfile), [editedProfile]);
+  const [touchedFields, setTouchedFields] = useState<Set<string>>(() => {
+    const initial = validateProfileForm(profile);
+    return new Set(initial.ok ? [] : initial.errors.map(toFormField));
+  });
+  const fieldErrors = useMemo(() => toFieldErrorMap(
+    (validation.ok ? [] : validation.errors)
+      .map(error => ({ ...error, path: toFormField(error) }))
+      .filter(error => touchedFields.has(error.path))
+  ), [validation, touchedFields]);
+  const hasVisibleErrors = Object.keys(fieldErrors).length > 0;
+
+  // Leaving a field also ends its undo step, so the next edit there is a new one
+  const touchFields = useCallback((fields: string[]) => {
+    setTouchedFields(prev => new Set([...prev, ...fields]));
+    checkpoint();
+  }, [checkpoint]);
+
+  // Typing in one field is a single undo step; a pending "Undo" snackbar
+  // would now undo this edit instead, so it goes away
+  const updateField = useCallback(<K extends keyof UserProfile>(field: K, value: UserProfile[K]) => {
+    setEditedProfile(prev => ({ ...prev, [field]: value }), field);
+    hideSnackbar();
+  }, [setEditedProfile, hideSnackbar]);
+
+  // Each interest added or removed is an undo step of its own
+  const updateInterests = useCallback((interests: string[]) => {
+    setEditedProfile(prev => ({ ...prev, interests }));
+    touchFields(['interests']);
+    hideSnackbar();
+  }, [setEditedProfile, touchFields, hideSnackbar]);
+
+  const handleEmailBlur = useCallback(() => {
+    updateField('email', editedProfile.email?.trim());
+    touchFields(['email']);
+  }, [editedProfile.email, updateField, touchFields]);
+
+  // Valid numbers are tidied, e.g. "+85298765432" becomes "+852 9876 5432"
+  const handlePhoneBlur = useCallback(() => {
+    const phone = formatPhoneNumber(editedProfile.phone ?? '');
+    if (phone) updateField('phone', phone);
+    touchFields(['phone']);
+  }, [editedProfile.phone, updateField, touchFields]);
+
+  const handleBirthdateChange = useCallback((event: DateTimePickerEvent, date?: Date) => {
+    // Android closes its dialog by itself; the iOS spinner stays until Done
+    if (Platform.OS === 'android') setShowBirthdatePicker(false);
+    if (event.type === 'set' && date) {
+      updateField('birthdate', toBirthdateString(date));
+      touchFields(['birthdate']);
+    }
+  }, [updateField, touchFields]);
+
+  // Offer to bring back edits left behind when the app was closed mid-edit
+  useEffect(() => {
+    loadProfileDraft().then(draft => {
+      if (!draft || !hasChanges(draft, toProfileUpdate(profile))) {
+        setIsDraftChecked(true);
+        return;
+      }
+      Alert.alert(
+        t('editProfile.restoreDraftTitle'),
+        t('editProfile.restoreDraftMessage'),
+        [
+          {
+            text: t('editProfile.discard'),
+            style: 'destructive',
+            onPress: () => {
+              clearProfileDraft();
+              setIsDraftChecked(true);
+            },
+          },
+          {
+            text: t('editProfile.restore'),
+            onPress: () => {
+              setEditedProfile(prev => ({ ...prev, ...draft }));
+              setTouchedFields(new Set(Object.keys(draft)));
+              setIsDraftChecked(true);
+            },
+          },
+        ],
+        { cancelable: false }
+      );
+    });
+    // Only checked when the screen opens
+  }, []);
+
+  useEffect(() => {
+    if (!isDraftChecked) return;
+    const timer = setTimeout(() => {
+      if (isDirty) {
+        saveProfileDraft(toProfileUpdate(editedProfile));
+      } else {
+        clearProfileDraft();
+      }
+    }, DRAFT_SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [editedProfile, isDirty, isDraftChecked]);
+
+  // `leaveAction` is the navigation that was held back by the unsaved-changes
+  // prompt; without it a successful save goes back
+  const saveChanges = useCallback(async (leaveAction?: NavigationAction) => {
+    setIsSaving(true);
+    setSaveError(null);
+    const result = await updateProfile(editedProfile);
+    setIsSaving(false);
+
+    if (result.status === 'invalid') {
+      touchFields(result.errors.map(toFormField));
       return;
     }
-    if (!editedProfile.bio.trim()) {
-      Alert.alert('Error', 'Bio is required');
+    if (result.status === 'failed') {
+      setSaveError(t(describeApiError(result.error)));
       return;
     }
-    
-    onUpdateProfile(editedProfile);
-    navigation.goBack();
-    Alert.alert('Success', 'Profile updated successfully!');
-  }, [editedProfile, onUpdateProfile, navigation]);
+
+    canLeaveRef.current = true;
+    clearProfileDraft();
+    if (leaveAction) {
+      navigation.dispatch(leaveAction);
+    } else {
+      navigation.goBack();
+    }
+    if (result.status === 'queued') {
+      Alert.alert(t('editProfile.savedOfflineTitle'), t('editProfile.savedOfflineMessage'));
+    } else {
+      Alert.alert(t('common.success'), t('editProfile.saved'));
+    }
+  }, [editedProfile, updateProfile, touchFields, navigation, t]);
+
+  const handleSave = useCallback(() => saveChanges(), [saveChanges]);
+
+  // Covers the header back button, the hardware back button and swipe back
+  useEffect(() => navigation.addListener('beforeRemove', (event) => {
+    if (canLeaveRef.current || !isDirty) return;
+    event.preventDefault();
+
+    const leave = () => {
+      canLeaveRef.current = true;
+      clearProfileDraft();
+      navigation.dispatch(event.data.action);
+    };
+    Alert.alert(t('editProfile.unsavedTitle'), t('editProfile.unsavedMessage'), [
+      { text: t('editProfile.keepEditing'), style: 'cancel' },
+      { text: t('editProfile.discard'), style: 'destructive', onPress: leave },
+      // Invalid edits can't be saved, so only offer it when they can
+      ...(validation.ok
+        ? [{ text: t('editProfile.save'), onPress: () => { saveChanges(event.data.action); } }]
+        : []),
+    ]);
+  }), [navigation, isDirty, validation.ok, saveChanges, t]);
 
   const handleAddInterest = useCallback(() => {
     if (!newInterest.trim()) return;
     
     const interests = editedProfile.interests || [];
     if (interests.includes(newInterest.trim())) {
-      Alert.alert('Duplicate', 'This interest already exists');
+      Alert.alert(t('editProfile.duplicateInterestTitle'), t('editProfile.duplicateInterestMessage'));
       return;
     }
     
-    setEditedProfile(prev => ({
-      ...prev,
-      interests: [...interests, newInterest.trim()],
-    }));
+    updateInterests([...interests, newInterest.trim()]);
     setNewInterest('');
-  }, [newInterest, editedProfile.interests]);
+  }, [newInterest, editedProfile.interests, updateInterests, t]);
 
   const handleRemoveInterest = useCallback((index: number) => {
-    setEditedProfile(prev => ({
-      ...prev,
-      interests: prev.interests?.filter((_, i) => i !== index) || [],
-    }));
-  }, []);
+    const interest = editedProfile.interests[index];
+    updateInterests(editedProfile.interests.filter((_, i) => i !== index));
+    showSnackbar({
+      message: t('editProfile.interestRemoved', { interest }),
+      actionTitle: t('common.undo'),
+      onAction: undo,
+    });
+  }, [editedProfile.interests, updateInterests, showSnackbar, undo, t]);
+
+  const handleClearBirthdate = useCallback(() => {
+    updateField('birthdate', '');
+    checkpoint();
+    showSnackbar({
+      message: t('editProfile.birthdateCleared'),
+      actionTitle: t('common.undo'),
+      onAction: undo,
+    });
+  }, [updateField, checkpoint, showSnackbar, undo, t]);
+
+  const handleUndo = useCallback(() => {
+    hideSnackbar();
+    undo();
+  }, [hideSnackbar, undo]);
+
+  const handleRedo = useCallback(() => {
+    hideSnackbar();
+    redo();
+  }, [hideSnackbar, redo]);
+
+  const renderFieldError = (field: keyof UserProfile) => {
+    const error = fieldErrors[field];
+    if (!error) return null;
+    return <Text style={styles.fieldError}>{t(error.message, error.values)}</Text>;
+  };
 
   const renderHeader = () => (
     <LinearGradient
-      colors={Colors.gradients.primary as [string, string]}
+      colors={colors.gradients.primary as [string, string]}
       style={styles.headerGradient}
       start={{ x: 0, y: 0 }}
       end={{ x: 1, y: 1 }}
@@ -83,12 +346,41 @@ export const EditProfileScreen: React.FC<EditProfileScreenProps> = ({
             onPress={navigation.goBack}
             style={styles.backButton}
           >
-            <MaterialIcons name="arrow-back" size={24} color={Colors.text.white} />
+            <MaterialIcons
+              name="arrow-back"
+              size={24}
+              color={colors.text.white}
+            />
           </TouchableOpacity>
           
-          <Text style={styles.headerTitle}>Edit Profile</Text>
+          <Text style={styles.headerTitle}>{t('editProfile.title')}</Text>
           
-          <View style={styles.headerSpacer} />
+          <View style={styles.headerActions}>
+            <TouchableOpacity
+              onPress={handleUndo}
+              disabled={!canUndo}
+              accessibilityLabel={t('common.undo')}
+              style={[styles.headerActionButton, !canUndo && styles.headerActionDisabled]}
+            >
+              <MaterialIcons
+                name="undo"
+                size={22}
+                color={colors.text.white}
+              />
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={handleRedo}
+              disabled={!canRedo}
+              accessibilityLabel={t('common.redo')}
+              style={[styles.headerActionButton, !canRedo && styles.headerActionDisabled]}
+            >
+              <MaterialIcons
+                name="redo"
+                size={22}
+                color={colors.text.white}
+              />
+            </TouchableOpacity>
+          </View>
         </View>
       </SafeAreaView>
     </LinearGradient>
@@ -97,112 +389,160 @@ export const EditProfileScreen: React.FC<EditProfileScreenProps> = ({
   const renderPersonalInfo = () => (
     <AnimatedCard style={styles.sectionCard}>
       <View style={styles.sectionHeader}>
-        <MaterialIcons name="person" size={24} color={Colors.primary} />
-        <Text style={styles.sectionTitle}>Personal Information</Text>
+        <MaterialIcons name="person" size={24} color={colors.primary} />
+        <Text style={styles.sectionTitle}>{t('editProfile.personalInfo')}</Text>
       </View>
 
       <View style={styles.inputGroup}>
-        <Text style={styles.inputLabel}>Full Name *</Text>
+        <Text style={styles.inputLabel}>{t('editProfile.name')} *</Text>
         <TextInput
-          style={styles.textInput}
-          placeholder="Enter your full name"
-          placeholderTextColor={Colors.text.tertiary}
+          style={[styles.textInput, fieldErrors.name && styles.inputInvalid]}
+          placeholder={t('editProfile.namePlaceholder')}
+          placeholderTextColor={colors.text.tertiary}
           value={editedProfile.name}
-          onChangeText={(text) => setEditedProfile(prev => ({ ...prev, name: text }))}
+          onChangeText={(text) => updateField('name', text)}
+          onBlur={() => touchFields(['name'])}
         />
+        {renderFieldError('name')}
       </View>
 
       <View style={styles.inputGroup}>
-        <Text style={styles.inputLabel}>Occupation</Text>
+        <Text style={styles.inputLabel}>{t('editProfile.occupation')}</Text>
         <TextInput
-          style={styles.textInput}
-          placeholder="What do you do for work?"
-          placeholderTextColor={Colors.text.tertiary}
+          style={[styles.textInput, fieldErrors.occupation && styles.inputInvalid]}
+          placeholder={t('editProfile.occupationPlaceholder')}
+          placeholderTextColor={colors.text.tertiary}
           value={editedProfile.occupation || ''}
-          onChangeText={(text) => setEditedProfile(prev => ({ ...prev, occupation: text }))}
+          onChangeText={(text) => updateField('occupation', text)}
+          onBlur={() => touchFields(['occupation'])}
         />
+        {renderFieldError('occupation')}
       </View>
 
       <View style={styles.inputGroup}>
-        <Text style={styles.inputLabel}>Location</Text>
-        <View style={styles.inputWithIcon}>
-          <MaterialIcons name="location-on" size={20} color={Colors.text.tertiary} />
+        <Text style={styles.inputLabel}>{t('editProfile.location')}</Text>
+        <View style={[styles.inputWithIcon, fieldErrors.location && styles.inputInvalid]}>
+          <MaterialIcons name="location-on" size={20} color={colors.text.tertiary} />
           <TextInput
             style={styles.textInputWithIcon}
-            placeholder="Where are you based?"
-            placeholderTextColor={Colors.text.tertiary}
+            placeholder={t('editProfile.locationPlaceholder')}
+            placeholderTextColor={colors.text.tertiary}
             value={editedProfile.location || ''}
-            onChangeText={(text) => setEditedProfile(prev => ({ ...prev, location: text }))}
+            onChangeText={(text) => updateField('location', text)}
+            onBlur={() => touchFields(['location'])}
           />
         </View>
+        {renderFieldError('location')}
       </View>
 
       <View style={styles.inputGroup}>
-        <Text style={styles.inputLabel}>Bio *</Text>
+        <Text style={styles.inputLabel}>{t('editProfile.bio')} *</Text>
         <TextInput
-          style={[styles.textInput, styles.bioInput]}
-          placeholder="Tell us about yourself..."
-          placeholderTextColor={Colors.text.tertiary}
+          style={[styles.textInput, styles.bioInput, fieldErrors.bio && styles.inputInvalid]}
+          placeholder={t('editProfile.bioPlaceholder')}
+          placeholderTextColor={colors.text.tertiary}
           value={editedProfile.bio}
-          onChangeText={(text) => setEditedProfile(prev => ({ ...prev, bio: text }))}
+          onChangeText={(text) => updateField('bio', text)}
+          onBlur={() => touchFields(['bio'])}
           multiline
           numberOfLines={4}
           textAlignVertical="top"
         />
+        {renderFieldError('bio')}
       </View>
     </AnimatedCard>
   );
 
+  const birthdate = editedProfile.birthdate ? parseBirthdate(editedProfile.birthdate) : null;
+
   const renderContactInfo = () => (
     <AnimatedCard style={styles.sectionCard}>
       <View style={styles.sectionHeader}>
-        <MaterialIcons name="contact-mail" size={24} color={Colors.secondary} />
-        <Text style={styles.sectionTitle}>Contact Information</Text>
+        <MaterialIcons name="contact-mail" size={24} color={colors.secondary} />
+        <Text style={styles.sectionTitle}>{t('editProfile.contactInfo')}</Text>
       </View>
 
       <View style={styles.inputGroup}>
-        <Text style={styles.inputLabel}>Email</Text>
-        <View style={styles.inputWithIcon}>
-          <MaterialIcons name="email" size={20} color={Colors.text.tertiary} />
+        <Text style={styles.inputLabel}>{t('profile.email')}</Text>
+        <View style={[styles.inputWithIcon, fieldErrors.email && styles.inputInvalid]}>
+          <MaterialIcons name="email" size={20} color={colors.text.tertiary} />
           <TextInput
             style={styles.textInputWithIcon}
             placeholder="your.email@example.com"
-            placeholderTextColor={Colors.text.tertiary}
+            placeholderTextColor={colors.text.tertiary}
             value={editedProfile.email || ''}
-            onChangeText={(text) => setEditedProfile(prev => ({ ...prev, email: text }))}
+            onChangeText={(text) => updateField('email', text)}
+            onBlur={handleEmailBlur}
             keyboardType="email-address"
             autoCapitalize="none"
           />
         </View>
+        {renderFieldError('email')}
       </View>
 
       <View style={styles.inputGroup}>
-        <Text style={styles.inputLabel}>Phone</Text>
-        <View style={styles.inputWithIcon}>
-          <MaterialIcons name="phone" size={20} color={Colors.text.tertiary} />
+        <Text style={styles.inputLabel}>{t('profile.phone')}</Text>
+        <View style={[styles.inputWithIcon, fieldErrors.phone && styles.inputInvalid]}>
+          <MaterialIcons name="phone" size={20} color={colors.text.tertiary} />
           <TextInput
             style={styles.textInputWithIcon}
-            placeholder="+1 (555) 123-4567"
-            placeholderTextColor={Colors.text.tertiary}
+            placeholder="+852 9876 5432"
+            placeholderTextColor={colors.text.tertiary}
             value={editedProfile.phone || ''}
-            onChangeText={(text) => setEditedProfile(prev => ({ ...prev, phone: text }))}
+            onChangeText={(text) => updateField('phone', text)}
+            onBlur={handlePhoneBlur}
             keyboardType="phone-pad"
           />
         </View>
+        {renderFieldError('phone')}
       </View>
 
       <View style={styles.inputGroup}>
-        <Text style={styles.inputLabel}>Birthdate</Text>
-        <View style={styles.inputWithIcon}>
-          <MaterialIcons name="cake" size={20} color={Colors.text.tertiary} />
-          <TextInput
-            style={styles.textInputWithIcon}
-            placeholder="YYYY-MM-DD"
-            placeholderTextColor={Colors.text.tertiary}
-            value={editedProfile.birthdate || ''}
-            onChangeText={(text) => setEditedProfile(prev => ({ ...prev, birthdate: text }))}
-          />
-        </View>
+        <Text style={styles.inputLabel}>{t('editProfile.birthdate')}</Text>
+        <TouchableOpacity
+          onPress={() => setShowBirthdatePicker(true)}
+          style={[styles.inputWithIcon, fieldErrors.birthdate && styles.inputInvalid]}
+        >
+          <MaterialIcons name="cake" size={20} color={colors.text.tertiary} />
+          <Text style={[styles.pickerText, !editedProfile.birthdate && styles.pickerPlaceholder]}>
+            {birthdate
+              ? formatDate(birthdate, 'longDate', locale)
+              : editedProfile.birthdate || t('editProfile.birthdatePlaceholder')}
+          </Text>
+          {!!editedProfile.birthdate && (
+            <TouchableOpacity
+              onPress={handleClearBirthdate}
+              accessibilityLabel={t('editProfile.clearBirthdate')}
+              style={styles.clearButton}
+            >
+              <MaterialIcons name="close" size={18} color={colors.text.tertiary} />
+            </TouchableOpacity>
+          )}
+        </TouchableOpacity>
+        {renderFieldError('birthdate')}
+
+        {showBirthdatePicker && (
+          <>
+            <DateTimePicker
+              value={birthdate ?? PICKER_START_DATE}
+              mode="date"
+              display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+              minimumDate={MIN_BIRTHDATE}
+              maximumDate={new Date()}
+              onChange={handleBirthdateChange}
+              locale={locale.intlTag}
+              themeVariant={scheme}
+            />
+            {Platform.OS === 'ios' && (
+              <TouchableOpacity
+                onPress={() => setShowBirthdatePicker(false)}
+                style={styles.pickerDoneButton}
+              >
+                <Text style={styles.pickerDoneText}>{t('common.done')}</Text>
+              </TouchableOpacity>
+            )}
+          </>
+        )}
       </View>
     </AnimatedCard>
   );
@@ -210,22 +550,22 @@ export const EditProfileScreen: React.FC<EditProfileScreenProps> = ({
   const renderInterests = () => (
     <AnimatedCard style={styles.sectionCard}>
       <View style={styles.sectionHeader}>
-        <MaterialIcons name="favorite" size={24} color={Colors.accent} />
-        <Text style={styles.sectionTitle}>Interests & Hobbies</Text>
+        <MaterialIcons name="favorite" size={24} color={colors.accent} />
+        <Text style={styles.sectionTitle}>{t('editProfile.interests')}</Text>
       </View>
 
       <View style={styles.interestInputContainer}>
         <TextInput
           style={styles.interestInput}
-          placeholder="Add an interest..."
-          placeholderTextColor={Colors.text.tertiary}
+          placeholder={t('editProfile.interestPlaceholder')}
+          placeholderTextColor={colors.text.tertiary}
           value={newInterest}
           onChangeText={setNewInterest}
           onSubmitEditing={handleAddInterest}
           returnKeyType="done"
         />
         <TouchableOpacity onPress={handleAddInterest} style={styles.addInterestButton}>
-          <MaterialIcons name="add" size={20} color={Colors.text.white} />
+          <MaterialIcons name="add" size={20} color={colors.text.white} />
         </TouchableOpacity>
       </View>
 
@@ -237,22 +577,92 @@ export const EditProfileScreen: React.FC<EditProfileScreenProps> = ({
               onPress={() => handleRemoveInterest(index)}
               style={styles.removeInterestButton}
             >
-              <MaterialIcons name="close" size={16} color={Colors.text.secondary} />
+              <MaterialIcons name="close" size={16} color={colors.text.secondary} />
             </TouchableOpacity>
           </View>
         ))}
       </View>
+      {renderFieldError('interests')}
+    </AnimatedCard>
+  );
+
+  const renderSettingOptions = <T extends string>(
+    options: SettingOption<T>[],
+    selected: T,
+    onSelect: (value: T) => void
+  ) => (
+    <View style={styles.settingOptions}>
+      {options.map(({ value, label, icon }) => {
+        const isSelected = selected === value;
+        return (
+          <TouchableOpacity
+            key={value}
+            onPress={() => onSelect(value)}
+            style={[styles.settingOption, isSelected && styles.settingOptionSelected]}
+          >
+            {icon && (
+              <MaterialIcons
+                name={icon}
+                size={20}
+                color={isSelected ? colors.text.white : colors.text.secondary}
+              />
+            )}
+            <Text style={[styles.settingOptionText, isSelected && styles.settingOptionTextSelected]}>
+              {label}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  const renderAppearance = () => (
+    <AnimatedCard style={styles.sectionCard}>
+      <View style={styles.sectionHeader}>
+        <MaterialIcons name="palette" size={24} color={colors.primary} />
+        <Text style={styles.sectionTitle}>{t('settings.appearance')}</Text>
+      </View>
+      <Text style={styles.sectionHint}>{t('settings.deviceHint')}</Text>
+
+      {renderSettingOptions(
+        THEME_OPTIONS.map(option => ({ ...option, label: t(option.label) })),
+        themePreference,
+        setThemePreference
+      )}
+    </AnimatedCard>
+  );
+
+  const renderLanguage = () => (
+    <AnimatedCard style={styles.sectionCard}>
+      <View style={styles.sectionHeader}>
+        <MaterialIcons name="translate" size={24} color={colors.secondary} />
+        <Text style={styles.sectionTitle}>{t('settings.language')}</Text>
+      </View>
+      <Text style={styles.sectionHint}>{t('settings.deviceHint')}</Text>
+
+      {renderSettingOptions<LanguagePreference>(
+        [
+          { value: 'system', label: t('settings.language.system') },
+          ...SUPPORTED_LANGUAGES.map(code => ({ value: code, label: LOCALES[code].nativeName })),
+        ],
+        language,
+        setLanguage
+      )}
     </AnimatedCard>
   );
 
   const renderSaveButton = () => (
     <View style={styles.saveButtonContainer}>
+      {hasVisibleErrors && <ErrorBanner message={t('editProfile.fixErrors')} />}
+      {saveError && <ErrorBanner message={saveError} onRetry={handleSave} />}
       <AnimatedButton
-        title="Save Changes"
+        title={t('editProfile.save')}
         onPress={handleSave}
         variant="primary"
         size="lg"
         icon="save"
+        loading={isSaving}
+        disabled={!validation.ok}
         style={styles.saveButton}
       />
     </View>
@@ -276,20 +686,24 @@ export const EditProfileScreen: React.FC<EditProfileScreenProps> = ({
             {renderPersonalInfo()}
             {renderContactInfo()}
             {renderInterests()}
+            {renderAppearance()}
+            {renderLanguage()}
             {renderSaveButton()}
             
             <View style={styles.bottomSpacer} />
           </View>
         </ScrollView>
       </KeyboardAvoidingView>
+
+      <Snackbar snackbar={snackbar} onDismiss={hideSnackbar} />
     </View>
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (colors: ColorPalette) => StyleSheet.create({
   container: {
     flex: 1,
-    backgroundColor: Colors.background.secondary,
+    backgroundColor: colors.background.secondary,
   },
   headerGradient: {
     paddingBottom: Spacing.base,
@@ -312,11 +726,19 @@ const styles = StyleSheet.create({
     flex: 1,
     fontSize: Typography.size.xl,
     fontWeight: Typography.weight.bold as any,
-    color: Colors.text.white,
+    color: colors.text.white,
     textAlign: 'center',
   },
-  headerSpacer: {
-    width: 48, // Same width as back button
+  headerActions: {
+    flexDirection: 'row',
+    gap: Spacing.xs,
+  },
+  headerActionButton: {
+    padding: Spacing.sm,
+    borderRadius: BorderRadius.full,
+  },
+  headerActionDisabled: {
+    opacity: 0.4,
   },
   keyboardAvoid: {
     flex: 1,
@@ -342,27 +764,58 @@ const styles = StyleSheet.create({
   sectionTitle: {
     fontSize: Typography.size.xl,
     fontWeight: Typography.weight.bold as any,
-    color: Colors.text.primary,
+    color: colors.text.primary,
     marginLeft: Spacing.md,
   },
+  sectionHint: {
+    fontSize: Typography.size.sm,
+    color: colors.text.secondary,
+    marginTop: -Spacing.md,
+    marginBottom: Spacing.base,
+  },
+  settingOptions: {
+    flexDirection: 'row',
+    gap: Spacing.sm,
+  },
+  settingOption: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: Spacing.md,
+    borderRadius: BorderRadius.md,
+    borderWidth: 2,
+    borderColor: colors.border.light,
+    gap: Spacing.xs,
+  },
+  settingOptionSelected: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  settingOptionText: {
+    fontSize: Typography.size.sm,
+    fontWeight: Typography.weight.medium as any,
+    color: colors.text.secondary,
+  },
+  settingOptionTextSelected: {
+    color: colors.text.white,
+  },
   inputGroup: {
     marginBottom: Spacing.lg,
   },
   inputLabel: {
     fontSize: Typography.size.base,
     fontWeight: Typography.weight.semibold as any,
-    color: Colors.text.primary,
+    color: colors.text.primary,
     marginBottom: Spacing.sm,
   },
   textInput: {
-    backgroundColor: Colors.background.primary,
+    backgroundColor: colors.background.primary,
     borderWidth: 2,
-    borderColor: Colors.border.light,
+    borderColor: colors.border.light,
     borderRadius: BorderRadius.md,
     paddingHorizontal: Spacing.base,
     paddingVertical: Spacing.md,
     fontSize: Typography.size.base,
-    color: Colors.text.primary,
+    color: colors.text.primary,
     minHeight: 48,
   },
   bioInput: {
@@ -372,19 +825,50 @@ const styles = StyleSheet.create({
   inputWithIcon: {
     flexDirection: 'row',
     alignItems: 'center',
-    backgroundColor: Colors.background.primary,
+    backgroundColor: colors.background.primary,
     borderWidth: 2,
-    borderColor: Colors.border.light,
+    borderColor: colors.border.light,
     borderRadius: BorderRadius.md,
     paddingHorizontal: Spacing.base,
     minHeight: 48,
   },
+  inputInvalid: {
+    borderColor: colors.error,
+  },
+  fieldError: {
+    fontSize: Typography.size.sm,
+    color: colors.error,
+    marginTop: Spacing.xs,
+  },
   textInputWithIcon: {
     flex: 1,
     paddingVertical: Spacing.md,
     paddingLeft: Spacing.sm,
     fontSize: Typography.size.base,
-    color: Colors.text.primary,
+    color: colors.text.primary,
+  },
+  pickerText: {
+    flex: 1,
+    paddingVertical: Spacing.md,
+    paddingLeft: Spacing.sm,
+    fontSize: Typography.size.base,
+    color: colors.text.primary,
+  },
+  pickerPlaceholder: {
+    color: colors.text.tertiary,
+  },
+  clearButton: {
+    padding: Spacing.xs,
+  },
+  pickerDoneButton: {
+    alignSelf: 'flex-end',
+    paddingVertical: Spacing.sm,
+    paddingHorizontal: Spacing.base,
+  },
+  pickerDoneText: {
+    fontSize: Typography.size.base,
+    fontWeight: Typography.weight.semibold as any,
+    color: colors.primary,
   },
   interestInputContainer: {
     flexDirection: 'row',
@@ -393,19 +877,19 @@ const styles = StyleSheet.create({
   },
   interestInput: {
     flex: 1,
-    backgroundColor: Colors.background.primary,
+    backgroundColor: colors.background.primary,
     borderWidth: 2,
-    borderColor: Colors.border.light,
+    borderColor: colors.border.light,
     borderRadius: BorderRadius.md,
     paddingHorizontal: Spacing.base,
     paddingVertical: Spacing.md,
     fontSize: Typography.size.base,
-    color: Colors.text.primary,
+    color: colors.text.primary,
     marginRight: Spacing.sm,
     minHeight: 48,
   },
   addInterestButton: {
-    backgroundColor: Colors.primary,
+    backgroundColor: colors.primary,
     width: 48,
     height: 48,
     borderRadius: BorderRadius.md,
@@ -421,13 +905,13 @@ const styles = StyleSheet.create({
   interestTag: {
     flexDirection: 'row',
     alignItems: 'center',
-    backgroundColor: Colors.primaryUltraLight,
+    backgroundColor: colors.primaryUltraLight,
     borderRadius: BorderRadius.lg,
     paddingHorizontal: Spacing.base,
     paddingVertical: Spacing.sm,
   },
   interestText: {
-    color: Colors.primary,
+    color: colors.primary,
     fontSize: Typography.size.sm,
     fontWeight: Typography.weight.medium as any,
     marginRight: Spacing.xs,
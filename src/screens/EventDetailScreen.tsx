@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import {
   View,
   Text,
@@ -7,20 +7,45 @@ import {
   ScrollView,
   TouchableOpacity,
   Alert,
-  Animated,
+  Image,
+  Linking,
+  Platform,
+  ActivityIndicator,
 } from 'react-native';
 import MapView, { Marker } from 'react-native-maps';
 import { MaterialIcons } from '@expo/vector-icons';
-import { format } from 'date-fns';
 import { LinearGradient } from 'expo-linear-gradient';
-import { Event } from '../types';
+import { Event, RsvpStatus, ReviewSubScores, UpcomingEvent } from '../types';
+import { useEvent, useUpcomingEvent, useProfileActions } from '../store/ProfileContext';
 import { AnimatedCard } from '../components/AnimatedCard';
 import { AnimatedButton } from '../components/AnimatedButton';
+import { StatusView } from '../components/StatusView';
+import { ErrorBanner } from '../components/ErrorBanner';
+import { Snackbar, useSnackbar } from '../components/Snackbar';
+import { RsvpBadge, getRsvpDisplay } from '../components/RsvpBadge';
+import { ReviewComposer, SUB_SCORE_LABELS } from '../components/ReviewComposer';
+import { RatingDistribution } from '../components/RatingDistribution';
+import { PhotoViewerModal } from '../components/PhotoViewerModal';
+import { ApiError, ReviewInput, describeApiError } from '../api';
+import { formatDate, formatDeviceLocalTime, formatEventDate } from '../utils/dateFormat';
+import { shareEventToCalendar } from '../services/calendarExport';
+import { saveEventPhoto } from '../services/eventPhotoStorage';
+import { getCoverPhoto } from '../utils/events';
+import { useEventLocation } from '../hooks/useEventLocation';
+import { useImagePicker } from '../hooks/useImagePicker';
+import {
+  MapsProvider,
+  MAPS_PROVIDER_LABELS,
+  buildDirectionsUrl,
+  getMapsProviders,
+} from '../utils/directions';
 import { 
   EventDetailScreenNavigationProp, 
   EventDetailScreenRouteProp 
 } from '../types/navigation';
-import { Colors, Typography, Spacing, BorderRadius, Shadows } from '../styles/theme';
+import { ColorPalette, Typography, Spacing, BorderRadius, Shadows } from '../styles/theme';
+import { useTheme, useThemedStyles } from '../styles/ThemeContext';
+import { useI18n } from '../i18n/I18nContext';
 
 interface EventDetailScreenProps {
   navigation: EventDetailScreenNavigationProp;
@@ -31,47 +56,208 @@ export const EventDetailScreen: React.FC<EventDetailScreenProps> = ({
   route,
   navigation,
 }) => {
-  const { event } = route.params;
-  const [currentEvent, setCurrentEvent] = useState(event);
+  const { colors, scheme } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t, locale, formatNumber } = useI18n();
+
+  const { eventId } = route.params;
+  const attendedEvent = useEvent(eventId);
+  const upcomingEvent = useUpcomingEvent(eventId);
+  const currentEvent = attendedEvent ?? upcomingEvent;
+  const isUpcoming = upcomingEvent !== undefined;
+  const { location: mapLocation, isResolving: isResolvingLocation } = useEventLocation(currentEvent);
+  const {
+    rateEvent,
+    refreshProfile,
+    refreshEvent,
+    saveReview,
+    rsvpEvent,
+    refreshUpcomingEvent,
+    addEventPhoto,
+    setEventPhotoCaption,
+    removeEventPhoto,
+    setEventCoverPhoto,
+  } = useProfileActions();
+  const { chooseImage } = useImagePicker();
+  const [isRefreshing, setIsRefreshing] = useState(true);
+  const [loadError, setLoadError] = useState<ApiError | null>(null);
+  const [ratingError, setRatingError] = useState<string | null>(null);
+  const [pendingRsvp, setPendingRsvp] = useState<RsvpStatus | null>(null);
+  const [rsvpError, setRsvpError] = useState<string | null>(null);
+  const [isEditingReview, setIsEditingReview] = useState(false);
+  const [reviewError, setReviewError] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [isSavingPhoto, setIsSavingPhoto] = useState(false);
+  const [viewerIndex, setViewerIndex] = useState<number | null>(null);
+  const { snackbar, showSnackbar, hideSnackbar } = useSnackbar();
+
+  // Read at call time so the fetch that brings the event in does not start
+  // another one
+  const latest = useRef({ currentEvent, isUpcoming });
+  latest.current = { currentEvent, isUpcoming };
+
+  // Links can point at events this device has not synced yet. Fetching the
+  // whole profile brings them in, whether they are past or upcoming.
+  const loadEvent = useCallback(async () => {
+    setIsRefreshing(true);
+    setLoadError(null);
+    const { currentEvent: known, isUpcoming: upcoming } = latest.current;
+    const result = !known
+      ? await refreshProfile()
+      : upcoming
+        ? await refreshUpcomingEvent(eventId)
+        : await refreshEvent(eventId);
+    if (!result.ok) {
+      setLoadError(result.error);
+    }
+    setIsRefreshing(false);
+  }, [eventId, refreshProfile, refreshEvent, refreshUpcomingEvent]);
 
   useEffect(() => {
-    const unsubscribe = navigation.addListener('beforeRemove', () => {
-      if (currentEvent !== event) {
-        navigation.getParent()?.dispatch({
-          type: 'UPDATE_EVENT',
-          payload: currentEvent,
-        });
+    loadEvent();
+  }, [loadEvent]);
+
+  // Ids the server does not have end up on the same screen as unknown paths
+  const isMissing = !currentEvent && !isRefreshing && (!loadError || loadError.status === 404);
+  useEffect(() => {
+    if (isMissing) {
+      navigation.replace('NotFound');
+    }
+  }, [isMissing, navigation]);
+
+  // Returns whether the change was kept, locally or on the server
+  const applyRating = useCallback(async (rating: number | null) => {
+    setRatingError(null);
+    const result = await rateEvent(eventId, rating);
+    if (result.status === 'failed') {
+      setRatingError(t('ratings.notSaved', { reason: t(describeApiError(result.error)) }));
+      return null;
+    }
+    return result.status;
+  }, [eventId, rateEvent, t]);
+
+  // Every rating change can be taken back from the snackbar, including the
+  // first rating, which undo clears again
+  const handleRating = useCallback(async (rating: number) => {
+    const previous = attendedEvent?.rating ?? null;
+    if (rating === previous) return;
+
+    const status = await applyRating(rating);
+    if (!status) return;
+    showSnackbar({
+      message: status === 'queued'
+        ? t('ratings.savedOfflineMessage')
+        : t('ratings.savedMessage', { count: rating }),
+      actionTitle: t('common.undo'),
+      onAction: () => { applyRating(previous); },
+    });
+  }, [attendedEvent?.rating, applyRating, showSnackbar, t]);
+
+  const handleSaveReview = useCallback(async (review: ReviewInput) => {
+    setReviewError(null);
+    const result = await saveReview(eventId, review);
+    if (!result.ok) {
+      setReviewError(t('reviews.notSaved', { reason: t(describeApiError(result.error)) }));
+      return false;
+    }
+    setIsEditingReview(false);
+    return true;
+  }, [eventId, saveReview, t]);
+
+  const handleAddPhoto = useCallback(() => {
+    chooseImage(t('photos.addTitle'), async image => {
+      setIsSavingPhoto(true);
+      try {
+        addEventPhoto(eventId, await saveEventPhoto(eventId, image));
+      } catch (error) {
+        Alert.alert(t('common.error'), t('errors.saveImage'));
+        console.error('Failed to save event photo:', error);
+      } finally {
+        setIsSavingPhoto(false);
       }
     });
+  }, [chooseImage, addEventPhoto, eventId, t]);
+
+  const handleCloseViewer = useCallback(() => setViewerIndex(null), []);
+
+  const handleCaptionChange = useCallback((photoId: string, caption: string) => {
+    setEventPhotoCaption(eventId, photoId, caption);
+  }, [eventId, setEventPhotoCaption]);
+
+  const handleSetCover = useCallback((photoId: string) => {
+    setEventCoverPhoto(eventId, photoId);
+  }, [eventId, setEventCoverPhoto]);
+
+  const handleDeletePhoto = useCallback((photoId: string) => {
+    removeEventPhoto(eventId, photoId);
+  }, [eventId, removeEventPhoto]);
 
-    return unsubscribe;
-  }, [navigation, currentEvent, event]);
-
-  const formatDate = useCallback((dateString: string) => {
-    const date = new Date(dateString);
-    return {
-      full: format(date, 'EEEE, MMMM d, yyyy \'at\' h:mm a'),
-      day: format(date, 'd'),
-      month: format(date, 'MMM'),
-      year: format(date, 'yyyy'),
-      time: format(date, 'h:mm a'),
-    };
-  }, []);
-
-  const handleRating = useCallback((rating: number) => {
-    const updatedEvent = {
-      ...currentEvent,
-      rated: true,
-      rating: rating,
-    };
-    setCurrentEvent(updatedEvent);
-    Alert.alert('Rating Saved', `You rated this event ${rating} star${rating !== 1 ? 's' : ''}!`);
-  }, [currentEvent]);
+  const handleAddToCalendar = useCallback(async () => {
+    if (!currentEvent) return;
+
+    setIsExporting(true);
+    try {
+      await shareEventToCalendar(currentEvent, { dialogTitle: t('calendar.addDialogTitle') });
+    } catch (error) {
+      Alert.alert(t('common.error'), t('calendar.exportEventFailed'));
+      console.error('Calendar export error:', error);
+    } finally {
+      setIsExporting(false);
+    }
+  }, [currentEvent, t]);
+
+  const openDirections = useCallback(async (provider: MapsProvider) => {
+    if (!currentEvent) return;
+
+    try {
+      await Linking.openURL(buildDirectionsUrl(provider, currentEvent));
+    } catch (error) {
+      Alert.alert(
+        t('directions.unavailableTitle'),
+        t('directions.unavailableMessage', {
+          provider: t(MAPS_PROVIDER_LABELS[provider]),
+          address: currentEvent.location,
+        })
+      );
+      console.error('Directions error:', error);
+    }
+  }, [currentEvent, t]);
+
+  const handleGetDirections = useCallback(() => {
+    const providers = getMapsProviders(Platform.OS);
+    if (providers.length === 1) {
+      openDirections(providers[0]);
+      return;
+    }
+
+    Alert.alert(t('directions.title'), t('directions.chooseApp'), [
+      ...providers.map(provider => ({
+        text: t(MAPS_PROVIDER_LABELS[provider]),
+        onPress: () => openDirections(provider),
+      })),
+      { text: t('common.cancel'), style: 'cancel' as const },
+    ]);
+  }, [openDirections, t]);
+
+  const handleRsvp = useCallback(async (status: RsvpStatus) => {
+    setRsvpError(null);
+    setPendingRsvp(status);
+    const result = await rsvpEvent(eventId, status);
+    setPendingRsvp(null);
+
+    if (!result.ok) {
+      setRsvpError(t('rsvp.notSaved', { reason: t(describeApiError(result.error)) }));
+      return;
+    }
+    if (status === 'going' && result.data.rsvpStatus === 'waitlisted') {
+      Alert.alert(t('rsvp.waitlistedTitle'), t('rsvp.waitlistedMessage'));
+    }
+  }, [eventId, rsvpEvent, t]);
 
   const renderStars = useCallback(() => {
     const stars = [];
     for (let i = 1; i <= 5; i++) {
-      const isSelected = currentEvent.rating && i <= currentEvent.rating;
+      const isSelected = attendedEvent?.rating && i <= attendedEvent.rating;
       stars.push(
         <TouchableOpacity
           key={i}
@@ -81,28 +267,49 @@ export const EventDetailScreen: React.FC<EventDetailScreenProps> = ({
           <MaterialIcons
             name="star"
             size={32}
-            color={isSelected ? Colors.star : Colors.starInactive}
+            color={isSelected ? colors.star : colors.starInactive}
           />
         </TouchableOpacity>
       );
     }
     return stars;
-  }, [currentEvent.rating, handleRating]);
+  }, [attendedEvent?.rating, handleRating, styles, colors]);
 
-  const { full: fullDate, day, month, year, time } = formatDate(currentEvent.date);
+  if (!currentEvent) {
+    if (isRefreshing) {
+      return <StatusView loading message={t('eventDetail.loading')} />;
+    }
+    if (loadError && loadError.status !== 404) {
+      return (
+        <StatusView
+          icon="cloud-off"
+          message={t(describeApiError(loadError))}
+          actionTitle={t('common.tryAgain')}
+          onAction={loadEvent}
+        />
+      );
+    }
+    // On its way to the not-found screen
+    return null;
+  }
+
+  const { day, month, year, time, zone } = formatEventDate(currentEvent, locale);
+  const deviceLocalTime = formatDeviceLocalTime(currentEvent, locale);
 
-  const mapRegion = currentEvent.coordinates
+  // Zoom out for approximate matches so the marker isn't mistaken for the venue
+  const mapDelta = mapLocation?.isApproximate ? 0.05 : 0.01;
+  const mapRegion = mapLocation
     ? {
-        latitude: currentEvent.coordinates.latitude,
-        longitude: currentEvent.coordinates.longitude,
-        latitudeDelta: 0.01,
-        longitudeDelta: 0.01,
+        latitude: mapLocation.latitude,
+        longitude: mapLocation.longitude,
+        latitudeDelta: mapDelta,
+        longitudeDelta: mapDelta,
       }
     : null;
 
   const renderHeader = () => (
     <LinearGradient
-      colors={Colors.gradients.primary as [string, string]}
+      colors={colors.gradients.primary as [string, string]}
       style={styles.headerGradient}
       start={{ x: 0, y: 0 }}
       end={{ x: 1, y: 1 }}
@@ -113,15 +320,21 @@ export const EventDetailScreen: React.FC<EventDetailScreenProps> = ({
             onPress={navigation.goBack}
             style={styles.backButton}
           >
-            <MaterialIcons name="arrow-back" size={24} color={Colors.text.white} />
+            <MaterialIcons
+              name="arrow-back"
+              size={24}
+              color={colors.text.white}
+            />
           </TouchableOpacity>
           
           <View style={styles.headerTextContainer}>
-            <Text style={styles.headerTitle}>Event Details</Text>
-            {currentEvent.rated && (
+            <Text style={styles.headerTitle}>{t('eventDetail.title')}</Text>
+            {attendedEvent?.rated && (
               <View style={styles.ratedBadge}>
-                <MaterialIcons name="star" size={16} color={Colors.star} />
-                <Text style={styles.ratedText}>Rated {currentEvent.rating}/5</Text>
+                <MaterialIcons name="star" size={16} color={colors.star} />
+                <Text style={styles.ratedText}>
+                  {t('eventDetail.ratedBadge', { rating: attendedEvent.rating ?? 0 })}
+                </Text>
               </View>
             )}
           </View>
@@ -146,77 +359,320 @@ export const EventDetailScreen: React.FC<EventDetailScreenProps> = ({
       
       <View style={styles.infoRow}>
         <View style={styles.iconWrapper}>
-          <MaterialIcons name="location-on" size={20} color={Colors.primary} />
+          <MaterialIcons name="location-on" size={20} color={colors.primary} />
         </View>
         <View style={styles.infoContent}>
-          <Text style={styles.infoLabel}>Location</Text>
+          <Text style={styles.infoLabel}>{t('eventDetail.location')}</Text>
           <Text style={styles.infoValue}>{currentEvent.location}</Text>
         </View>
       </View>
 
       <View style={styles.infoRow}>
         <View style={styles.iconWrapper}>
-          <MaterialIcons name="schedule" size={20} color={Colors.primary} />
+          <MaterialIcons name="schedule" size={20} color={colors.primary} />
         </View>
         <View style={styles.infoContent}>
-          <Text style={styles.infoLabel}>Time</Text>
-          <Text style={styles.infoValue}>{time}</Text>
+          <Text style={styles.infoLabel}>{t('eventDetail.time')}</Text>
+          <Text style={styles.infoValue}>{t('eventDetail.timeWithZone', { time, zone })}</Text>
+          {deviceLocalTime && (
+            <Text style={styles.infoSecondary}>
+              {t('eventDetail.localTime', deviceLocalTime)}
+            </Text>
+          )}
         </View>
       </View>
+
+      <AnimatedButton
+        title={t('calendar.add')}
+        onPress={handleAddToCalendar}
+        variant="outline"
+        size="sm"
+        icon="event"
+        loading={isExporting}
+        style={styles.calendarButton}
+      />
     </AnimatedCard>
   );
 
-  const renderRatingSection = () => (
+  const renderRatingSection = (event: Event) => (
     <AnimatedCard style={styles.ratingCard}>
       <View style={styles.ratingHeader}>
-        <MaterialIcons name="star-rate" size={24} color={Colors.accent} />
-        <Text style={styles.ratingTitle}>Rate Your Experience</Text>
+        <MaterialIcons name="star-rate" size={24} color={colors.accent} />
+        <Text style={styles.ratingTitle}>{t('ratings.title')}</Text>
       </View>
       
       <Text style={styles.ratingSubtitle}>
-        How was your experience at this event?
+        {t('ratings.subtitle')}
       </Text>
       
       <View style={styles.starsContainer}>
         {renderStars()}
       </View>
+
+      {ratingError && <ErrorBanner message={ratingError} />}
       
-      {currentEvent.rating && (
+      {event.rating && (
         <View style={styles.currentRatingContainer}>
           <Text style={styles.currentRatingText}>
-            Your rating: {currentEvent.rating} out of 5 stars
+            {t('ratings.current', { rating: event.rating })}
           </Text>
-          <Text style={styles.thankYouText}>Thank you for your feedback!</Text>
+          <Text style={styles.thankYouText}>{t('ratings.thanks')}</Text>
         </View>
       )}
     </AnimatedCard>
   );
 
+  const renderRatingsOverview = (event: Event) => {
+    if (!event.ratingDistribution) return null;
+
+    return (
+      <AnimatedCard style={styles.ratingCard}>
+        <View style={styles.ratingHeader}>
+          <MaterialIcons name="bar-chart" size={24} color={colors.primary} />
+          <Text style={styles.ratingTitle}>{t('ratings.overviewTitle')}</Text>
+        </View>
+        <RatingDistribution counts={event.ratingDistribution} />
+      </AnimatedCard>
+    );
+  };
+
+  const renderReviewSection = (event: Event) => {
+    const { review } = event;
+    const showComposer = !review || isEditingReview;
+
+    return (
+      <AnimatedCard style={styles.ratingCard}>
+        <View style={styles.ratingHeader}>
+          <MaterialIcons name="rate-review" size={24} color={colors.secondary} />
+          <Text style={styles.ratingTitle}>{t('reviews.title')}</Text>
+          {review && !isEditingReview && (
+            <TouchableOpacity
+              onPress={() => setIsEditingReview(true)}
+              style={styles.editReviewButton}
+            >
+              <MaterialIcons name="edit" size={18} color={colors.primary} />
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {reviewError && <ErrorBanner message={reviewError} />}
+
+        {showComposer ? (
+          <ReviewComposer
+            eventId={event.id}
+            review={review}
+            onSubmit={handleSaveReview}
+            onCancel={review ? () => setIsEditingReview(false) : undefined}
+          />
+        ) : (
+          <View>
+            <Text style={styles.reviewText}>{review.text}</Text>
+
+            {(Object.keys(SUB_SCORE_LABELS) as (keyof ReviewSubScores)[])
+              .filter(key => review.subScores[key] !== undefined)
+              .map(key => (
+                <View key={key} style={styles.subScoreRow}>
+                  <Text style={styles.subScoreLabel}>{t(SUB_SCORE_LABELS[key])}</Text>
+                  <View style={styles.subScoreStars}>
+                    {[1, 2, 3, 4, 5].map(score => (
+                      <MaterialIcons
+                        key={score}
+                        name="star"
+                        size={16}
+                        color={score <= review.subScores[key]! ? colors.star : colors.starInactive}
+                      />
+                    ))}
+                  </View>
+                </View>
+              ))}
+
+            {review.photos.length > 0 && (
+              <View style={styles.reviewPhotos}>
+                {review.photos.map(uri => (
+                  <Image key={uri} source={{ uri }} style={styles.reviewPhoto} />
+                ))}
+              </View>
+            )}
+
+            <Text style={styles.reviewMeta}>
+              {t('reviews.posted', { date: formatDate(review.createdAt, 'shortDate', locale) })}
+              {review.editedAt && ` • ${t('reviews.edited', {
+                date: formatDate(review.editedAt, 'shortDate', locale),
+              })}`}
+            </Text>
+          </View>
+        )}
+      </AnimatedCard>
+    );
+  };
+
+  const renderPhotosSection = (event: Event) => {
+    const photos = event.photos ?? [];
+    const coverPhoto = getCoverPhoto(event);
+
+    return (
+      <AnimatedCard style={styles.ratingCard}>
+        <View style={styles.ratingHeader}>
+          <MaterialIcons name="photo-library" size={24} color={colors.primary} />
+          <Text style={styles.ratingTitle}>{t('photos.title')}</Text>
+        </View>
+
+        {photos.length === 0 && (
+          <Text style={styles.ratingSubtitle}>{t('photos.empty')}</Text>
+        )}
+
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.photoStrip}
+        >
+          {photos.map((photo, index) => (
+            <TouchableOpacity
+              key={photo.id}
+              onPress={() => setViewerIndex(index)}
+              accessibilityLabel={photo.caption
+                || t('photos.position', { index: index + 1, count: photos.length })}
+            >
+              <Image source={{ uri: photo.thumbnailUri }} style={styles.photoThumbnail} />
+              {photo.id === coverPhoto?.id && (
+                <View style={styles.coverBadge}>
+                  <MaterialIcons name="star" size={12} color={colors.text.white} />
+                </View>
+              )}
+            </TouchableOpacity>
+          ))}
+
+          <TouchableOpacity
+            onPress={handleAddPhoto}
+            disabled={isSavingPhoto}
+            style={styles.addPhotoTile}
+            accessibilityLabel={t('photos.add')}
+          >
+            {isSavingPhoto ? (
+              <ActivityIndicator color={colors.primary} />
+            ) : (
+              <MaterialIcons name="add-a-photo" size={24} color={colors.primary} />
+            )}
+          </TouchableOpacity>
+        </ScrollView>
+
+        <PhotoViewerModal
+          visible={viewerIndex !== null}
+          photos={photos}
+          initialIndex={viewerIndex ?? 0}
+          coverPhotoId={coverPhoto?.id}
+          onClose={handleCloseViewer}
+          onCaptionChange={handleCaptionChange}
+          onSetCover={handleSetCover}
+          onDelete={handleDeletePhoto}
+        />
+      </AnimatedCard>
+    );
+  };
+
+  const renderRsvpSection = (event: UpcomingEvent) => {
+    const isFull = event.capacity !== undefined && event.attendeeCount >= event.capacity;
+    const capacityText = event.capacity === undefined
+      ? t('rsvp.peopleGoing', { count: event.attendeeCount })
+      : isFull
+        ? t('rsvp.full')
+        : t('rsvp.spotsTaken', {
+            taken: formatNumber(event.attendeeCount),
+            capacity: formatNumber(event.capacity),
+          });
+    const options: RsvpStatus[] = ['going', 'maybe', 'declined'];
+    const rsvpDisplay = getRsvpDisplay(colors);
+
+    return (
+      <AnimatedCard style={styles.ratingCard}>
+        <View style={styles.ratingHeader}>
+          <MaterialIcons name="event-available" size={24} color={colors.secondary} />
+          <Text style={styles.ratingTitle}>{t('rsvp.title')}</Text>
+          <View style={styles.rsvpBadgeContainer}>
+            <RsvpBadge status={event.rsvpStatus} />
+          </View>
+        </View>
+
+        <Text style={styles.ratingSubtitle}>{capacityText}</Text>
+
+        <View style={styles.rsvpOptions}>
+          {options.map(status => {
+            const { label, icon, color } = rsvpDisplay[status];
+            // A waitlisted RSVP is still a request to go
+            const isSelected = event.rsvpStatus === status
+              || (status === 'going' && event.rsvpStatus === 'waitlisted');
+            return (
+              <TouchableOpacity
+                key={status}
+                onPress={() => handleRsvp(status)}
+                disabled={pendingRsvp !== null}
+                style={[
+                  styles.rsvpOption,
+                  isSelected && { backgroundColor: color, borderColor: color },
+                ]}
+              >
+                <MaterialIcons
+                  name={icon}
+                  size={20}
+                  color={isSelected ? colors.text.white : color}
+                />
+                <Text style={[styles.rsvpOptionText, isSelected && styles.rsvpOptionTextSelected]}>
+                  {pendingRsvp === status ? t('common.saving') : t(label)}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        {rsvpError && <ErrorBanner message={rsvpError} />}
+      </AnimatedCard>
+    );
+  };
+
   const renderMapSection = () => {
-    if (!mapRegion) return null;
-    
     return (
       <AnimatedCard style={styles.mapCard}>
         <View style={styles.mapHeader}>
-          <MaterialIcons name="map" size={24} color={Colors.secondary} />
-          <Text style={styles.mapTitle}>Event Location</Text>
+          <MaterialIcons name="map" size={24} color={colors.secondary} />
+          <Text style={styles.mapTitle}>{t('map.eventLocation')}</Text>
+          {mapLocation?.isApproximate && (
+            <View style={styles.approximateBadge}>
+              <MaterialIcons name="near-me" size={12} color={colors.warning} />
+              <Text style={styles.approximateText}>{t('map.approximate')}</Text>
+            </View>
+          )}
         </View>
         
         <View style={styles.mapContainer}>
-          <MapView style={styles.map} region={mapRegion}>
-            <Marker
-              coordinate={currentEvent.coordinates!}
-              title={currentEvent.title}
-              description={currentEvent.location}
-            />
-          </MapView>
+          {mapRegion ? (
+            <MapView style={styles.map} region={mapRegion} userInterfaceStyle={scheme}>
+              <Marker
+                coordinate={mapRegion}
+                title={currentEvent.title}
+                description={currentEvent.location}
+              />
+            </MapView>
+          ) : (
+            <View style={styles.mapPlaceholder}>
+              {isResolvingLocation ? (
+                <ActivityIndicator color={colors.primary} />
+              ) : (
+                <>
+                  <MaterialIcons name="location-off" size={32} color={colors.text.tertiary} />
+                  <Text style={styles.mapPlaceholderText}>
+                    {t('map.notFound')}
+                  </Text>
+                </>
+              )}
+            </View>
+          )}
         </View>
         
         <View style={styles.mapFooter}>
           <Text style={styles.mapAddress}>{currentEvent.location}</Text>
-          <TouchableOpacity style={styles.directionsButton}>
-            <MaterialIcons name="directions" size={16} color={Colors.primary} />
-            <Text style={styles.directionsText}>Get Directions</Text>
+          <TouchableOpacity style={styles.directionsButton} onPress={handleGetDirections}>
+            <MaterialIcons name="directions" size={16} color={colors.primary} />
+            <Text style={styles.directionsText}>{t('directions.title')}</Text>
           </TouchableOpacity>
         </View>
       </AnimatedCard>
@@ -233,21 +689,33 @@ export const EventDetailScreen: React.FC<EventDetailScreenProps> = ({
         showsVerticalScrollIndicator={false}
       >
         <View style={styles.contentContainer}>
+          {loadError && (
+            <ErrorBanner
+              message={t('eventDetail.showingSaved', { reason: t(describeApiError(loadError)) })}
+              onRetry={loadEvent}
+            />
+          )}
           {renderEventInfo()}
-          {renderRatingSection()}
+          {attendedEvent && renderRatingSection(attendedEvent)}
+          {attendedEvent && renderRatingsOverview(attendedEvent)}
+          {attendedEvent && renderReviewSection(attendedEvent)}
+          {attendedEvent && renderPhotosSection(attendedEvent)}
+          {upcomingEvent && renderRsvpSection(upcomingEvent)}
           {renderMapSection()}
           
           <View style={styles.bottomSpacer} />
         </View>
       </ScrollView>
+
+      <Snackbar snackbar={snackbar} onDismiss={hideSnackbar} />
     </View>
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (colors: ColorPalette) => StyleSheet.create({
   container: {
     flex: 1,
-    backgroundColor: Colors.background.secondary,
+    backgroundColor: colors.background.secondary,
   },
   headerGradient: {
     paddingBottom: Spacing.lg,
@@ -274,7 +742,7 @@ const styles = StyleSheet.create({
   headerTitle: {
     fontSize: Typography.size.xl,
     fontWeight: Typography.weight.bold as any,
-    color: Colors.text.white,
+    color: colors.text.white,
     textAlign: 'center',
     right: 32, 
   },
@@ -289,7 +757,7 @@ const styles = StyleSheet.create({
     marginTop: Spacing.xs,
   },
   ratedText: {
-    color: Colors.text.white,
+    color: colors.text.white,
     fontSize: Typography.size.sm,
     fontWeight: Typography.weight.medium as any,
     marginLeft: Spacing.xs,
@@ -316,7 +784,7 @@ const styles = StyleSheet.create({
     zIndex: 1,
   },
   dateBadge: {
-    backgroundColor: Colors.accent,
+    backgroundColor: colors.accent,
     borderRadius: BorderRadius.md,
     paddingHorizontal: Spacing.md,
     paddingVertical: Spacing.sm,
@@ -326,32 +794,32 @@ const styles = StyleSheet.create({
   dateDay: {
     fontSize: Typography.size.lg,
     fontWeight: Typography.weight.bold as any,
-    color: Colors.text.white,
+    color: colors.text.white,
     lineHeight: Typography.size.lg * Typography.lineHeight.tight,
   },
   dateMonth: {
     fontSize: Typography.size.xs,
     fontWeight: Typography.weight.medium as any,
-    color: Colors.text.white,
+    color: colors.text.white,
     textTransform: 'uppercase',
     letterSpacing: 0.5,
   },
   dateYear: {
     fontSize: Typography.size.xs,
-    color: Colors.text.white,
+    color: colors.text.white,
     opacity: 0.8,
   },
   eventTitle: {
     fontSize: Typography.size['2xl'],
     fontWeight: Typography.weight.bold as any,
-    color: Colors.text.primary,
+    color: colors.text.primary,
     marginBottom: Spacing.md,
     marginTop: Spacing.base,
     lineHeight: Typography.size['2xl'] * Typography.lineHeight.tight,
   },
   eventDescription: {
     fontSize: Typography.size.base,
-    color: Colors.text.secondary,
+    color: colors.text.secondary,
     lineHeight: Typography.size.base * Typography.lineHeight.relaxed,
     marginBottom: Spacing.lg,
   },
@@ -364,7 +832,7 @@ const styles = StyleSheet.create({
     width: 40,
     height: 40,
     borderRadius: BorderRadius.md,
-    backgroundColor: Colors.primaryUltraLight,
+    backgroundColor: colors.primaryUltraLight,
     alignItems: 'center',
     justifyContent: 'center',
     marginRight: Spacing.md,
@@ -375,14 +843,19 @@ const styles = StyleSheet.create({
   infoLabel: {
     fontSize: Typography.size.sm,
     fontWeight: Typography.weight.medium as any,
-    color: Colors.text.tertiary,
+    color: colors.text.tertiary,
     marginBottom: 2,
   },
   infoValue: {
     fontSize: Typography.size.base,
-    color: Colors.text.primary,
+    color: colors.text.primary,
     fontWeight: Typography.weight.medium as any,
   },
+  infoSecondary: {
+    fontSize: Typography.size.sm,
+    color: colors.text.secondary,
+    marginTop: Spacing.xs,
+  },
   ratingCard: {
     marginBottom: Spacing.base,
   },
@@ -394,12 +867,12 @@ const styles = StyleSheet.create({
   ratingTitle: {
     fontSize: Typography.size.xl,
     fontWeight: Typography.weight.bold as any,
-    color: Colors.text.primary,
+    color: colors.text.primary,
     marginLeft: Spacing.md,
   },
   ratingSubtitle: {
     fontSize: Typography.size.base,
-    color: Colors.text.secondary,
+    color: colors.text.secondary,
     marginBottom: Spacing.lg,
     lineHeight: Typography.size.base * Typography.lineHeight.relaxed,
   },
@@ -412,14 +885,105 @@ const styles = StyleSheet.create({
   starButton: {
     padding: Spacing.sm,
     borderRadius: BorderRadius.md,
-    backgroundColor: Colors.background.tertiary,
+    backgroundColor: colors.background.tertiary,
   },
   starButtonSelected: {
-    backgroundColor: Colors.primaryUltraLight,
+    backgroundColor: colors.primaryUltraLight,
     transform: [{ scale: 1.1 }],
   },
+  editReviewButton: {
+    marginLeft: 'auto',
+    padding: Spacing.xs,
+  },
+  reviewText: {
+    fontSize: Typography.size.base,
+    color: colors.text.primary,
+    lineHeight: Typography.size.base * Typography.lineHeight.relaxed,
+    marginBottom: Spacing.base,
+  },
+  subScoreRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: Spacing.xs,
+  },
+  subScoreLabel: {
+    fontSize: Typography.size.sm,
+    color: colors.text.secondary,
+  },
+  subScoreStars: {
+    flexDirection: 'row',
+  },
+  reviewPhotos: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm,
+    marginTop: Spacing.sm,
+  },
+  reviewPhoto: {
+    width: 72,
+    height: 72,
+    borderRadius: BorderRadius.base,
+  },
+  photoStrip: {
+    gap: Spacing.sm,
+  },
+  photoThumbnail: {
+    width: 88,
+    height: 88,
+    borderRadius: BorderRadius.base,
+  },
+  coverBadge: {
+    position: 'absolute',
+    top: Spacing.xs,
+    left: Spacing.xs,
+    backgroundColor: colors.accent,
+    borderRadius: BorderRadius.full,
+    padding: 2,
+  },
+  addPhotoTile: {
+    width: 88,
+    height: 88,
+    borderRadius: BorderRadius.base,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: colors.primary,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  reviewMeta: {
+    fontSize: Typography.size.xs,
+    color: colors.text.tertiary,
+    marginTop: Spacing.md,
+  },
+  rsvpBadgeContainer: {
+    marginLeft: 'auto',
+  },
+  rsvpOptions: {
+    flexDirection: 'row',
+    gap: Spacing.sm,
+    marginBottom: Spacing.sm,
+  },
+  rsvpOption: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: Spacing.md,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1.5,
+    borderColor: colors.border.light,
+    backgroundColor: colors.background.primary,
+  },
+  rsvpOptionText: {
+    fontSize: Typography.size.sm,
+    fontWeight: Typography.weight.semibold as any,
+    color: colors.text.primary,
+    marginTop: Spacing.xs,
+  },
+  rsvpOptionTextSelected: {
+    color: colors.text.white,
+  },
   currentRatingContainer: {
-    backgroundColor: Colors.background.tertiary,
+    backgroundColor: colors.background.tertiary,
     padding: Spacing.base,
     borderRadius: BorderRadius.md,
     alignItems: 'center',
@@ -427,12 +991,12 @@ const styles = StyleSheet.create({
   currentRatingText: {
     fontSize: Typography.size.base,
     fontWeight: Typography.weight.semibold as any,
-    color: Colors.text.primary,
+    color: colors.text.primary,
     marginBottom: Spacing.xs,
   },
   thankYouText: {
     fontSize: Typography.size.sm,
-    color: Colors.text.secondary,
+    color: colors.text.secondary,
     fontStyle: 'italic',
   },
   mapCard: {
@@ -449,7 +1013,7 @@ const styles = StyleSheet.create({
   mapTitle: {
     fontSize: Typography.size.xl,
     fontWeight: Typography.weight.bold as any,
-    color: Colors.text.primary,
+    color: colors.text.primary,
     marginLeft: Spacing.md,
   },
   mapContainer: {
@@ -462,6 +1026,32 @@ const styles = StyleSheet.create({
   map: {
     flex: 1,
   },
+  mapPlaceholder: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: colors.background.tertiary,
+    gap: Spacing.sm,
+  },
+  mapPlaceholderText: {
+    fontSize: Typography.size.sm,
+    color: colors.text.secondary,
+  },
+  approximateBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginLeft: 'auto',
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 2,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+    borderColor: colors.warning,
+  },
+  approximateText: {
+    fontSize: Typography.size.xs,
+    color: colors.warning,
+    marginLeft: 2,
+  },
   mapFooter: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -471,13 +1061,16 @@ const styles = StyleSheet.create({
   },
   mapAddress: {
     fontSize: Typography.size.base,
-    color: Colors.text.secondary,
+    color: colors.text.secondary,
     flex: 1,
   },
+  calendarButton: {
+    marginTop: Spacing.base,
+  },
   directionsButton: {
     flexDirection: 'row',
     alignItems: 'center',
-    backgroundColor: Colors.primaryUltraLight,
+    backgroundColor: colors.primaryUltraLight,
     paddingHorizontal: Spacing.md,
     paddingVertical: Spacing.sm,
     borderRadius: BorderRadius.md,
@@ -485,7 +1078,7 @@ const styles = StyleSheet.create({
   directionsText: {
     fontSize: Typography.size.sm,
     fontWeight: Typography.weight.medium as any,
-    color: Colors.primary,
+    color: colors.primary,
     marginLeft: Spacing.xs,
   },
   bottomSpacer: {
@@ -0,0 +1,347 @@
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  TouchableOpacity,
+} from 'react-native';
+import MapView, { Callout, Marker, Region } from 'react-native-maps';
+import { MaterialIcons } from '@expo/vector-icons';
+import { LinearGradient } from 'expo-linear-gradient';
+import { addMonths, differenceInCalendarMonths, endOfMonth, startOfMonth } from 'date-fns';
+import { Event } from '../types';
+import { useProfile } from '../store/ProfileContext';
+import { DateRangeSlider } from '../components/DateRangeSlider';
+import { StatusView } from '../components/StatusView';
+import { formatEventDate, formatMonthYear } from '../utils/dateFormat';
+import { MapCluster, clusterByRegion, regionForCoordinates } from '../utils/mapClustering';
+import { EventsMapScreenNavigationProp, EventsMapScreenRouteProp } from '../types/navigation';
+import { ColorPalette, Typography, Spacing, BorderRadius, Shadows } from '../styles/theme';
+import { useTheme, useThemedStyles } from '../styles/ThemeContext';
+import { useI18n } from '../i18n/I18nContext';
+
+interface EventsMapScreenProps {
+  navigation: EventsMapScreenNavigationProp;
+  route: EventsMapScreenRouteProp;
+}
+
+type MappedEvent = Event & { latitude: number; longitude: number };
+
+const PLAYBACK_STEP_MS = 700;
+const FIT_EDGE_PADDING = { top: 80, right: 60, bottom: 80, left: 60 };
+
+export const EventsMapScreen: React.FC<EventsMapScreenProps> = ({ navigation }) => {
+  const { colors, scheme } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t, locale, formatNumber } = useI18n();
+
+  const profile = useProfile();
+  const mapRef = useRef<MapView>(null);
+
+  const mappedEvents = useMemo(
+    () => profile.attendedEvents
+      .filter((event): event is Event & Required<Pick<Event, 'coordinates'>> => !!event.coordinates)
+      .map((event): MappedEvent => ({ ...event, ...event.coordinates })),
+    [profile.attendedEvents]
+  );
+
+  // One slider step per calendar month between the first and last event
+  const firstMonth = useMemo(() => {
+    const times = mappedEvents.map(event => new Date(event.date).getTime());
+    return startOfMonth(times.length > 0 ? Math.min(...times) : Date.now());
+  }, [mappedEvents]);
+  const monthCount = useMemo(() => {
+    const times = mappedEvents.map(event => new Date(event.date).getTime());
+    return times.length > 0
+      ? differenceInCalendarMonths(Math.max(...times), firstMonth) + 1
+      : 1;
+  }, [mappedEvents, firstMonth]);
+
+  const [range, setRange] = useState<[number, number]>([0, monthCount - 1]);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [region, setRegion] = useState<Region | null>(() => regionForCoordinates(mappedEvents));
+
+  useEffect(() => {
+    setRange([0, monthCount - 1]);
+  }, [monthCount]);
+
+  const [rangeStart, rangeEnd] = useMemo(
+    () => [addMonths(firstMonth, range[0]), endOfMonth(addMonths(firstMonth, range[1]))],
+    [firstMonth, range]
+  );
+
+  const visibleEvents = useMemo(
+    () => mappedEvents.filter(event => {
+      const date = new Date(event.date);
+      return date >= rangeStart && date <= rangeEnd;
+    }),
+    [mappedEvents, rangeStart, rangeEnd]
+  );
+
+  const clusters = useMemo(
+    () => (region ? clusterByRegion(visibleEvents, region) : []),
+    [visibleEvents, region]
+  );
+
+  // Keep every visible marker on screen as the date range changes
+  useEffect(() => {
+    if (visibleEvents.length === 0) return;
+    mapRef.current?.fitToCoordinates(visibleEvents, {
+      edgePadding: FIT_EDGE_PADDING,
+      animated: true,
+    });
+  }, [visibleEvents]);
+
+  // Playback grows the range one month at a time from its current start
+  useEffect(() => {
+    if (!isPlaying) return;
+    if (range[1] >= monthCount - 1) {
+      setIsPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => {
+      setRange(([start, end]) => [start, end + 1]);
+    }, PLAYBACK_STEP_MS);
+    return () => clearTimeout(timer);
+  }, [isPlaying, range, monthCount]);
+
+  const handlePlayPress = useCallback(() => {
+    if (isPlaying) {
+      setIsPlaying(false);
+      return;
+    }
+    setRange(([start]) => [start, start]);
+    setIsPlaying(true);
+  }, [isPlaying]);
+
+  const handleEventPress = useCallback((event: Event) => {
+    navigation.navigate('EventDetail', { eventId: event.id });
+  }, [navigation]);
+
+  const handleClusterPress = useCallback((cluster: MapCluster<MappedEvent>) => {
+    mapRef.current?.fitToCoordinates(cluster.items, {
+      edgePadding: FIT_EDGE_PADDING,
+      animated: true,
+    });
+  }, []);
+
+  if (mappedEvents.length === 0) {
+    return (
+      <StatusView
+        icon="map"
+        message={t('eventsMap.empty')}
+        actionTitle={t('common.goBack')}
+        onAction={navigation.goBack}
+      />
+    );
+  }
+
+  const renderHeader = () => (
+    <LinearGradient
+      colors={colors.gradients.primary as [string, string]}
+      style={styles.headerGradient}
+      start={{ x: 0, y: 0 }}
+      end={{ x: 1, y: 1 }}
+    >
+      <SafeAreaView style={styles.headerSafeArea}>
+        <View style={styles.headerContent}>
+          <TouchableOpacity onPress={navigation.goBack} style={styles.backButton}>
+            <MaterialIcons
+              name="arrow-back"
+              size={24}
+              color={colors.text.white}
+            />
+          </TouchableOpacity>
+          <View style={styles.headerTextContainer}>
+            <Text style={styles.headerTitle}>{t('eventsMap.title')}</Text>
+            <Text style={styles.headerSubtitle}>
+              {t('eventsMap.visibleCount', {
+                visible: formatNumber(visibleEvents.length),
+                count: mappedEvents.length,
+              })}
+            </Text>
+          </View>
+        </View>
+      </SafeAreaView>
+    </LinearGradient>
+  );
+
+  const renderMarker = (cluster: MapCluster<MappedEvent>) => {
+    if (cluster.items.length > 1) {
+      return (
+        <Marker
+          key={cluster.id}
+          coordinate={cluster}
+          onPress={() => handleClusterPress(cluster)}
+        >
+          <View style={styles.clusterMarker}>
+            <Text style={styles.clusterText}>{formatNumber(cluster.items.length)}</Text>
+          </View>
+        </Marker>
+      );
+    }
+
+    const [event] = cluster.items;
+    const { full } = formatEventDate(event, locale);
+    return (
+      <Marker key={`event-${event.id}`} coordinate={event} pinColor={colors.primary}>
+        <Callout onPress={() => handleEventPress(event)}>
+          <View style={styles.callout}>
+            <Text style={styles.calloutTitle} numberOfLines={1}>{event.title}</Text>
+            <Text style={styles.calloutText}>{full}</Text>
+            <Text style={styles.calloutLink}>{t('eventsMap.viewDetails')}</Text>
+          </View>
+        </Callout>
+      </Marker>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      {renderHeader()}
+
+      <MapView
+        ref={mapRef}
+        style={styles.map}
+        initialRegion={region ?? undefined}
+        onRegionChangeComplete={setRegion}
+        userInterfaceStyle={scheme}
+      >
+        {clusters.map(renderMarker)}
+      </MapView>
+
+      {/* History Slider */}
+      <View style={styles.sliderCard}>
+        <View style={styles.sliderHeader}>
+          <TouchableOpacity
+            onPress={handlePlayPress}
+            style={styles.playButton}
+            disabled={monthCount < 2}
+          >
+            <MaterialIcons
+              name={isPlaying ? 'pause' : 'play-arrow'}
+              size={22}
+              color={colors.text.white}
+            />
+          </TouchableOpacity>
+          <Text style={styles.rangeText}>
+            {formatMonthYear(rangeStart, locale)}
+            {range[0] !== range[1] && ` – ${formatMonthYear(rangeEnd, locale)}`}
+          </Text>
+        </View>
+        {monthCount > 1 && (
+          <DateRangeSlider
+            steps={monthCount}
+            range={range}
+            onChange={setRange}
+            onSlidingStart={() => setIsPlaying(false)}
+          />
+        )}
+      </View>
+    </View>
+  );
+};
+
+const createStyles = (colors: ColorPalette) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background.secondary,
+  },
+  headerGradient: {
+    paddingBottom: Spacing.base,
+  },
+  headerSafeArea: {
+    paddingTop: Spacing.base,
+  },
+  headerContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: Spacing.base,
+  },
+  backButton: {
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    padding: Spacing.md,
+    borderRadius: BorderRadius.full,
+    marginRight: Spacing.base,
+  },
+  headerTextContainer: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontSize: Typography.size.xl,
+    fontWeight: Typography.weight.bold as any,
+    color: colors.text.white,
+  },
+  headerSubtitle: {
+    fontSize: Typography.size.sm,
+    color: colors.text.white,
+    opacity: 0.8,
+  },
+  map: {
+    flex: 1,
+  },
+  clusterMarker: {
+    minWidth: 36,
+    height: 36,
+    paddingHorizontal: Spacing.sm,
+    borderRadius: 18,
+    backgroundColor: colors.primary,
+    borderWidth: 3,
+    borderColor: colors.text.white,
+    alignItems: 'center',
+    justifyContent: 'center',
+    ...Shadows.base,
+  },
+  clusterText: {
+    color: colors.text.white,
+    fontSize: Typography.size.sm,
+    fontWeight: Typography.weight.bold as any,
+  },
+  callout: {
+    width: 200,
+    padding: Spacing.xs,
+  },
+  calloutTitle: {
+    fontSize: Typography.size.base,
+    fontWeight: Typography.weight.semibold as any,
+    color: colors.text.primary,
+  },
+  calloutText: {
+    fontSize: Typography.size.xs,
+    color: colors.text.secondary,
+    marginTop: 2,
+  },
+  calloutLink: {
+    fontSize: Typography.size.sm,
+    fontWeight: Typography.weight.medium as any,
+    color: colors.primary,
+    marginTop: Spacing.xs,
+  },
+  sliderCard: {
+    position: 'absolute',
+    left: Spacing.base,
+    right: Spacing.base,
+    bottom: Spacing.xl,
+    backgroundColor: colors.background.primary,
+    borderRadius: BorderRadius.lg,
+    padding: Spacing.base,
+    gap: Spacing.md,
+    ...Shadows.lg,
+  },
+  sliderHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  playButton: {
+    backgroundColor: colors.primary,
+    borderRadius: BorderRadius.full,
+    padding: Spacing.xs,
+    marginRight: Spacing.md,
+  },
+  rangeText: {
+    fontSize: Typography.size.base,
+    fontWeight: Typography.weight.semibold as any,
+    color: colors.text.primary,
+  },
+});
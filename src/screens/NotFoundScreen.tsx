@@ -0,0 +1,26 @@
+import React, { useCallback } from 'react';
+import { StatusView } from '../components/StatusView';
+import { NotFoundScreenNavigationProp } from '../types/navigation';
+import { useI18n } from '../i18n/I18nContext';
+
+interface NotFoundScreenProps {
+  navigation: NotFoundScreenNavigationProp;
+}
+
+// Shown for links to paths the app does not know
+export const NotFoundScreen: React.FC<NotFoundScreenProps> = ({ navigation }) => {
+  const { t } = useI18n();
+
+  const handleGoToProfile = useCallback(() => {
+    navigation.popTo('Profile');
+  }, [navigation]);
+
+  return (
+    <StatusView
+      icon="link-off"
+      message={t('notFound.message')}
+      actionTitle={t('notFound.goToProfile')}
+      onAction={handleGoToProfile}
+    />
+  );
+};
@@ -1,4 +1,4 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useMemo } from 'react';
 import {
   View,
   Text,
@@ -8,111 +8,364 @@ import {
   SafeAreaView,
   TouchableOpacity,
   ImageSourcePropType,
-  ScrollView,
+  ActivityIndicator,
+  RefreshControl,
+  Alert,
 } from 'react-native';
 import { MaterialIcons } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
 import { EventCard } from '../components/EventCard';
+import { UpcomingEventCard } from '../components/UpcomingEventCard';
 import { ImageZoomModal } from '../components/ImageZoomModal';
+import { ProfileShareModal } from '../components/ProfileShareModal';
 import { AnimatedButton } from '../components/AnimatedButton';
 import { AnimatedCard } from '../components/AnimatedCard';
-import { UserProfile, Event } from '../types';
+import { StatusView } from '../components/StatusView';
+import { ErrorBanner } from '../components/ErrorBanner';
+import { Snackbar, useSnackbar } from '../components/Snackbar';
+import { EventSearchBar } from '../components/EventSearchBar';
+import { EventFilterBar } from '../components/EventFilterBar';
+import { EventCalendar } from '../components/EventCalendar';
+import { TimelineItem, TimelineMonthHeader } from '../components/TimelineItem';
+import { describeApiError } from '../api';
+import { Event, UpcomingEvent } from '../types';
+import {
+  useProfileState,
+  useProfileActions,
+  useRatedEventCount,
+  usePendingEventIds,
+} from '../store/ProfileContext';
+import { useEventFilters } from '../store/EventFiltersContext';
+import { applyEventFilters, getEventLocations } from '../utils/eventFilters';
+import { groupEventsByMonth } from '../utils/events';
+import { formatDate, formatDayHeading, toDayKey } from '../utils/dateFormat';
+import { calculateAge, parseBirthdate } from '../utils/birthdate';
+import { PageFetcher, usePagedItems } from '../hooks/usePagedItems';
+import { shareEventsFeed } from '../services/calendarExport';
+import { StoredAvatar, saveAvatar } from '../services/avatarStorage';
+import { PickedImage } from '../services/imageProcessing';
 import { ProfileScreenNavigationProp, ProfileScreenRouteProp } from '../types/navigation';
-import { Colors, Typography, Spacing, BorderRadius, Shadows } from '../styles/theme';
+import { ColorPalette, Typography, Spacing, BorderRadius } from '../styles/theme';
+import { useTheme, useThemedStyles } from '../styles/ThemeContext';
+import { useI18n } from '../i18n/I18nContext';
+
+const EVENTS_PAGE_SIZE = 20;
+
+type EventsView = 'list' | 'calendar' | 'timeline';
+
+const EVENTS_VIEW_OPTIONS: { view: EventsView; icon: keyof typeof MaterialIcons.glyphMap }[] = [
+  { view: 'list', icon: 'view-agenda' },
+  { view: 'calendar', icon: 'calendar-month' },
+  { view: 'timeline', icon: 'timeline' },
+];
+
+type EventListItem =
+  | { type: 'event'; event: Event; isLastInGroup?: boolean }
+  | { type: 'month'; key: string; title: string };
 
 interface ProfileScreenProps {
   navigation: ProfileScreenNavigationProp;
   route: ProfileScreenRouteProp;
 }
 
-export const ProfileScreen: React.FC<ProfileScreenProps> = ({ navigation, route }) => {
-  const [profile, setProfile] = useState<UserProfile>(route.params.profile);
-  const [profileImageUri, setProfileImageUri] = useState<string | null>(null);
+export const ProfileScreen: React.FC<ProfileScreenProps> = ({ navigation }) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t, locale, formatNumber } = useI18n();
+
+  const { profile, isSyncing, isOnline, error, outbox, conflicts } = useProfileState();
+  const ratedEventCount = useRatedEventCount();
+  const pendingEventIds = usePendingEventIds();
+  const { setAvatar, refreshProfile, loadEventsPage, resolveConflict } = useProfileActions();
+  const { filters, updateFilters, resetFilters } = useEventFilters();
   const [isImageModalVisible, setIsImageModalVisible] = useState(false);
+  const [isSavingImage, setIsSavingImage] = useState(false);
+  const [isShareModalVisible, setIsShareModalVisible] = useState(false);
+  const { snackbar, showSnackbar, hideSnackbar } = useSnackbar();
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [eventsView, setEventsView] = useState<EventsView>('list');
+  const [selectedDay, setSelectedDay] = useState<string | null>(null);
+
+  const attendedEvents = profile?.attendedEvents;
+  const visibleEvents = useMemo(
+    () => applyEventFilters(attendedEvents ?? [], filters),
+    [attendedEvents, filters]
+  );
+  const eventLocations = useMemo(
+    () => getEventLocations(attendedEvents ?? []),
+    [attendedEvents]
+  );
+  // The list and timeline are paged by the server; the timeline is always
+  // chronological
+  const isPaged = eventsView !== 'calendar';
+  const pageFilters = useMemo(
+    () => (eventsView === 'timeline' ? { ...filters, sort: 'newest' as const } : filters),
+    [eventsView, filters]
+  );
+  const fetchEventsPage = useCallback<PageFetcher<Event>>(async (offset, limit) => {
+    const result = await loadEventsPage({ offset, limit, filters: pageFilters });
+    return result.ok
+      ? { ok: true, data: { items: result.data.events, nextOffset: result.data.nextOffset } }
+      : result;
+  }, [loadEventsPage, pageFilters]);
+  const {
+    items: pagedEvents,
+    isLoading: isLoadingEvents,
+    isLoadingMore,
+    error: eventsError,
+    loadMore,
+    retry: retryEvents,
+    refresh: refreshEvents,
+  } = usePagedItems(fetchEventsPage, EVENTS_PAGE_SIZE);
+  const eventsById = useMemo(
+    () => new Map((attendedEvents ?? []).map(event => [event.id, event])),
+    [attendedEvents]
+  );
+  // Rows show the store's copy, which has the local photos and any queued
+  // changes. Offsets shift when events change between pages, which can
+  // repeat an event.
+  const shownEvents = useMemo(() => {
+    if (!isPaged) {
+      return selectedDay
+        ? visibleEvents.filter(event => toDayKey(event.date, event.timeZone) === selectedDay)
+        : [];
+    }
+    const seen = new Set<number>();
+    return pagedEvents.flatMap(event => {
+      if (seen.has(event.id)) return [];
+      seen.add(event.id);
+      return [eventsById.get(event.id) ?? event];
+    });
+  }, [isPaged, selectedDay, visibleEvents, pagedEvents, eventsById]);
+  const listItems = useMemo((): EventListItem[] => {
+    if (eventsView !== 'timeline') {
+      return shownEvents.map(event => ({ type: 'event', event }));
+    }
+    return groupEventsByMonth(shownEvents, locale).flatMap(({ key, title, events }): EventListItem[] => [
+      { type: 'month', key, title },
+      ...events.map((event, index): EventListItem => ({
+        type: 'event',
+        event,
+        isLastInGroup: index === events.length - 1,
+      })),
+    ]);
+  }, [eventsView, shownEvents, locale]);
 
   const defaultProfileImage = require('../../assets/profilepic.png');
 
+  // Only images stored on this device are shown; the bundled profile points at
+  // a placeholder URL that is not reachable. Photos saved before thumbnails
+  // existed use the full image for both.
+  const profileImageUri = profile?.profileImageUrl?.startsWith('file:')
+    ? profile.profileImageUrl
+    : null;
+  const profileThumbnailUri = profile?.profileThumbnailUrl?.startsWith('file:')
+    ? profile.profileThumbnailUrl
+    : profileImageUri;
+  const currentAvatar = useMemo((): StoredAvatar | null => (
+    profileImageUri && profileThumbnailUri
+      ? { imageUri: profileImageUri, thumbnailUri: profileThumbnailUri }
+      : null
+  ), [profileImageUri, profileThumbnailUri]);
+
   const handleImagePress = useCallback(() => {
     setIsImageModalVisible(true);
   }, []);
 
-  const handleImageChange = useCallback((newImageUri: string) => {
-    setProfileImageUri(newImageUri);
-  }, []);
+  // Close the viewer so the snackbar offering to undo the change is visible.
+  // The previous files are kept until the next change so undo can restore them.
+  const handleImageChange = useCallback(async (image: PickedImage) => {
+    const previous = currentAvatar;
+    setIsImageModalVisible(false);
+    setIsSavingImage(true);
+    try {
+      const avatar = await saveAvatar(
+        image,
+        previous ? [previous.imageUri, previous.thumbnailUri] : []
+      );
+      setAvatar(avatar);
+      showSnackbar({
+        message: t('profileImage.updated'),
+        actionTitle: t('common.undo'),
+        onAction: () => setAvatar(previous),
+      });
+    } catch (error) {
+      console.error('Failed to save profile photo:', error);
+      Alert.alert(t('common.error'), t('errors.saveImage'));
+    } finally {
+      setIsSavingImage(false);
+    }
+  }, [currentAvatar, setAvatar, showSnackbar, t]);
 
-  const handleUpdateProfile = useCallback((updatedProfile: UserProfile) => {
-    setProfile(updatedProfile);
-  }, []);
+  const handleImageRemove = useCallback(() => {
+    const previous = currentAvatar;
+    setAvatar(null);
+    setIsImageModalVisible(false);
+    showSnackbar({
+      message: t('profileImage.removed'),
+      actionTitle: t('common.undo'),
+      onAction: () => setAvatar(previous),
+    });
+  }, [currentAvatar, setAvatar, showSnackbar, t]);
 
   const handleEditProfile = useCallback(() => {
-    navigation.navigate('EditProfile', {
-      profile,
-      onUpdateProfile: handleUpdateProfile,
-    });
-  }, [navigation, profile, handleUpdateProfile]);
+    navigation.navigate('EditProfile');
+  }, [navigation]);
 
-  const handleEventPress = useCallback((event: Event) => {
+  const handleShareProfile = useCallback(() => {
+    setIsShareModalVisible(true);
+  }, []);
+
+  const handleEventPress = useCallback((event: Event | UpcomingEvent) => {
     navigation.navigate('EventDetail', {
-      event,
+      eventId: event.id,
     });
   }, [navigation]);
 
-  const renderEventCard = useCallback(({ item }: { item: Event }) => (
-    <EventCard event={item} onPress={() => handleEventPress(item)} />
-  ), [handleEventPress]);
+  const handleExportEvents = useCallback(async () => {
+    if (!attendedEvents || attendedEvents.length === 0) {
+      Alert.alert(t('calendar.nothingToExportTitle'), t('calendar.nothingToExportMessage'));
+      return;
+    }
+
+    try {
+      await shareEventsFeed(attendedEvents, {
+        dialogTitle: t('calendar.exportDialogTitle'),
+        calendarName: t('calendar.feedName'),
+      });
+    } catch (error) {
+      Alert.alert(t('common.error'), t('calendar.exportFeedFailed'));
+      console.error('Calendar export error:', error);
+    }
+  }, [attendedEvents, t]);
+
+  const renderEventItem = useCallback(({ item }: { item: EventListItem }) => (
+    <View style={styles.eventItem}>
+      {item.type === 'month' ? (
+        <TimelineMonthHeader title={item.title} />
+      ) : eventsView === 'timeline' ? (
+        <TimelineItem
+          event={item.event}
+          onPress={handleEventPress}
+          isLast={item.isLastInGroup}
+        />
+      ) : (
+        <EventCard
+          event={item.event}
+          onPress={handleEventPress}
+          pendingSync={pendingEventIds.has(item.event.id)}
+        />
+      )}
+    </View>
+  ), [eventsView, handleEventPress, pendingEventIds, styles]);
+
+  const handleRefresh = useCallback(async () => {
+    setIsRefreshing(true);
+    await Promise.all([refreshProfile(), refreshEvents()]);
+    setIsRefreshing(false);
+  }, [refreshProfile, refreshEvents]);
+
+  const handleReviewConflict = useCallback(() => {
+    const [conflict] = conflicts;
+    if (!conflict) return;
+
+    const { mutation } = conflict;
+    let message = t('sync.profileConflict');
+    if (mutation.type === 'RATE_EVENT') {
+      message = mutation.rating === null
+        ? t('sync.clearedRatingConflict', { title: mutation.base.title })
+        : t('sync.ratingConflict', { count: mutation.rating, title: mutation.base.title });
+    }
+
+    Alert.alert(t('sync.conflictTitle'), message, [
+      { text: t('sync.keepMine'), onPress: () => resolveConflict(mutation.id, true) },
+      { text: t('sync.useServer'), onPress: () => resolveConflict(mutation.id, false) },
+      { text: t('common.cancel'), style: 'cancel' },
+    ]);
+  }, [conflicts, resolveConflict, t]);
 
   const getImageSource = useCallback((): ImageSourcePropType => {
-    return profileImageUri ? { uri: profileImageUri } : defaultProfileImage;
-  }, [profileImageUri, defaultProfileImage]);
+    return profileThumbnailUri ? { uri: profileThumbnailUri } : defaultProfileImage;
+  }, [profileThumbnailUri, defaultProfileImage]);
 
   const getImageUriForModal = useCallback((): string => {
     return profileImageUri || Image.resolveAssetSource(defaultProfileImage).uri;
   }, [profileImageUri, defaultProfileImage]);
 
-  const formatDate = useCallback((dateString?: string) => {
-    if (!dateString) return null;
-    return new Date(dateString).toLocaleDateString('en-US', {
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric',
-    });
-  }, []);
+  if (!profile) {
+    return error && !isSyncing ? (
+      <StatusView
+        icon="cloud-off"
+        message={t(describeApiError(error))}
+        actionTitle={t('common.tryAgain')}
+        onAction={refreshProfile}
+      />
+    ) : (
+      <StatusView loading message={t('profile.loading')} />
+    );
+  }
 
-  const calculateAge = useCallback((birthdate?: string) => {
-    if (!birthdate) return null;
-    const today = new Date();
-    const birth = new Date(birthdate);
-    let age = today.getFullYear() - birth.getFullYear();
-    const monthDiff = today.getMonth() - birth.getMonth();
-    if (monthDiff < 0 || (monthDiff === 0 && today.getDate() < birth.getDate())) {
-      age--;
-    }
-    return age;
-  }, []);
+  // Impossible birthdates (in the future, or not a real day) are not shown
+  const birthdate = profile.birthdate ? parseBirthdate(profile.birthdate) : null;
+  const age = profile.birthdate ? calculateAge(profile.birthdate) : null;
 
   const renderHeader = () => (
     <LinearGradient
-      colors={Colors.gradients.primary as [string, string]}
+      colors={colors.gradients.primary as [string, string]}
       style={styles.headerGradient}
       start={{ x: 0, y: 0 }}
       end={{ x: 1, y: 1 }}
     >
       <SafeAreaView style={styles.headerSafeArea}>
         <View style={styles.headerContent}>
-          {/* Edit Button */}
-          <TouchableOpacity style={styles.editButton} onPress={handleEditProfile}>
-            <MaterialIcons name="edit" size={18} color={Colors.text.white} />
-          </TouchableOpacity>
+          {/* Share and Edit Buttons */}
+          <View style={styles.headerActions}>
+            <TouchableOpacity
+              style={styles.headerButton}
+              onPress={handleShareProfile}
+              accessibilityLabel={t('profileShare.title')}
+            >
+              <MaterialIcons name="qr-code" size={18} color={colors.text.white} />
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.headerButton} onPress={handleEditProfile}>
+              <MaterialIcons name="edit" size={18} color={colors.text.white} />
+            </TouchableOpacity>
+          </View>
+
+          {/* Sync Status */}
+          {(outbox.length > 0 || !isOnline) && (
+            <View style={styles.syncBadge}>
+              <MaterialIcons
+                name={isOnline ? 'cloud-upload' : 'cloud-off'}
+                size={14}
+                color={colors.text.white}
+              />
+              <Text style={styles.syncBadgeText}>
+                {outbox.length > 0
+                  ? t('sync.pendingCount', { count: outbox.length })
+                  : t('sync.offline')}
+              </Text>
+            </View>
+          )}
 
           {/* Profile Image */}
-          <TouchableOpacity onPress={handleImagePress} style={styles.imageContainer}>
+          <TouchableOpacity
+            onPress={handleImagePress}
+            style={styles.imageContainer}
+            disabled={isSavingImage}
+          >
             <Image
               source={getImageSource()}
               style={styles.profileImage}
               defaultSource={require('../../assets/favicon.png')}
             />
+            {isSavingImage && (
+              <View style={styles.imageSaving}>
+                <ActivityIndicator color={colors.text.white} />
+              </View>
+            )}
             <View style={styles.imageOverlay}>
-              <MaterialIcons name="camera-alt" size={20} color={Colors.text.white} />
+              <MaterialIcons name="camera-alt" size={20} color={colors.text.white} />
             </View>
           </TouchableOpacity>
           
@@ -122,7 +375,7 @@ export const ProfileScreen: React.FC<ProfileScreenProps> = ({ navigation, route
           )}
           {profile.location && (
             <View style={styles.locationContainer}>
-              <MaterialIcons name="location-on" size={16} color={Colors.text.white} />
+              <MaterialIcons name="location-on" size={16} color={colors.text.white} />
               <Text style={styles.location}>{profile.location}</Text>
             </View>
           )}
@@ -133,20 +386,22 @@ export const ProfileScreen: React.FC<ProfileScreenProps> = ({ navigation, route
 
   const renderPersonalInfo = () => (
     <AnimatedCard style={styles.infoCard}>
-      <Text style={styles.sectionTitle}>About</Text>
+      <Text style={styles.sectionTitle}>{t('profile.about')}</Text>
       <Text style={styles.bio}>{profile.bio}</Text>
 
       {/* Personal Details */}
       <View style={styles.detailsContainer}>
-        {profile.birthdate && (
+        {birthdate && age !== null && (
           <View style={styles.detailRow}>
             <View style={styles.iconWrapper}>
-              <MaterialIcons name="cake" size={18} color={Colors.primary} />
+              <MaterialIcons name="cake" size={18} color={colors.primary} />
             </View>
             <View style={styles.detailContent}>
-              <Text style={styles.detailLabel}>Birthday</Text>
+              <Text style={styles.detailLabel}>{t('profile.birthday')}</Text>
               <Text style={styles.detailValue}>
-                {formatDate(profile.birthdate)} • {calculateAge(profile.birthdate)} years old
+                {formatDate(birthdate, 'longDate', locale)} • {t('profile.age', {
+                  count: age,
+                })}
               </Text>
             </View>
           </View>
@@ -155,10 +410,10 @@ export const ProfileScreen: React.FC<ProfileScreenProps> = ({ navigation, route
         {profile.email && (
           <View style={styles.detailRow}>
             <View style={styles.iconWrapper}>
-              <MaterialIcons name="email" size={18} color={Colors.primary} />
+              <MaterialIcons name="email" size={18} color={colors.primary} />
             </View>
             <View style={styles.detailContent}>
-              <Text style={styles.detailLabel}>Email</Text>
+              <Text style={styles.detailLabel}>{t('profile.email')}</Text>
               <Text style={styles.detailValue}>{profile.email}</Text>
             </View>
           </View>
@@ -167,10 +422,10 @@ export const ProfileScreen: React.FC<ProfileScreenProps> = ({ navigation, route
         {profile.phone && (
           <View style={styles.detailRow}>
             <View style={styles.iconWrapper}>
-              <MaterialIcons name="phone" size={18} color={Colors.primary} />
+              <MaterialIcons name="phone" size={18} color={colors.primary} />
             </View>
             <View style={styles.detailContent}>
-              <Text style={styles.detailLabel}>Phone</Text>
+              <Text style={styles.detailLabel}>{t('profile.phone')}</Text>
               <Text style={styles.detailValue}>{profile.phone}</Text>
             </View>
           </View>
@@ -184,7 +439,7 @@ export const ProfileScreen: React.FC<ProfileScreenProps> = ({ navigation, route
     
     return (
       <AnimatedCard style={styles.interestsCard}>
-        <Text style={styles.sectionTitle}>Interests</Text>
+        <Text style={styles.sectionTitle}>{t('profile.interests')}</Text>
         <View style={styles.interestsContainer}>
           {profile.interests.map((interest, index) => (
             <View key={index} style={styles.interestTag}>
@@ -200,76 +455,240 @@ export const ProfileScreen: React.FC<ProfileScreenProps> = ({ navigation, route
     <AnimatedCard style={styles.statsCard}>
       <View style={styles.statsContainer}>
         <View style={styles.statItem}>
-          <Text style={styles.statNumber}>{profile.attendedEvents.length}</Text>
-          <Text style={styles.statLabel}>Events Attended</Text>
+          <Text style={styles.statNumber}>{formatNumber(profile.attendedEvents.length)}</Text>
+          <Text style={styles.statLabel}>{t('profile.eventsAttended')}</Text>
         </View>
         <View style={styles.statDivider} />
         <View style={styles.statItem}>
-          <Text style={styles.statNumber}>
-            {profile.attendedEvents.filter(e => e.rated).length}
-          </Text>
-          <Text style={styles.statLabel}>Events Rated</Text>
+          <Text style={styles.statNumber}>{formatNumber(ratedEventCount)}</Text>
+          <Text style={styles.statLabel}>{t('profile.eventsRated')}</Text>
         </View>
       </View>
     </AnimatedCard>
   );
 
+  const renderUpcomingEvents = () => {
+    if (profile.upcomingEvents.length === 0) return null;
+
+    return (
+      <View style={styles.upcomingSection}>
+        <View style={styles.eventsHeader}>
+          <Text style={styles.eventsTitle}>{t('upcoming.title')}</Text>
+          <Text style={styles.eventsSubtitle}>
+            {t('upcoming.subtitle')}
+          </Text>
+        </View>
+        {profile.upcomingEvents.map(event => (
+          <UpcomingEventCard
+            key={event.id}
+            event={event}
+            onPress={() => handleEventPress(event)}
+          />
+        ))}
+      </View>
+    );
+  };
+
   const renderEventsHeader = () => (
-    <View style={styles.eventsHeader}>
-      <Text style={styles.eventsTitle}>Past Events</Text>
-      <Text style={styles.eventsSubtitle}>
-        Tap any event to view details and rate your experience
-      </Text>
+    <View>
+      <View style={styles.eventsHeader}>
+        <View style={styles.eventsTitleRow}>
+          <Text style={styles.eventsTitle}>{t('events.pastTitle')}</Text>
+          <TouchableOpacity
+            onPress={() => navigation.navigate('EventsMap')}
+            style={[styles.headerAction, styles.firstHeaderAction]}
+          >
+            <MaterialIcons name="map" size={20} color={colors.primary} />
+          </TouchableOpacity>
+          <TouchableOpacity onPress={handleExportEvents} style={styles.headerAction}>
+            <MaterialIcons name="ios-share" size={20} color={colors.primary} />
+          </TouchableOpacity>
+          <View style={styles.viewSwitcher}>
+            {EVENTS_VIEW_OPTIONS.map(({ view, icon }) => (
+              <TouchableOpacity
+                key={view}
+                onPress={() => setEventsView(view)}
+                style={[styles.viewOption, eventsView === view && styles.viewOptionSelected]}
+              >
+                <MaterialIcons
+                  name={icon}
+                  size={18}
+                  color={eventsView === view ? colors.text.white : colors.text.secondary}
+                />
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+        <Text style={styles.eventsSubtitle}>
+          {visibleEvents.length === profile.attendedEvents.length
+            ? t('events.subtitle')
+            : t('events.showingCount', {
+                visible: formatNumber(visibleEvents.length),
+                count: profile.attendedEvents.length,
+              })}
+        </Text>
+      </View>
+      <EventSearchBar
+        value={filters.query}
+        onChangeText={(query) => updateFilters({ query })}
+      />
+      <EventFilterBar
+        filters={filters}
+        locations={eventLocations}
+        onChange={updateFilters}
+        onReset={resetFilters}
+      />
+      {eventsView === 'calendar' && (
+        <>
+          <EventCalendar
+            events={visibleEvents}
+            selectedDay={selectedDay}
+            onSelectDay={setSelectedDay}
+          />
+          {selectedDay && (
+            <Text style={styles.selectedDayTitle}>{formatDayHeading(selectedDay, locale)}</Text>
+          )}
+        </>
+      )}
     </View>
   );
 
+  const renderEventsEmpty = () => {
+    // The footer covers a first page that is still loading or failed
+    if (isPaged && (isLoadingEvents || eventsError)) return null;
+
+    if (!isPaged && !selectedDay) {
+      return (
+        <View style={styles.emptyEvents}>
+          <Text style={styles.emptyEventsText}>{t('events.calendarHint')}</Text>
+        </View>
+      );
+    }
+
+    return (
+      <View style={styles.emptyEvents}>
+        <MaterialIcons name="search-off" size={40} color={colors.text.tertiary} />
+        <Text style={styles.emptyEventsText}>
+          {profile.attendedEvents.length === 0
+            ? t('events.emptyHistory')
+            : t('events.noMatches')}
+        </Text>
+        {profile.attendedEvents.length > 0 && (
+          <AnimatedButton
+            title={t('filters.clearAll')}
+            onPress={resetFilters}
+            variant="outline"
+            size="sm"
+          />
+        )}
+      </View>
+    );
+  };
+
+  const renderListHeader = () => (
+    <View>
+      {renderHeader()}
+
+      <View style={styles.contentContainer}>
+        {error && !isSyncing && (
+          <ErrorBanner
+            message={t('profile.showingSaved', { reason: t(describeApiError(error)) })}
+            onRetry={refreshProfile}
+          />
+        )}
+        {conflicts.length > 0 && (
+          <ErrorBanner
+            message={t('sync.conflictBanner', { count: conflicts.length })}
+            onRetry={handleReviewConflict}
+            retryTitle={t('sync.review')}
+          />
+        )}
+        {renderPersonalInfo()}
+        {renderInterests()}
+        {renderStats()}
+        {renderUpcomingEvents()}
+        {renderEventsHeader()}
+      </View>
+    </View>
+  );
+
+  const renderListFooter = () => {
+    if (isPaged && eventsError) {
+      return (
+        <View style={styles.listFooter}>
+          <ErrorBanner message={t(describeApiError(eventsError))} onRetry={retryEvents} />
+        </View>
+      );
+    }
+    // Pull-to-refresh has its own spinner, so a reload of the shown rows skips this one
+    if (isPaged && (isLoadingMore || (isLoadingEvents && pagedEvents.length === 0))) {
+      return (
+        <View style={styles.listFooter}>
+          <ActivityIndicator color={colors.primary} />
+        </View>
+      );
+    }
+    return <View style={styles.bottomSpacer} />;
+  };
+
   return (
     <View style={styles.container}>
-      <ScrollView
-        style={styles.scrollView}
+      {/* Events List */}
+      <FlatList
+        data={listItems}
+        keyExtractor={(item) => item.type === 'month' ? `month-${item.key}` : `event-${item.event.id}`}
+        renderItem={renderEventItem}
+        ListHeaderComponent={renderListHeader()}
+        ListEmptyComponent={renderEventsEmpty()}
+        ListFooterComponent={renderListFooter()}
+        onEndReached={isPaged ? loadMore : undefined}
+        onEndReachedThreshold={0.5}
+        refreshControl={
+          <RefreshControl
+            refreshing={isRefreshing}
+            onRefresh={handleRefresh}
+            tintColor={colors.text.white}
+            colors={[colors.primary]}
+          />
+        }
+        initialNumToRender={8}
+        maxToRenderPerBatch={10}
+        windowSize={11}
+        removeClippedSubviews
+        keyboardShouldPersistTaps="handled"
         showsVerticalScrollIndicator={false}
-        contentContainerStyle={styles.scrollContent}
-      >
-        {renderHeader()}
-        
-        <View style={styles.contentContainer}>
-          {renderPersonalInfo()}
-          {renderInterests()}
-          {renderStats()}
-          {renderEventsHeader()}
-          
-          {/* Events List */}
-          {profile.attendedEvents.map((event, index) => (
-            <EventCard
-              key={event.id}
-              event={event}
-              onPress={() => handleEventPress(event)}
-            />
-          ))}
-          
-          <View style={styles.bottomSpacer} />
-        </View>
-      </ScrollView>
+        style={styles.list}
+        contentContainerStyle={styles.listContent}
+      />
 
       <ImageZoomModal
         visible={isImageModalVisible}
         imageUri={getImageUriForModal()}
         onClose={() => setIsImageModalVisible(false)}
         onImageChange={handleImageChange}
+        onImageRemove={currentAvatar ? handleImageRemove : undefined}
       />
+
+      <ProfileShareModal
+        visible={isShareModalVisible}
+        profile={profile}
+        onClose={() => setIsShareModalVisible(false)}
+      />
+
+      <Snackbar snackbar={snackbar} onDismiss={hideSnackbar} />
     </View>
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (colors: ColorPalette) => StyleSheet.create({
   container: {
     flex: 1,
-    backgroundColor: Colors.background.secondary,
+    backgroundColor: colors.background.secondary,
   },
-  scrollView: {
+  list: {
     flex: 1,
   },
-  scrollContent: {
+  listContent: {
     flexGrow: 1,
   },
   headerGradient: {
@@ -283,15 +702,37 @@ const styles = StyleSheet.create({
     paddingHorizontal: Spacing.base,
     paddingBottom: Spacing.lg,
   },
-  editButton: {
+  headerActions: {
     position: 'absolute',
     top: 0,
     right: Spacing.base,
+    flexDirection: 'row',
+    zIndex: 1,
+  },
+  headerButton: {
     backgroundColor: 'rgba(255, 255, 255, 0.2)',
     padding: Spacing.md,
     borderRadius: BorderRadius.full,
+    marginLeft: Spacing.sm,
+  },
+  syncBadge: {
+    position: 'absolute',
+    top: Spacing.sm,
+    left: Spacing.base,
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.full,
     zIndex: 1,
   },
+  syncBadgeText: {
+    color: colors.text.white,
+    fontSize: Typography.size.xs,
+    fontWeight: Typography.weight.medium as any,
+    marginLeft: Spacing.xs,
+  },
   imageContainer: {
     position: 'relative',
     marginBottom: Spacing.lg,
@@ -301,29 +742,36 @@ const styles = StyleSheet.create({
     height: 120,
     borderRadius: 60,
     borderWidth: 4,
-    borderColor: Colors.text.white,
+    borderColor: colors.text.white,
+  },
+  imageSaving: {
+    ...StyleSheet.absoluteFillObject,
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderRadius: 60,
+    backgroundColor: colors.background.overlay,
   },
   imageOverlay: {
     position: 'absolute',
     bottom: 0,
     right: 0,
-    backgroundColor: Colors.primary,
+    backgroundColor: colors.primary,
     padding: Spacing.sm,
     borderRadius: BorderRadius.full,
     borderWidth: 2,
-    borderColor: Colors.text.white,
+    borderColor: colors.text.white,
   },
   name: {
     fontSize: Typography.size['3xl'],
     fontWeight: Typography.weight.bold as any,
-    color: Colors.text.white,
+    color: colors.text.white,
     marginBottom: Spacing.xs,
     textAlign: 'center',
   },
   occupation: {
     fontSize: Typography.size.lg,
     fontWeight: Typography.weight.medium as any,
-    color: Colors.text.white,
+    color: colors.text.white,
     marginBottom: Spacing.sm,
     textAlign: 'center',
     opacity: 0.9,
@@ -334,7 +782,7 @@ const styles = StyleSheet.create({
   },
   location: {
     fontSize: Typography.size.base,
-    color: Colors.text.white,
+    color: colors.text.white,
     marginLeft: Spacing.xs,
     opacity: 0.8,
   },
@@ -348,12 +796,12 @@ const styles = StyleSheet.create({
   sectionTitle: {
     fontSize: Typography.size.xl,
     fontWeight: Typography.weight.bold as any,
-    color: Colors.text.primary,
+    color: colors.text.primary,
     marginBottom: Spacing.base,
   },
   bio: {
     fontSize: Typography.size.base,
-    color: Colors.text.secondary,
+    color: colors.text.secondary,
     lineHeight: Typography.size.base * Typography.lineHeight.relaxed,
     marginBottom: Spacing.lg,
   },
@@ -368,7 +816,7 @@ const styles = StyleSheet.create({
     width: 40,
     height: 40,
     borderRadius: BorderRadius.md,
-    backgroundColor: Colors.primaryUltraLight,
+    backgroundColor: colors.primaryUltraLight,
     alignItems: 'center',
     justifyContent: 'center',
     marginRight: Spacing.md,
@@ -379,12 +827,12 @@ const styles = StyleSheet.create({
   detailLabel: {
     fontSize: Typography.size.sm,
     fontWeight: Typography.weight.medium as any,
-    color: Colors.text.tertiary,
+    color: colors.text.tertiary,
     marginBottom: 2,
   },
   detailValue: {
     fontSize: Typography.size.base,
-    color: Colors.text.primary,
+    color: colors.text.primary,
   },
   interestsCard: {
     marginBottom: Spacing.base,
@@ -395,13 +843,13 @@ const styles = StyleSheet.create({
     gap: Spacing.sm,
   },
   interestTag: {
-    backgroundColor: Colors.primaryUltraLight,
+    backgroundColor: colors.primaryUltraLight,
     borderRadius: BorderRadius.lg,
     paddingHorizontal: Spacing.base,
     paddingVertical: Spacing.sm,
   },
   interestText: {
-    color: Colors.primary,
+    color: colors.primary,
     fontSize: Typography.size.sm,
     fontWeight: Typography.weight.medium as any,
   },
@@ -419,32 +867,84 @@ const styles = StyleSheet.create({
   statNumber: {
     fontSize: Typography.size['2xl'],
     fontWeight: Typography.weight.bold as any,
-    color: Colors.primary,
+    color: colors.primary,
     marginBottom: Spacing.xs,
   },
   statLabel: {
     fontSize: Typography.size.sm,
-    color: Colors.text.secondary,
+    color: colors.text.secondary,
     textAlign: 'center',
   },
   statDivider: {
     width: 1,
     height: 40,
-    backgroundColor: Colors.border.light,
+    backgroundColor: colors.border.light,
     marginHorizontal: Spacing.lg,
   },
+  upcomingSection: {
+    marginBottom: Spacing.xl,
+  },
   eventsHeader: {
     marginBottom: Spacing.lg,
   },
+  eventsTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  headerAction: {
+    marginRight: Spacing.sm,
+    padding: Spacing.xs,
+  },
+  firstHeaderAction: {
+    marginLeft: 'auto',
+  },
+  viewSwitcher: {
+    flexDirection: 'row',
+    backgroundColor: colors.background.tertiary,
+    borderRadius: BorderRadius.full,
+    padding: 2,
+  },
+  viewOption: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.full,
+  },
+  viewOptionSelected: {
+    backgroundColor: colors.primary,
+  },
+  selectedDayTitle: {
+    fontSize: Typography.size.lg,
+    fontWeight: Typography.weight.semibold as any,
+    color: colors.text.primary,
+    marginBottom: Spacing.md,
+  },
   eventsTitle: {
     fontSize: Typography.size.xl,
     fontWeight: Typography.weight.bold as any,
-    color: Colors.text.primary,
+    color: colors.text.primary,
     marginBottom: Spacing.xs,
   },
   eventsSubtitle: {
     fontSize: Typography.size.base,
-    color: Colors.text.secondary,
+    color: colors.text.secondary,
+  },
+  eventItem: {
+    paddingHorizontal: Spacing.base,
+  },
+  emptyEvents: {
+    alignItems: 'center',
+    paddingHorizontal: Spacing.base,
+    paddingVertical: Spacing['2xl'],
+    gap: Spacing.md,
+  },
+  emptyEventsText: {
+    fontSize: Typography.size.base,
+    color: colors.text.secondary,
+    textAlign: 'center',
+  },
+  listFooter: {
+    paddingVertical: Spacing.xl,
   },
   bottomSpacer: {
     height: Spacing['2xl'],
@@ -0,0 +1,87 @@
+import { Event, UserProfile } from '../../types';
+import { migrateProfile } from '../profileStorage';
+import { describeFieldErrors, validateUserProfile } from '../../utils/profileValidation';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+// Version 2 events: dates have no UTC offset and there is no time zone
+type LegacyEvent = Omit<Event, 'timeZone'> & Partial<Pick<Event, 'timeZone'>>;
+
+interface LegacyProfile extends Omit<UserProfile, 'attendedEvents'> {
+  attendedEvents: LegacyEvent[];
+}
+
+const legacyProfile = (events: Partial<LegacyEvent>[], location?: string): LegacyProfile => ({
+  name: 'Ada',
+  bio: 'Mathematician',
+  location,
+  interests: [],
+  attendedEvents: events.map((event, index) => ({
+    id: index + 1,
+    title: 'Event',
+    description: '',
+    location: 'Somewhere',
+    date: '2024-05-01T19:30:00',
+    rated: false,
+    ...event,
+  })),
+  upcomingEvents: [],
+});
+
+// Migrated data is only used once it passes validation, so check that too
+const migrate = (profile: LegacyProfile) => {
+  const validation = validateUserProfile(migrateProfile({ schemaVersion: 2, profile }));
+  if (!validation.ok) throw new Error(describeFieldErrors(validation.errors));
+  return validation.data;
+};
+
+describe('migrateProfile from version 2', () => {
+  it('reads dates in the zone of the venue named in the location', () => {
+    const [event] = migrate(legacyProfile([{ location: 'Galaxy Arena, Macau' }])).attendedEvents;
+
+    expect(event.timeZone).toBe('Asia/Macau');
+    expect(event.date).toBe('2024-05-01T19:30:00+08:00');
+  });
+
+  it('prefers the venue coordinates over its location text', () => {
+    const [event] = migrate(legacyProfile([{
+      location: 'Hong Kong',
+      coordinates: { latitude: 22.54, longitude: 114.06 },
+    }])).attendedEvents;
+
+    expect(event.timeZone).toBe('Asia/Shanghai');
+  });
+
+  it('falls back to the zone of the profile location for unknown venues', () => {
+    const [event] = migrate(legacyProfile([{ location: 'A friend\'s flat' }], 'Macau')).attendedEvents;
+
+    expect(event.timeZone).toBe('Asia/Macau');
+  });
+
+  it('falls back to the device zone when nothing else is known', () => {
+    const [event] = migrate(legacyProfile([{ location: 'Town hall' }])).attendedEvents;
+
+    expect(event.timeZone).toBe(Intl.DateTimeFormat().resolvedOptions().timeZone);
+  });
+
+  it('keeps dates that already carry an offset', () => {
+    const [event] = migrate(legacyProfile([{
+      location: 'Brooklyn',
+      date: '2024-05-01T19:30:00-04:00',
+      timeZone: 'America/New_York',
+    }])).attendedEvents;
+
+    expect(event.date).toBe('2024-05-01T19:30:00-04:00');
+    expect(event.timeZone).toBe('America/New_York');
+  });
+
+  it('leaves events it cannot read for validation to report', () => {
+    const migrated = migrateProfile({ schemaVersion: 2, profile: legacyProfile([{ date: 'last Tuesday' }]) });
+    const validation = validateUserProfile(migrated);
+
+    expect(validation.ok).toBe(false);
+    expect(!validation.ok && validation.errors.map(({ path }) => path)).toContain('attendedEvents.0.date');
+  });
+});
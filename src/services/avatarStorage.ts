@@ -0,0 +1,62 @@
+import * as FileSystem from 'expo-file-system';
+import { PickedImage, renderJpeg } from './imageProcessing';
+
+// Square sizes in pixels; the thumbnail is what the profile header shows
+const FULL_SIZE = 1024;
+const THUMBNAIL_SIZE = 256;
+const FULL_QUALITY = 0.8;
+const THUMBNAIL_QUALITY = 0.7;
+
+export interface StoredAvatar {
+  imageUri: string;
+  thumbnailUri: string;
+}
+
+const getAvatarDirectory = () => {
+  if (!FileSystem.documentDirectory) {
+    throw new Error('App storage is not available on this device');
+  }
+  return `${FileSystem.documentDirectory}avatar/`;
+};
+
+const pruneAvatars = async (keep: string[]) => {
+  const directory = getAvatarDirectory();
+  try {
+    const names = await FileSystem.readDirectoryAsync(directory);
+    await Promise.all(
+      names
+        .map(name => `${directory}${name}`)
+        .filter(uri => !keep.includes(uri))
+        .map(uri => FileSystem.deleteAsync(uri, { idempotent: true }))
+    );
+  } catch (error) {
+    console.error('Failed to clean up old profile photos:', error);
+  }
+};
+
+/**
+ * Crops a picked image to a square, saves it as a full-size avatar and a thumbnail and moves both
+ * into the app's document directory, which survives restarts. Older avatars
+ * are deleted unless they are listed in `keep`, e.g. to allow an undo.
+ */
+export const saveAvatar = async (image: PickedImage, keep: string[] = []): Promise<StoredAvatar> => {
+  const directory = getAvatarDirectory();
+  await FileSystem.makeDirectoryAsync(directory, { intermediates: true });
+
+  const [full, thumbnail] = await Promise.all([
+    renderJpeg(image, { size: FULL_SIZE, compress: FULL_QUALITY, square: true }),
+    renderJpeg(image, { size: THUMBNAIL_SIZE, compress: THUMBNAIL_QUALITY, square: true }),
+  ]);
+
+  // File names change with every save so cached images are never reused
+  const stamp = Date.now();
+  const avatar: StoredAvatar = {
+    imageUri: `${directory}${stamp}.jpg`,
+    thumbnailUri: `${directory}${stamp}-thumb.jpg`,
+  };
+  await FileSystem.moveAsync({ from: full, to: avatar.imageUri });
+  await FileSystem.moveAsync({ from: thumbnail, to: avatar.thumbnailUri });
+
+  await pruneAvatars([avatar.imageUri, avatar.thumbnailUri, ...keep]);
+  return avatar;
+};
@@ -0,0 +1,47 @@
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { CalendarEvent, IcsOptions, buildCalendar, buildEventIcs, toIcsFileName } from '../utils/ics';
+
+const ICS_MIME_TYPE = 'text/calendar';
+const ICS_UTI = 'com.apple.ical.ics';
+
+/**
+ * Writes the calendar to the cache directory and opens the system share
+ * sheet for it. Rejects if sharing is not available on this device.
+ */
+const shareIcsFile = async (fileName: string, contents: string, dialogTitle: string) => {
+  if (!(await Sharing.isAvailableAsync()) || !FileSystem.cacheDirectory) {
+    throw new Error('Sharing is not available on this device');
+  }
+
+  const uri = `${FileSystem.cacheDirectory}${fileName}`;
+  await FileSystem.writeAsStringAsync(uri, contents, {
+    encoding: FileSystem.EncodingType.UTF8,
+  });
+  await Sharing.shareAsync(uri, {
+    mimeType: ICS_MIME_TYPE,
+    UTI: ICS_UTI,
+    dialogTitle,
+  });
+};
+
+export interface ShareCalendarOptions extends IcsOptions {
+  // Title of the Android share chooser
+  dialogTitle?: string;
+}
+
+export const shareEventToCalendar = (
+  event: CalendarEvent,
+  { dialogTitle = 'Add to calendar', ...options }: ShareCalendarOptions = {}
+) =>
+  shareIcsFile(toIcsFileName(event.title), buildEventIcs(event, options), dialogTitle);
+
+export const shareEventsFeed = (
+  events: CalendarEvent[],
+  { dialogTitle = 'Export events', ...options }: ShareCalendarOptions = {}
+) =>
+  shareIcsFile(
+    'attended-events.ics',
+    buildCalendar(events, { calendarName: 'Attended Events', ...options }),
+    dialogTitle
+  );
@@ -0,0 +1,73 @@
+import * as FileSystem from 'expo-file-system';
+import { EventPhoto } from '../types';
+import { PickedImage, renderJpeg } from './imageProcessing';
+
+// Longest edge in pixels; thumbnails fill the photo strip and event card covers
+const FULL_SIZE = 2048;
+const THUMBNAIL_SIZE = 512;
+const FULL_QUALITY = 0.8;
+const THUMBNAIL_QUALITY = 0.7;
+
+const createId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+const getEventDirectory = (eventId: number) => {
+  if (!FileSystem.documentDirectory) {
+    throw new Error('App storage is not available on this device');
+  }
+  return `${FileSystem.documentDirectory}event-photos/${eventId}/`;
+};
+
+/**
+ * Saves a resized copy of the image and a thumbnail of it in the app's
+ * document directory, which survives restarts.
+ */
+export const saveEventPhoto = async (eventId: number, image: PickedImage): Promise<EventPhoto> => {
+  const directory = getEventDirectory(eventId);
+  await FileSystem.makeDirectoryAsync(directory, { intermediates: true });
+
+  const [full, thumbnail] = await Promise.all([
+    renderJpeg(image, { size: FULL_SIZE, compress: FULL_QUALITY }),
+    renderJpeg(image, { size: THUMBNAIL_SIZE, compress: THUMBNAIL_QUALITY }),
+  ]);
+
+  const id = createId();
+  const photo: EventPhoto = {
+    id,
+    uri: `${directory}${id}.jpg`,
+    thumbnailUri: `${directory}${id}-thumb.jpg`,
+    addedAt: new Date().toISOString(),
+  };
+  await FileSystem.moveAsync({ from: full, to: photo.uri });
+  await FileSystem.moveAsync({ from: thumbnail, to: photo.thumbnailUri });
+  return photo;
+};
+
+// Review photos are sent with the review as they are, so no thumbnail is made
+export const saveReviewPhoto = async (eventId: number, image: PickedImage): Promise<string> => {
+  const directory = `${getEventDirectory(eventId)}review/`;
+  await FileSystem.makeDirectoryAsync(directory, { intermediates: true });
+
+  const rendered = await renderJpeg(image, { size: FULL_SIZE, compress: FULL_QUALITY });
+  const uri = `${directory}${createId()}.jpg`;
+  await FileSystem.moveAsync({ from: rendered, to: uri });
+  return uri;
+};
+
+export const deleteReviewPhotoFile = async (uri: string): Promise<void> => {
+  try {
+    await FileSystem.deleteAsync(uri, { idempotent: true });
+  } catch (error) {
+    console.error('Failed to delete review photo:', error);
+  }
+};
+
+export const deleteEventPhotoFiles = async (photo: EventPhoto): Promise<void> => {
+  try {
+    await Promise.all([
+      FileSystem.deleteAsync(photo.uri, { idempotent: true }),
+      FileSystem.deleteAsync(photo.thumbnailUri, { idempotent: true }),
+    ]);
+  } catch (error) {
+    console.error('Failed to delete event photo:', error);
+  }
+};
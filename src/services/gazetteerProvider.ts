@@ -0,0 +1,129 @@
+import gazetteerData from '../data/gazetteer.json';
+import { GeocodeResult, GeocodingProvider } from './geocoding';
+
+type PlaceKind = 'landmark' | 'district' | 'city';
+
+export interface GazetteerEntry {
+  name: string;
+  aliases: string[];
+  kind: PlaceKind;
+  latitude: number;
+  longitude: number;
+  // IANA zone the place keeps its clocks in
+  timeZone: string;
+}
+
+// A named venue pins the spot down; a district or city only gets close
+const KIND_CONFIDENCE: Record<PlaceKind, number> = {
+  landmark: 0.9,
+  district: 0.6,
+  city: 0.3,
+};
+
+export const normalizeLocation = (location: string) =>
+  location
+    .toLowerCase()
+    .replace(/[^a-z0-9\u00C0-\uFFFF]+/g, ' ')
+    .trim();
+
+const DEFAULT_ENTRIES = gazetteerData as GazetteerEntry[];
+
+// Places further than this from every entry are outside the gazetteer's area
+const MAX_NEAREST_KM = 50;
+const EARTH_RADIUS_KM = 6371;
+
+type GazetteerIndex = { entry: GazetteerEntry; names: string[] }[];
+
+const createIndex = (entries: GazetteerEntry[]): GazetteerIndex =>
+  entries.map(entry => ({
+    entry,
+    names: [entry.name, ...entry.aliases].map(normalizeLocation),
+  }));
+
+const defaultIndex = createIndex(DEFAULT_ENTRIES);
+
+// A location matches an entry when the entry's name or an alias appears in it
+// as whole words; the most specific kind wins, then the longest name.
+const matchLocation = (index: GazetteerIndex, query: string) => {
+  const haystack = ` ${normalizeLocation(query)} `;
+  let best: { entry: GazetteerEntry; name: string; isExact: boolean } | null = null;
+
+  for (const { entry, names } of index) {
+    for (const name of names) {
+      if (!haystack.includes(` ${name} `)) continue;
+
+      const isBetter = !best
+        || KIND_CONFIDENCE[entry.kind] > KIND_CONFIDENCE[best.entry.kind]
+        || (entry.kind === best.entry.kind && name.length > best.name.length);
+      if (isBetter) {
+        best = { entry, name, isExact: haystack.trim() === name };
+      }
+    }
+  }
+  return best;
+};
+
+const distanceKm = (
+  from: { latitude: number; longitude: number },
+  to: { latitude: number; longitude: number }
+) => {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const a = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+};
+
+/**
+ * Time zone of a place, from its coordinates when known and otherwise from
+ * the places named in its location text. Null when the place is outside the
+ * bundled gazetteer.
+ */
+export const findPlaceTimeZone = (
+  { location, coordinates }: {
+    location?: string;
+    coordinates?: { latitude: number; longitude: number };
+  },
+  entries: GazetteerEntry[] = DEFAULT_ENTRIES
+): string | null => {
+  if (coordinates) {
+    let nearest: { entry: GazetteerEntry; distance: number } | null = null;
+    for (const entry of entries) {
+      const distance = distanceKm(coordinates, entry);
+      if (!nearest || distance < nearest.distance) nearest = { entry, distance };
+    }
+    if (nearest && nearest.distance <= MAX_NEAREST_KM) return nearest.entry.timeZone;
+  }
+
+  if (location) {
+    const index = entries === DEFAULT_ENTRIES ? defaultIndex : createIndex(entries);
+    return matchLocation(index, location)?.entry.timeZone ?? null;
+  }
+  return null;
+};
+
+// Offline geocoding against a bundled list of places
+export const createGazetteerProvider = (
+  entries: GazetteerEntry[] = DEFAULT_ENTRIES
+): GeocodingProvider => {
+  const index = entries === DEFAULT_ENTRIES ? defaultIndex : createIndex(entries);
+
+  return {
+    id: 'gazetteer',
+    geocode: async (query) => {
+      const best = matchLocation(index, query);
+      if (!best) return null;
+
+      const { entry, isExact } = best;
+      const result: GeocodeResult = {
+        latitude: entry.latitude,
+        longitude: entry.longitude,
+        // The whole query naming the place exactly is as good as it gets
+        confidence: isExact ? 1 : KIND_CONFIDENCE[entry.kind],
+        matchedName: entry.name,
+      };
+      return result;
+    },
+  };
+};
@@ -0,0 +1,86 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { createGazetteerProvider, normalizeLocation } from './gazetteerProvider';
+
+const GEOCODE_CACHE_KEY = '@profileapp/geocode-cache';
+
+// Matches scoring below this are shown with an "approximate location" badge
+export const LOW_CONFIDENCE_THRESHOLD = 0.75;
+
+export interface GeocodeResult {
+  latitude: number;
+  longitude: number;
+  // 0 to 1; how closely the match pins down the place that was asked for
+  confidence: number;
+  matchedName: string;
+}
+
+/**
+ * Anything that can turn a free-text location into coordinates. Swap the
+ * provider passed to createGeocoder to use an online service instead of the
+ * bundled gazetteer.
+ */
+export interface GeocodingProvider {
+  id: string;
+  geocode: (query: string) => Promise<GeocodeResult | null>;
+}
+
+export interface Geocoder {
+  geocode: (location: string) => Promise<GeocodeResult | null>;
+}
+
+type GeocodeCache = Record<string, GeocodeResult | null>;
+
+export const isApproximate = (result: GeocodeResult) =>
+  result.confidence < LOW_CONFIDENCE_THRESHOLD;
+
+/**
+ * Wraps a provider with a cache persisted to AsyncStorage, so each location
+ * is only ever looked up once per provider. Misses are cached too.
+ */
+export const createGeocoder = (provider: GeocodingProvider): Geocoder => {
+  let cachePromise: Promise<GeocodeCache> | null = null;
+  let writeQueue: Promise<void> = Promise.resolve();
+  const inFlight = new Map<string, Promise<GeocodeResult | null>>();
+
+  const loadCache = () => {
+    cachePromise ??= AsyncStorage.getItem(GEOCODE_CACHE_KEY)
+      .then(raw => (raw ? (JSON.parse(raw) as GeocodeCache) : {}))
+      .catch(error => {
+        console.error('Failed to load geocode cache:', error);
+        return {};
+      });
+    return cachePromise;
+  };
+
+  const persist = (cache: GeocodeCache) => {
+    writeQueue = writeQueue
+      .then(() => AsyncStorage.setItem(GEOCODE_CACHE_KEY, JSON.stringify(cache)))
+      .catch(error => {
+        console.error('Failed to save geocode cache:', error);
+      });
+  };
+
+  const lookup = async (key: string, location: string) => {
+    const cache = await loadCache();
+    if (key in cache) return cache[key];
+
+    const result = await provider.geocode(location);
+    cache[key] = result;
+    persist(cache);
+    return result;
+  };
+
+  return {
+    geocode: (location) => {
+      const key = `${provider.id}:${normalizeLocation(location)}`;
+      let pending = inFlight.get(key);
+      if (!pending) {
+        pending = lookup(key, location).finally(() => inFlight.delete(key));
+        inFlight.set(key, pending);
+      }
+      return pending;
+    },
+  };
+};
+
+export const geocoder = createGeocoder(createGazetteerProvider());
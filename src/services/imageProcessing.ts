@@ -0,0 +1,50 @@
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
+
+export interface PickedImage {
+  uri: string;
+  // Zero when the picker could not tell
+  width: number;
+  height: number;
+}
+
+interface RenderOptions {
+  // Longest edge in pixels; smaller images are never scaled up
+  size: number;
+  // JPEG quality between 0 and 1
+  compress: number;
+  // Crops the middle square out of the image first
+  square?: boolean;
+}
+
+/**
+ * Scales the image down and compresses it as a JPEG in the cache directory.
+ * Resolves to the new file's URI.
+ */
+export const renderJpeg = async (image: PickedImage, { size, compress, square = false }: RenderOptions) => {
+  const context = ImageManipulator.manipulate(image.uri);
+  const { width, height } = image;
+
+  if (width > 0 && height > 0) {
+    if (square) {
+      const side = Math.min(width, height);
+      context
+        .crop({
+          originX: Math.floor((width - side) / 2),
+          originY: Math.floor((height - side) / 2),
+          width: side,
+          height: side,
+        })
+        .resize({ width: Math.min(side, size), height: Math.min(side, size) });
+    } else if (width >= height) {
+      context.resize({ width: Math.min(width, size) });
+    } else {
+      context.resize({ height: Math.min(height, size) });
+    }
+  } else {
+    context.resize(square ? { width: size, height: size } : { width: size });
+  }
+
+  const rendered = await context.renderAsync();
+  const { uri } = await rendered.saveAsync({ compress, format: SaveFormat.JPEG });
+  return uri;
+};
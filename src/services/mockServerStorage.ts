@@ -0,0 +1,45 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { UserProfile } from '../types';
+import type { MockServerStorage } from '../api/mockServer';
+import { PROFILE_SCHEMA_VERSION, loadProfile, migrateProfile } from './profileStorage';
+import { describeFieldErrors, validateUserProfile } from '../utils/profileValidation';
+
+// Kept apart from the app's own cache: this is the "server side" copy
+const MOCK_SERVER_STORAGE_KEY = '@profileapp/mock-server';
+
+let writeQueue: Promise<void> = Promise.resolve();
+
+/**
+ * Saves the mock backend's data on the device, in the same versioned format
+ * as the profile cache so schema migrations apply to both.
+ */
+export const mockServerStorage: MockServerStorage = {
+  load: async () => {
+    try {
+      const raw = await AsyncStorage.getItem(MOCK_SERVER_STORAGE_KEY);
+      // Installs from before the mock kept its data start from the app's own
+      // cache, which holds every change the user made
+      if (!raw) return loadProfile();
+
+      const validation = validateUserProfile(migrateProfile(JSON.parse(raw)));
+      if (!validation.ok) {
+        throw new Error(`Stored mock server data is invalid: ${describeFieldErrors(validation.errors)}`);
+      }
+      return validation.data;
+    } catch (error) {
+      // Starting over from the seed beats a backend that can never answer
+      console.error('Failed to load mock server data:', error);
+      return null;
+    }
+  },
+
+  save: (profile: UserProfile) => {
+    const persisted = { schemaVersion: PROFILE_SCHEMA_VERSION, profile };
+    writeQueue = writeQueue
+      .then(() => AsyncStorage.setItem(MOCK_SERVER_STORAGE_KEY, JSON.stringify(persisted)))
+      .catch((error) => {
+        console.error('Failed to save mock server data:', error);
+      });
+    return writeQueue;
+  },
+};
@@ -0,0 +1,174 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Event, UserProfile } from '../types';
+import { ApiClient, ApiError, ProfileUpdate } from '../api';
+
+const OUTBOX_STORAGE_KEY = '@profileapp/outbox';
+
+// Each mutation records the copy it was based on, so that replay can tell
+// whether the server changed in the meantime.
+export type OutboxMutation =
+  | {
+      id: string;
+      type: 'RATE_EVENT';
+      createdAt: string;
+      eventId: number;
+      rating: number | null; // null clears the rating
+      base: Event;
+    }
+  | {
+      id: string;
+      type: 'UPDATE_PROFILE';
+      createdAt: string;
+      profile: ProfileUpdate;
+      base: ProfileUpdate;
+    };
+
+export interface OutboxConflict {
+  mutation: OutboxMutation;
+  server: Event | UserProfile;
+}
+
+export type ReplayOutcome =
+  | { type: 'applied'; result: Event | UserProfile }
+  | { type: 'conflict'; server: Event | UserProfile }
+  | { type: 'retry'; error: ApiError }
+  | { type: 'rejected'; error: ApiError };
+
+const createId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createRatingMutation = (
+  eventId: number,
+  rating: number | null,
+  base: Event
+): OutboxMutation => ({
+  id: createId(),
+  type: 'RATE_EVENT',
+  createdAt: new Date().toISOString(),
+  eventId,
+  rating,
+  base,
+});
+
+export const createProfileMutation = (
+  profile: ProfileUpdate,
+  base: ProfileUpdate
+): OutboxMutation => ({
+  id: createId(),
+  type: 'UPDATE_PROFILE',
+  createdAt: new Date().toISOString(),
+  profile,
+  base,
+});
+
+export const toProfileUpdate = ({
+  attendedEvents,
+  upcomingEvents,
+  ...update
+}: UserProfile): ProfileUpdate => update;
+
+const AVATAR_FIELDS = ['profileImageUrl', 'profileThumbnailUrl'];
+
+// Key order can differ between the server and local copies, so compare field by field
+const sameFields = (a: object, b: object, ignored: string[] = []): boolean => {
+  const left = a as Record<string, unknown>;
+  const right = b as Record<string, unknown>;
+  const keys = new Set([...Object.keys(left), ...Object.keys(right)]);
+  return [...keys]
+    .filter(key => !ignored.includes(key))
+    .every(key => JSON.stringify(left[key]) === JSON.stringify(right[key]));
+};
+
+export const withRating = (event: Event, rating: number | null): Event =>
+  rating === null
+    ? { ...event, rated: false, rating: undefined }
+    : { ...event, rated: true, rating };
+
+export const hasConflict = (
+  mutation: OutboxMutation,
+  server: Event | UserProfile
+): boolean => {
+  switch (mutation.type) {
+    case 'RATE_EVENT': {
+      const event = server as Event;
+      return event.rated !== mutation.base.rated || event.rating !== mutation.base.rating;
+    }
+    case 'UPDATE_PROFILE':
+      // The avatar is kept on the device, so it never counts as a conflict
+      return !sameFields(toProfileUpdate(server as UserProfile), mutation.base, AVATAR_FIELDS);
+  }
+};
+
+/**
+ * Applies a mutation on top of a local profile. Used to keep queued changes
+ * visible when a fresher copy arrives from the server.
+ */
+export const applyMutation = (profile: UserProfile, mutation: OutboxMutation): UserProfile => {
+  switch (mutation.type) {
+    case 'RATE_EVENT':
+      return {
+        ...profile,
+        attendedEvents: profile.attendedEvents.map(event =>
+          event.id === mutation.eventId ? withRating(event, mutation.rating) : event
+        ),
+      };
+    case 'UPDATE_PROFILE':
+      return { ...profile, ...mutation.profile };
+  }
+};
+
+export const isNetworkError = (error: ApiError) =>
+  error.kind === 'network' || error.kind === 'timeout';
+
+const failure = (error: ApiError): ReplayOutcome =>
+  isNetworkError(error) ? { type: 'retry', error } : { type: 'rejected', error };
+
+/**
+ * Sends a single queued mutation. The current server copy is fetched first and
+ * the mutation is held back as a conflict if it no longer matches the copy the
+ * change was based on.
+ */
+export const replayMutation = async (client: ApiClient, mutation: OutboxMutation): Promise<ReplayOutcome> => {
+  switch (mutation.type) {
+    case 'RATE_EVENT': {
+      const current = await client.getEvent(mutation.eventId);
+      if (!current.ok) return failure(current.error);
+      if (hasConflict(mutation, current.data)) {
+        return { type: 'conflict', server: current.data };
+      }
+      const result = await client.rateEvent(mutation.eventId, mutation.rating);
+      return result.ok ? { type: 'applied', result: result.data } : failure(result.error);
+    }
+    case 'UPDATE_PROFILE': {
+      const current = await client.getProfile();
+      if (!current.ok) return failure(current.error);
+      if (hasConflict(mutation, current.data)) {
+        return { type: 'conflict', server: current.data };
+      }
+      const result = await client.updateProfile(mutation.profile);
+      return result.ok ? { type: 'applied', result: result.data } : failure(result.error);
+    }
+  }
+};
+
+export interface OutboxSnapshot {
+  pending: OutboxMutation[];
+  conflicts: OutboxConflict[];
+}
+
+export const loadOutbox = async (): Promise<OutboxSnapshot> => {
+  try {
+    const raw = await AsyncStorage.getItem(OUTBOX_STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as OutboxSnapshot) : { pending: [], conflicts: [] };
+  } catch (error) {
+    console.error('Failed to load outbox:', error);
+    return { pending: [], conflicts: [] };
+  }
+};
+
+export const saveOutbox = async (snapshot: OutboxSnapshot): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(OUTBOX_STORAGE_KEY, JSON.stringify(snapshot));
+  } catch (error) {
+    console.error('Failed to save outbox:', error);
+  }
+};
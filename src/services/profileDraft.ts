@@ -0,0 +1,32 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ProfileUpdate } from '../api';
+
+// In-progress edits from the edit profile screen, kept until they are saved
+// or discarded so that they survive the app being killed.
+const PROFILE_DRAFT_KEY = '@profileapp/profile-draft';
+
+export const loadProfileDraft = async (): Promise<ProfileUpdate | null> => {
+  try {
+    const raw = await AsyncStorage.getItem(PROFILE_DRAFT_KEY);
+    return raw ? (JSON.parse(raw) as ProfileUpdate) : null;
+  } catch (error) {
+    console.error('Failed to load profile draft:', error);
+    return null;
+  }
+};
+
+export const saveProfileDraft = async (draft: ProfileUpdate): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(PROFILE_DRAFT_KEY, JSON.stringify(draft));
+  } catch (error) {
+    console.error('Failed to save profile draft:', error);
+  }
+};
+
+export const clearProfileDraft = async (): Promise<void> => {
+  try {
+    await AsyncStorage.removeItem(PROFILE_DRAFT_KEY);
+  } catch (error) {
+    console.error('Failed to clear profile draft:', error);
+  }
+};
@@ -0,0 +1,45 @@
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { UserProfile } from '../types';
+import { VCARD_MIME_TYPE, buildVCard, toVCardFileName } from '../utils/vcard';
+
+const VCARD_UTI = 'public.vcard';
+
+// The card carries the thumbnail inline so it arrives with the contact.
+// Photos that were never saved on this device are left out.
+const readPhoto = async (profile: UserProfile) => {
+  const uri = profile.profileThumbnailUrl ?? profile.profileImageUrl;
+  if (!uri?.startsWith('file:')) return undefined;
+
+  try {
+    const base64 = await FileSystem.readAsStringAsync(uri, {
+      encoding: FileSystem.EncodingType.Base64,
+    });
+    return `data:image/jpeg;base64,${base64}`;
+  } catch (error) {
+    console.warn('Failed to read profile photo for the contact card:', error);
+    return undefined;
+  }
+};
+
+/**
+ * Writes the profile as a contact card to the cache directory and opens the
+ * system share sheet for it. Rejects if sharing is not available on this
+ * device.
+ */
+export const shareContactCard = async (profile: UserProfile, dialogTitle = 'Share contact') => {
+  if (!(await Sharing.isAvailableAsync()) || !FileSystem.cacheDirectory) {
+    throw new Error('Sharing is not available on this device');
+  }
+
+  const uri = `${FileSystem.cacheDirectory}${toVCardFileName(profile.name)}`;
+  const contents = buildVCard(profile, { photo: await readPhoto(profile) });
+  await FileSystem.writeAsStringAsync(uri, contents, {
+    encoding: FileSystem.EncodingType.UTF8,
+  });
+  await Sharing.shareAsync(uri, {
+    mimeType: VCARD_MIME_TYPE,
+    UTI: VCARD_UTI,
+    dialogTitle,
+  });
+};
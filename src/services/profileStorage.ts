@@ -0,0 +1,160 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Event, UserProfile } from '../types';
+import { fromZonedTime, getDeviceTimeZone, hasUtcOffset, toOffsetIsoString } from '../utils/timeZone';
+import { describeFieldErrors, isRecord, isValidIsoDate, validateUserProfile } from '../utils/profileValidation';
+import { findPlaceTimeZone } from './gazetteerProvider';
+
+const PROFILE_STORAGE_KEY = '@profileapp/profile';
+
+// Bump this whenever the shape of UserProfile or Event changes, and add a
+// migration below that upgrades data saved by the previous version.
+export const PROFILE_SCHEMA_VERSION = 3;
+
+interface PersistedProfile {
+  schemaVersion: number;
+  profile: UserProfile;
+}
+
+type Fields = Record<string, unknown>;
+
+// Saved data comes from older versions of the app, so migrations check what
+// they read and leave anything unexpected for validateUserProfile to report
+type Migration = (profile: Fields) => Fields;
+
+// The fields of a version 2 event that the time zone migration reads. Dates
+// could lack an offset and there was no time zone.
+interface LegacyEventV2 extends Fields {
+  date: string;
+  location: string;
+  timeZone?: string;
+  coordinates?: Event['coordinates'];
+}
+
+const isCoordinates = (value: unknown): value is Event['coordinates'] =>
+  isRecord(value) && typeof value.latitude === 'number' && typeof value.longitude === 'number';
+
+const isLegacyEventV2 = (value: unknown): value is LegacyEventV2 =>
+  isRecord(value) &&
+  typeof value.date === 'string' &&
+  isValidIsoDate(value.date) &&
+  typeof value.location === 'string' &&
+  (value.timeZone === undefined || typeof value.timeZone === 'string') &&
+  (value.coordinates === undefined || isCoordinates(value.coordinates));
+
+// For venues the gazetteer doesn't know: the zone of the profile's own
+// location, or else the device's, which is how the app used to read these
+// dates
+const getFallbackEventTimeZone = ({ location }: Fields): string =>
+  findPlaceTimeZone({ location: typeof location === 'string' ? location : undefined }) ?? getDeviceTimeZone();
+
+// Offset-less dates were always the venue's wall-clock time, so they are read
+// in the venue's zone, worked out from its coordinates or location
+const withEventTimeZone = (fallbackTimeZone: string) => (event: LegacyEventV2): LegacyEventV2 => {
+  const timeZone = event.timeZone
+    ?? findPlaceTimeZone({ location: event.location, coordinates: event.coordinates })
+    ?? fallbackTimeZone;
+  const date = hasUtcOffset(event.date)
+    ? event.date
+    : toOffsetIsoString(fromZonedTime(event.date, timeZone), timeZone);
+  return { ...event, date, timeZone };
+};
+
+// Events that don't look like version 2 ones are left for validation to report
+const mapLegacyEvents = (events: unknown, update: (event: LegacyEventV2) => LegacyEventV2) =>
+  Array.isArray(events)
+    ? events.map(event => (isLegacyEventV2(event) ? update(event) : event))
+    : events;
+
+// migrations[n] upgrades a profile saved with schema version n to version n + 1
+const migrations: Record<number, Migration> = {
+  // 1 -> 2: upcoming events with RSVP status
+  1: (profile) => ({ ...profile, upcomingEvents: [] }),
+  // 2 -> 3: event dates carry a UTC offset and the venue's time zone
+  2: (profile) => {
+    const addTimeZone = withEventTimeZone(getFallbackEventTimeZone(profile));
+    return {
+      ...profile,
+      attendedEvents: mapLegacyEvents(profile.attendedEvents, addTimeZone),
+      upcomingEvents: mapLegacyEvents(profile.upcomingEvents, addTimeZone),
+    };
+  },
+};
+
+let writeQueue: Promise<void> = Promise.resolve();
+
+// Brings saved data up to the current schema. The result still has to pass
+// validateUserProfile before it is used.
+export const migrateProfile = (persisted: unknown): unknown => {
+  if (!isRecord(persisted) || !Number.isInteger(persisted.schemaVersion) || !isRecord(persisted.profile)) {
+    throw new Error('Stored profile is not in the versioned format');
+  }
+  let schemaVersion = Number(persisted.schemaVersion);
+  let profile = persisted.profile;
+
+  if (schemaVersion > PROFILE_SCHEMA_VERSION) {
+    throw new Error(
+      `Stored profile has schema version ${schemaVersion}, newer than supported ${PROFILE_SCHEMA_VERSION}`
+    );
+  }
+
+  while (schemaVersion < PROFILE_SCHEMA_VERSION) {
+    const migrate = migrations[schemaVersion];
+    if (!migrate) {
+      throw new Error(`No migration from profile schema version ${schemaVersion}`);
+    }
+    profile = migrate(profile);
+    schemaVersion++;
+  }
+
+  return profile;
+};
+
+// Invalid profiles are never written, so a bad update can't replace a good cache
+export const saveProfile = (profile: UserProfile): Promise<void> => {
+  const validation = validateUserProfile(profile);
+  if (!validation.ok) {
+    console.error('Refusing to save invalid profile:', describeFieldErrors(validation.errors));
+    return writeQueue;
+  }
+
+  const persisted: PersistedProfile = {
+    schemaVersion: PROFILE_SCHEMA_VERSION,
+    profile,
+  };
+
+  // Writes are chained so an older snapshot can never land after a newer one
+  writeQueue = writeQueue
+    .then(() => AsyncStorage.setItem(PROFILE_STORAGE_KEY, JSON.stringify(persisted)))
+    .catch((error) => {
+      console.error('Failed to save profile:', error);
+    });
+
+  return writeQueue;
+};
+
+/**
+ * Loads the locally cached profile, migrating it to the current schema if
+ * needed. Returns null on first launch or when the cached copy cannot be
+ * read, in which case the profile has to come from the API.
+ */
+export const loadProfile = async (): Promise<UserProfile | null> => {
+  try {
+    const raw = await AsyncStorage.getItem(PROFILE_STORAGE_KEY);
+    if (!raw) return null;
+
+    const persisted: unknown = JSON.parse(raw);
+    const validation = validateUserProfile(migrateProfile(persisted));
+    if (!validation.ok) {
+      throw new Error(`Stored profile is invalid: ${describeFieldErrors(validation.errors)}`);
+    }
+
+    const profile = validation.data;
+    if (isRecord(persisted) && persisted.schemaVersion !== PROFILE_SCHEMA_VERSION) {
+      saveProfile(profile);
+    }
+    return profile;
+  } catch (error) {
+    console.error('Failed to load cached profile:', error);
+    return null;
+  }
+};
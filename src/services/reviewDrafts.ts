@@ -0,0 +1,30 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ReviewInput } from '../api';
+
+const draftKey = (eventId: number) => `@profileapp/review-draft/${eventId}`;
+
+export const loadReviewDraft = async (eventId: number): Promise<ReviewInput | null> => {
+  try {
+    const raw = await AsyncStorage.getItem(draftKey(eventId));
+    return raw ? (JSON.parse(raw) as ReviewInput) : null;
+  } catch (error) {
+    console.error('Failed to load review draft:', error);
+    return null;
+  }
+};
+
+export const saveReviewDraft = async (eventId: number, draft: ReviewInput): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(draftKey(eventId), JSON.stringify(draft));
+  } catch (error) {
+    console.error('Failed to save review draft:', error);
+  }
+};
+
+export const clearReviewDraft = async (eventId: number): Promise<void> => {
+  try {
+    await AsyncStorage.removeItem(draftKey(eventId));
+  } catch (error) {
+    console.error('Failed to clear review draft:', error);
+  }
+};
@@ -0,0 +1,47 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { LanguageCode } from '../i18n/locales';
+
+const SETTINGS_STORAGE_KEY = '@profileapp/settings';
+
+export type ThemePreference = 'system' | 'light' | 'dark';
+
+export type LanguagePreference = 'system' | LanguageCode;
+
+// Device-level preferences; these are never synced to the server
+export interface AppSettings {
+  themePreference: ThemePreference;
+  language: LanguagePreference;
+}
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  themePreference: 'system',
+  language: 'system',
+};
+
+let writeQueue: Promise<void> = Promise.resolve();
+
+// Missing keys fall back to their defaults, so new settings need no migration
+export const loadSettings = async (): Promise<AppSettings> => {
+  try {
+    const raw = await AsyncStorage.getItem(SETTINGS_STORAGE_KEY);
+    return raw ? { ...DEFAULT_SETTINGS, ...JSON.parse(raw) } : DEFAULT_SETTINGS;
+  } catch (error) {
+    console.error('Failed to load settings:', error);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+// Reads and writes inside the queue, so concurrent updates to different
+// settings don't overwrite each other
+export const updateSettings = (changes: Partial<AppSettings>): Promise<void> => {
+  writeQueue = writeQueue
+    .then(async () => {
+      const settings = await loadSettings();
+      await AsyncStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify({ ...settings, ...changes }));
+    })
+    .catch((error) => {
+      console.error('Failed to save settings:', error);
+    });
+
+  return writeQueue;
+};
@@ -0,0 +1,43 @@
+import React, { createContext, useCallback, useContext, useMemo, useState, ReactNode } from 'react';
+import { DEFAULT_EVENT_FILTERS, EventFilters } from '../utils/eventFilters';
+
+interface EventFiltersContextValue {
+  filters: EventFilters;
+  updateFilters: (update: Partial<EventFilters>) => void;
+  resetFilters: () => void;
+}
+
+const EventFiltersContext = createContext<EventFiltersContextValue | null>(null);
+
+interface EventFiltersProviderProps {
+  children: ReactNode;
+}
+
+// Kept above the navigator so the selection survives leaving the profile screen
+export const EventFiltersProvider: React.FC<EventFiltersProviderProps> = ({ children }) => {
+  const [filters, setFilters] = useState<EventFilters>(DEFAULT_EVENT_FILTERS);
+
+  const updateFilters = useCallback((update: Partial<EventFilters>) => {
+    setFilters(prev => ({ ...prev, ...update }));
+  }, []);
+
+  // Clears the search text and filters; the chosen sort order is kept
+  const resetFilters = useCallback(() => {
+    setFilters(prev => ({ ...DEFAULT_EVENT_FILTERS, sort: prev.sort }));
+  }, []);
+
+  const value = useMemo(
+    () => ({ filters, updateFilters, resetFilters }),
+    [filters, updateFilters, resetFilters]
+  );
+
+  return <EventFiltersContext.Provider value={value}>{children}</EventFiltersContext.Provider>;
+};
+
+export const useEventFilters = (): EventFiltersContextValue => {
+  const context = useContext(EventFiltersContext);
+  if (!context) {
+    throw new Error('useEventFilters must be used within an EventFiltersProvider');
+  }
+  return context;
+};
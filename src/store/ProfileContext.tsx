@@ -0,0 +1,438 @@
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useReducer,
+  useRef,
+  ReactNode,
+} from 'react';
+import { AppState } from 'react-native';
+import NetInfo from '@react-native-community/netinfo';
+import { Event, EventPage, EventPhoto, RsvpStatus, UpcomingEvent, UserProfile } from '../types';
+import { apiClient, ApiError, ApiResult, EventPageQuery, ReviewInput } from '../api';
+import { loadProfile, saveProfile } from '../services/profileStorage';
+import { StoredAvatar } from '../services/avatarStorage';
+import { deleteEventPhotoFiles } from '../services/eventPhotoStorage';
+import { nextUpcomingEventTime } from '../utils/events';
+import { pageEvents } from '../utils/eventFilters';
+import { FieldError, validateUserProfile } from '../utils/profileValidation';
+import {
+  OutboxMutation,
+  createProfileMutation,
+  createRatingMutation,
+  isNetworkError,
+  loadOutbox,
+  replayMutation,
+  saveOutbox,
+  toProfileUpdate,
+} from '../services/outbox';
+import {
+  ProfileState,
+  ProfileAction,
+  initialProfileState,
+  profileReducer,
+  selectEventById,
+  selectPendingEventIds,
+  selectRatedEventCount,
+  selectUpcomingEventById,
+} from './profileReducer';
+
+// 'queued' means the change was kept locally and will be sent once the
+// device is back online.
+export type MutationResult =
+  | { status: 'synced' }
+  | { status: 'queued' }
+  | { status: 'failed'; error: ApiError };
+
+// Profiles that fail validation never leave the device
+export type ProfileUpdateResult = MutationResult | { status: 'invalid'; errors: FieldError[] };
+
+interface ProfileActions {
+  refreshProfile: () => Promise<ApiResult<UserProfile>>;
+  refreshEvent: (eventId: number) => Promise<ApiResult<Event>>;
+  // Pages come from the cached profile while offline
+  loadEventsPage: (query: EventPageQuery) => Promise<ApiResult<EventPage>>;
+  updateProfile: (profile: UserProfile) => Promise<ProfileUpdateResult>;
+  // A null rating clears it
+  rateEvent: (eventId: number, rating: number | null) => Promise<MutationResult>;
+  saveReview: (eventId: number, review: ReviewInput) => Promise<ApiResult<Event>>;
+  refreshUpcomingEvent: (eventId: number) => Promise<ApiResult<UpcomingEvent>>;
+  rsvpEvent: (eventId: number, status: RsvpStatus) => Promise<ApiResult<UpcomingEvent>>;
+  // Null goes back to the bundled default picture
+  setAvatar: (avatar: StoredAvatar | null) => void;
+  // Photos are saved with saveEventPhoto first; removing one deletes its files
+  addEventPhoto: (eventId: number, photo: EventPhoto) => void;
+  setEventPhotoCaption: (eventId: number, photoId: string, caption: string) => void;
+  removeEventPhoto: (eventId: number, photoId: string) => void;
+  setEventCoverPhoto: (eventId: number, photoId: string) => void;
+  resolveConflict: (mutationId: string, keepLocal: boolean) => void;
+}
+
+interface ProfileContextValue {
+  state: ProfileState;
+  dispatch: React.Dispatch<ProfileAction>;
+  actions: ProfileActions;
+}
+
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+// Waits before draining again after a network failure, doubling each time
+const REDRAIN_BASE_DELAY_MS = 5 * 1000;
+const REDRAIN_MAX_DELAY_MS = 5 * 60 * 1000;
+
+const ProfileContext = createContext<ProfileContextValue | null>(null);
+
+interface ProfileProviderProps {
+  children: ReactNode;
+}
+
+export const ProfileProvider: React.FC<ProfileProviderProps> = ({ children }) => {
+  const [state, dispatch] = useReducer(profileReducer, initialProfileState);
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  const isDrainingRef = useRef(false);
+  const redrainTimerRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+  const redrainAttemptRef = useRef(0);
+
+  const refreshProfile = useCallback(async () => {
+    dispatch({ type: 'SYNC_STARTED' });
+    const result = await apiClient.getProfile();
+    if (result.ok) {
+      dispatch({ type: 'SYNC_SUCCEEDED', profile: result.data });
+    } else {
+      dispatch({ type: 'SYNC_FAILED', error: result.error });
+    }
+    return result;
+  }, []);
+
+  // Replays queued changes one at a time, in order. Stops at the first
+  // network failure so that later changes never overtake earlier ones, and
+  // tries again after a backoff in case nothing else triggers a drain.
+  const drainOutbox = useCallback(async () => {
+    if (isDrainingRef.current || !stateRef.current.isOnline) return;
+    isDrainingRef.current = true;
+    clearTimeout(redrainTimerRef.current);
+    redrainTimerRef.current = undefined;
+
+    const handled = new Set<string>();
+    try {
+      for (;;) {
+        const next = stateRef.current.outbox.find(mutation => !handled.has(mutation.id));
+        if (!next) break;
+
+        const outcome = await replayMutation(apiClient, next);
+        if (outcome.type === 'retry') {
+          const delay = Math.min(REDRAIN_BASE_DELAY_MS * 2 ** redrainAttemptRef.current, REDRAIN_MAX_DELAY_MS);
+          redrainAttemptRef.current++;
+          redrainTimerRef.current = setTimeout(drainOutbox, delay);
+          break;
+        }
+
+        redrainAttemptRef.current = 0;
+        handled.add(next.id);
+        switch (outcome.type) {
+          case 'applied':
+            dispatch({ type: 'MUTATION_APPLIED', mutationId: next.id, result: outcome.result });
+            break;
+          case 'conflict':
+            dispatch({ type: 'MUTATION_CONFLICTED', conflict: { mutation: next, server: outcome.server } });
+            break;
+          case 'rejected':
+            console.warn('Queued change was rejected by the server:', outcome.error.message);
+            dispatch({ type: 'MUTATION_REJECTED', mutation: next });
+            break;
+        }
+      }
+    } finally {
+      isDrainingRef.current = false;
+    }
+  }, []);
+
+  // Show the cached copy straight away, then refresh it from the API
+  useEffect(() => {
+    Promise.all([loadProfile(), loadOutbox()]).then(([profile, { pending, conflicts }]) => {
+      dispatch({ type: 'PROFILE_LOADED', profile, outbox: pending, conflicts });
+      dispatch({ type: 'ARCHIVE_PAST_EVENTS', now: Date.now() });
+      refreshProfile();
+    });
+  }, [refreshProfile]);
+
+  // Cache every change locally once the stored data has been loaded
+  useEffect(() => {
+    if (state.isLoading || !state.profile) return;
+    saveProfile(state.profile);
+  }, [state.isLoading, state.profile]);
+
+  useEffect(() => {
+    if (state.isLoading) return;
+    saveOutbox({ pending: state.outbox, conflicts: state.conflicts });
+  }, [state.isLoading, state.outbox, state.conflicts]);
+
+  useEffect(() => {
+    const unsubscribe = NetInfo.addEventListener(netState => {
+      const isOnline = netState.isConnected !== false && netState.isInternetReachable !== false;
+      if (isOnline !== stateRef.current.isOnline) {
+        dispatch({ type: 'CONNECTIVITY_CHANGED', isOnline });
+      }
+    });
+    return unsubscribe;
+  }, []);
+
+  // Try to drain whenever there is something queued and a chance it can be sent
+  useEffect(() => {
+    if (!state.isLoading && state.isOnline && state.outbox.length > 0) {
+      drainOutbox();
+    }
+  }, [state.isLoading, state.isOnline, state.outbox.length, drainOutbox]);
+
+  useEffect(() => () => clearTimeout(redrainTimerRef.current), []);
+
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', appState => {
+      if (appState !== 'active') return;
+      dispatch({ type: 'ARCHIVE_PAST_EVENTS', now: Date.now() });
+      drainOutbox();
+    });
+    return () => subscription.remove();
+  }, [drainOutbox]);
+
+  // Move the next upcoming event into the attended history once it starts.
+  // setTimeout can't wait longer than ~24.8 days, so longer waits re-arm.
+  const nextEventTime = state.profile ? nextUpcomingEventTime(state.profile) : null;
+  useEffect(() => {
+    if (nextEventTime === null) return;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const schedule = () => {
+      const delay = nextEventTime - Date.now();
+      if (delay <= 0) {
+        dispatch({ type: 'ARCHIVE_PAST_EVENTS', now: Date.now() });
+        return;
+      }
+      timer = setTimeout(schedule, Math.min(delay, MAX_TIMER_DELAY_MS));
+    };
+    schedule();
+    return () => clearTimeout(timer);
+  }, [nextEventTime]);
+
+  const refreshEvent = useCallback(async (eventId: number) => {
+    const result = await apiClient.getEvent(eventId);
+    if (result.ok && !selectPendingEventIds(stateRef.current).has(eventId)) {
+      dispatch({ type: 'UPDATE_EVENT', event: result.data });
+    }
+    return result;
+  }, []);
+
+  const loadEventsPage = useCallback(async (query: EventPageQuery): Promise<ApiResult<EventPage>> => {
+    const fromCache = (profile: UserProfile): ApiResult<EventPage> =>
+      ({ ok: true, data: pageEvents(profile.attendedEvents, query) });
+    // No point waiting on a request that cannot get through
+    if (stateRef.current.profile && !stateRef.current.isOnline) {
+      return fromCache(stateRef.current.profile);
+    }
+
+    const result = await apiClient.listEvents(query);
+    if (result.ok) {
+      dispatch({ type: 'EVENTS_PAGE_LOADED', events: result.data.events });
+    } else if (stateRef.current.profile && isNetworkError(result.error)) {
+      return fromCache(stateRef.current.profile);
+    }
+    return result;
+  }, []);
+
+  const enqueue = useCallback((mutation: OutboxMutation): MutationResult => {
+    dispatch({ type: 'MUTATION_QUEUED', mutation });
+    return { status: 'queued' };
+  }, []);
+
+  // While anything is queued, new changes go to the back of the queue too so
+  // they reach the server in the order they were made.
+  const shouldQueue = () => !stateRef.current.isOnline || stateRef.current.outbox.length > 0;
+
+  const updateProfile = useCallback(async (profile: UserProfile): Promise<ProfileUpdateResult> => {
+    const current = stateRef.current.profile;
+    if (!current) return { status: 'failed', error: { kind: 'network', message: 'Profile not loaded' } };
+    const update = toProfileUpdate(profile);
+    const mutation = createProfileMutation(update, toProfileUpdate(current));
+    // Only the profile fields were edited; keep the latest event lists and
+    // photo, which may have changed while the form was open
+    const optimistic = {
+      ...current,
+      ...update,
+      profileImageUrl: current.profileImageUrl,
+      profileThumbnailUrl: current.profileThumbnailUrl,
+    };
+    const validation = validateUserProfile(optimistic);
+    if (!validation.ok) return { status: 'invalid', errors: validation.errors };
+
+    if (shouldQueue()) {
+      dispatch({ type: 'UPDATE_PROFILE', profile: optimistic });
+      return enqueue(mutation);
+    }
+
+    const result = await apiClient.updateProfile(update);
+    if (result.ok) {
+      dispatch({ type: 'SYNC_SUCCEEDED', profile: result.data });
+      return { status: 'synced' };
+    }
+    if (isNetworkError(result.error)) {
+      dispatch({ type: 'UPDATE_PROFILE', profile: optimistic });
+      return enqueue(mutation);
+    }
+    return { status: 'failed', error: result.error };
+  }, [enqueue]);
+
+  // Ratings are applied optimistically and rolled back if the API rejects them
+  const rateEvent = useCallback(async (eventId: number, rating: number | null): Promise<MutationResult> => {
+    const previous = selectEventById(stateRef.current, eventId);
+    if (!previous) return { status: 'failed', error: { kind: 'http', status: 404, message: 'Event not found' } };
+    const mutation = createRatingMutation(eventId, rating, previous);
+    dispatch({ type: 'RATE_EVENT', eventId, rating });
+
+    if (shouldQueue()) {
+      return enqueue(mutation);
+    }
+
+    const result = await apiClient.rateEvent(eventId, rating);
+    if (result.ok) {
+      dispatch({ type: 'UPDATE_EVENT', event: result.data });
+      return { status: 'synced' };
+    }
+    if (isNetworkError(result.error)) {
+      return enqueue(mutation);
+    }
+    dispatch({ type: 'UPDATE_EVENT', event: previous });
+    return { status: 'failed', error: result.error };
+  }, [enqueue]);
+
+  const saveReview = useCallback(async (eventId: number, review: ReviewInput) => {
+    const result = await apiClient.saveReview(eventId, review);
+    if (result.ok) {
+      dispatch({ type: 'UPDATE_EVENT', event: result.data });
+    }
+    return result;
+  }, []);
+
+  const refreshUpcomingEvent = useCallback(async (eventId: number) => {
+    const result = await apiClient.getUpcomingEvent(eventId);
+    if (result.ok) {
+      dispatch({ type: 'UPDATE_UPCOMING_EVENT', event: result.data });
+    }
+    return result;
+  }, []);
+
+  // RSVPs depend on the server's view of capacity, so they are never queued
+  const rsvpEvent = useCallback(async (eventId: number, status: RsvpStatus) => {
+    const result = await apiClient.rsvpEvent(eventId, status);
+    if (result.ok) {
+      dispatch({ type: 'UPDATE_UPCOMING_EVENT', event: result.data });
+    }
+    return result;
+  }, []);
+
+  // The local copy is shown straight away; the upload only keeps the server
+  // in step, so a failed one is logged rather than rolled back
+  const setAvatar = useCallback(async (avatar: StoredAvatar | null) => {
+    dispatch({ type: 'SET_AVATAR', avatar });
+    const result = avatar
+      ? await apiClient.uploadAvatar(avatar.imageUri)
+      : await apiClient.deleteAvatar();
+    if (!result.ok) {
+      console.warn('Failed to sync profile photo:', result.error.message);
+    }
+  }, []);
+
+  const addEventPhoto = useCallback((eventId: number, photo: EventPhoto) => {
+    dispatch({ type: 'ADD_EVENT_PHOTO', eventId, photo });
+  }, []);
+
+  const setEventPhotoCaption = useCallback((eventId: number, photoId: string, caption: string) => {
+    dispatch({ type: 'SET_EVENT_PHOTO_CAPTION', eventId, photoId, caption: caption.trim() });
+  }, []);
+
+  const removeEventPhoto = useCallback((eventId: number, photoId: string) => {
+    const photo = selectEventById(stateRef.current, eventId)?.photos?.find(({ id }) => id === photoId);
+    if (!photo) return;
+    dispatch({ type: 'REMOVE_EVENT_PHOTO', eventId, photoId });
+    deleteEventPhotoFiles(photo);
+  }, []);
+
+  const setEventCoverPhoto = useCallback((eventId: number, photoId: string) => {
+    dispatch({ type: 'SET_EVENT_COVER_PHOTO', eventId, photoId });
+  }, []);
+
+  const resolveConflict = useCallback((mutationId: string, keepLocal: boolean) => {
+    dispatch({ type: 'CONFLICT_RESOLVED', mutationId, keepLocal });
+  }, []);
+
+  const actions = useMemo<ProfileActions>(() => ({
+    refreshProfile,
+    refreshEvent,
+    loadEventsPage,
+    updateProfile,
+    rateEvent,
+    saveReview,
+    refreshUpcomingEvent,
+    rsvpEvent,
+    setAvatar,
+    addEventPhoto,
+    setEventPhotoCaption,
+    removeEventPhoto,
+    setEventCoverPhoto,
+    resolveConflict,
+  }), [
+    refreshProfile,
+    refreshEvent,
+    loadEventsPage,
+    updateProfile,
+    rateEvent,
+    saveReview,
+    refreshUpcomingEvent,
+    rsvpEvent,
+    setAvatar,
+    addEventPhoto,
+    setEventPhotoCaption,
+    removeEventPhoto,
+    setEventCoverPhoto,
+    resolveConflict,
+  ]);
+
+  const value = useMemo(() => ({ state, dispatch, actions }), [state, actions]);
+
+  return <ProfileContext.Provider value={value}>{children}</ProfileContext.Provider>;
+};
+
+const useProfileContext = (): ProfileContextValue => {
+  const context = useContext(ProfileContext);
+  if (!context) {
+    throw new Error('useProfileContext must be used within a ProfileProvider');
+  }
+  return context;
+};
+
+export const useProfileState = (): ProfileState => useProfileContext().state;
+
+export const useProfileActions = (): ProfileActions => useProfileContext().actions;
+
+// Only use this from screens that are reached after the profile has loaded
+export const useProfile = (): UserProfile => {
+  const { profile } = useProfileState();
+  if (!profile) {
+    throw new Error('useProfile called before the profile was loaded');
+  }
+  return profile;
+};
+
+export const useEvent = (eventId: number): Event | undefined =>
+  selectEventById(useProfileState(), eventId);
+
+export const useUpcomingEvent = (eventId: number): UpcomingEvent | undefined =>
+  selectUpcomingEventById(useProfileState(), eventId);
+
+export const useRatedEventCount = (): number => selectRatedEventCount(useProfileState());
+
+export const usePendingEventIds = (): Set<number> => {
+  const state = useProfileState();
+  return useMemo(() => selectPendingEventIds(state), [state.outbox]);
+};
@@ -0,0 +1,280 @@
+import { Event, EventPhoto, UpcomingEvent, UserProfile } from '../types';
+import { archivePastEvents } from '../utils/events';
+import { ApiError } from '../api';
+import {
+  OutboxConflict,
+  OutboxMutation,
+  applyMutation,
+  toProfileUpdate,
+  withRating,
+} from '../services/outbox';
+import { StoredAvatar } from '../services/avatarStorage';
+
+export interface ProfileState {
+  profile: UserProfile | null;
+  // True until the locally cached profile has been read
+  isLoading: boolean;
+  // True while the profile is being fetched from the API
+  isSyncing: boolean;
+  isOnline: boolean;
+  error: ApiError | null;
+  // Changes made while offline, in the order they have to be replayed
+  outbox: OutboxMutation[];
+  // Queued changes the server copy has moved on from, awaiting a decision
+  conflicts: OutboxConflict[];
+}
+
+export type ProfileAction =
+  | {
+      type: 'PROFILE_LOADED';
+      profile: UserProfile | null;
+      outbox: OutboxMutation[];
+      conflicts: OutboxConflict[];
+    }
+  | { type: 'SYNC_STARTED' }
+  | { type: 'SYNC_SUCCEEDED'; profile: UserProfile }
+  | { type: 'SYNC_FAILED'; error: ApiError }
+  | { type: 'CONNECTIVITY_CHANGED'; isOnline: boolean }
+  | { type: 'UPDATE_PROFILE'; profile: UserProfile }
+  | { type: 'UPDATE_EVENT'; event: Event }
+  | { type: 'EVENTS_PAGE_LOADED'; events: Event[] }
+  | { type: 'UPDATE_UPCOMING_EVENT'; event: UpcomingEvent }
+  | { type: 'ARCHIVE_PAST_EVENTS'; now: number }
+  | { type: 'RATE_EVENT'; eventId: number; rating: number | null }
+  // Null goes back to the bundled default picture
+  | { type: 'SET_AVATAR'; avatar: StoredAvatar | null }
+  | { type: 'ADD_EVENT_PHOTO'; eventId: number; photo: EventPhoto }
+  | { type: 'SET_EVENT_PHOTO_CAPTION'; eventId: number; photoId: string; caption: string }
+  | { type: 'REMOVE_EVENT_PHOTO'; eventId: number; photoId: string }
+  | { type: 'SET_EVENT_COVER_PHOTO'; eventId: number; photoId: string }
+  | { type: 'MUTATION_QUEUED'; mutation: OutboxMutation }
+  | { type: 'MUTATION_APPLIED'; mutationId: string; result: Event | UserProfile }
+  | { type: 'MUTATION_REJECTED'; mutation: OutboxMutation }
+  | { type: 'MUTATION_CONFLICTED'; conflict: OutboxConflict }
+  | { type: 'CONFLICT_RESOLVED'; mutationId: string; keepLocal: boolean };
+
+export const initialProfileState: ProfileState = {
+  profile: null,
+  isLoading: true,
+  isSyncing: false,
+  isOnline: true,
+  error: null,
+  outbox: [],
+  conflicts: [],
+};
+
+const replaceEvent = (profile: UserProfile, updated: Event): UserProfile => ({
+  ...profile,
+  attendedEvents: profile.attendedEvents.map(event =>
+    event.id === updated.id ? updated : event
+  ),
+});
+
+const isEvent = (value: Event | UserProfile): value is Event => 'id' in value;
+
+// Re-applies queued changes on top of a copy that came from the server, so the
+// user keeps seeing their offline edits until they have been replayed.
+const rebase = (profile: UserProfile, outbox: OutboxMutation[]): UserProfile =>
+  outbox.reduce(applyMutation, profile);
+
+// Event photos are never sent to the server, so its copies have none
+const withLocalPhotos = (server: Event, local: Event | undefined): Event =>
+  local?.photos ? { ...server, photos: local.photos, coverPhotoId: local.coverPhotoId } : server;
+
+// Applies a server copy of an event or profile. The avatar and event photos
+// only live on this device, so they are kept across server updates.
+const mergeServerCopy = (
+  profile: UserProfile | null,
+  server: Event | UserProfile
+): UserProfile | null => {
+  if (!profile) return isEvent(server) ? profile : server;
+  const findLocal = (eventId: number) =>
+    profile.attendedEvents.find(event => event.id === eventId);
+
+  if (isEvent(server)) {
+    return replaceEvent(profile, withLocalPhotos(server, findLocal(server.id)));
+  }
+  return {
+    ...server,
+    profileImageUrl: profile.profileImageUrl,
+    profileThumbnailUrl: profile.profileThumbnailUrl,
+    attendedEvents: server.attendedEvents.map(event => withLocalPhotos(event, findLocal(event.id))),
+  };
+};
+
+const updateEvents = (
+  state: ProfileState,
+  eventId: number,
+  update: (event: Event) => Event
+): ProfileState => {
+  if (!state.profile) return state;
+  return {
+    ...state,
+    profile: {
+      ...state.profile,
+      attendedEvents: state.profile.attendedEvents.map(event =>
+        event.id === eventId ? update(event) : event
+      ),
+    },
+  };
+};
+
+export const profileReducer = (
+  state: ProfileState,
+  action: ProfileAction
+): ProfileState => {
+  switch (action.type) {
+    case 'PROFILE_LOADED':
+      return {
+        ...state,
+        profile: action.profile,
+        outbox: action.outbox,
+        conflicts: action.conflicts,
+        isLoading: false,
+      };
+    case 'SYNC_STARTED':
+      return { ...state, isSyncing: true, error: null };
+    case 'SYNC_SUCCEEDED': {
+      const profile = mergeServerCopy(state.profile, action.profile);
+      return {
+        ...state,
+        isSyncing: false,
+        profile: profile && rebase(profile, state.outbox),
+      };
+    }
+    case 'SYNC_FAILED':
+      return { ...state, isSyncing: false, error: action.error };
+    case 'CONNECTIVITY_CHANGED':
+      return { ...state, isOnline: action.isOnline };
+    case 'UPDATE_PROFILE':
+      return { ...state, profile: action.profile };
+    case 'UPDATE_EVENT':
+      return updateEvents(state, action.event.id, event => withLocalPhotos(action.event, event));
+    // Refreshes the events already held; queued changes stay on top
+    case 'EVENTS_PAGE_LOADED': {
+      const profile = action.events.reduce(mergeServerCopy, state.profile);
+      return { ...state, profile: profile && rebase(profile, state.outbox) };
+    }
+    case 'UPDATE_UPCOMING_EVENT':
+      if (!state.profile) return state;
+      return {
+        ...state,
+        profile: {
+          ...state.profile,
+          upcomingEvents: state.profile.upcomingEvents.map(event =>
+            event.id === action.event.id ? action.event : event
+          ),
+        },
+      };
+    case 'ARCHIVE_PAST_EVENTS': {
+      if (!state.profile) return state;
+      const profile = archivePastEvents(state.profile, new Date(action.now));
+      return profile === state.profile ? state : { ...state, profile };
+    }
+    case 'RATE_EVENT':
+      return updateEvents(state, action.eventId, event => withRating(event, action.rating));
+    case 'SET_AVATAR':
+      if (!state.profile) return state;
+      return {
+        ...state,
+        profile: {
+          ...state.profile,
+          profileImageUrl: action.avatar?.imageUri,
+          profileThumbnailUrl: action.avatar?.thumbnailUri,
+        },
+      };
+    case 'ADD_EVENT_PHOTO':
+      return updateEvents(state, action.eventId, event => ({
+        ...event,
+        photos: [...(event.photos ?? []), action.photo],
+      }));
+    case 'SET_EVENT_PHOTO_CAPTION':
+      return updateEvents(state, action.eventId, event => ({
+        ...event,
+        photos: event.photos?.map(photo =>
+          photo.id === action.photoId ? { ...photo, caption: action.caption || undefined } : photo
+        ),
+      }));
+    case 'REMOVE_EVENT_PHOTO':
+      return updateEvents(state, action.eventId, event => ({
+        ...event,
+        photos: event.photos?.filter(photo => photo.id !== action.photoId),
+        coverPhotoId: event.coverPhotoId === action.photoId ? undefined : event.coverPhotoId,
+      }));
+    case 'SET_EVENT_COVER_PHOTO':
+      return updateEvents(state, action.eventId, event => ({ ...event, coverPhotoId: action.photoId }));
+    case 'MUTATION_QUEUED':
+      return { ...state, outbox: [...state.outbox, action.mutation] };
+    case 'MUTATION_APPLIED': {
+      const outbox = state.outbox.filter(mutation => mutation.id !== action.mutationId);
+      const profile = mergeServerCopy(state.profile, action.result);
+      return { ...state, outbox, profile: profile && rebase(profile, outbox) };
+    }
+    case 'MUTATION_REJECTED': {
+      // Roll back to the copy the change was based on
+      const { mutation } = action;
+      const outbox = state.outbox.filter(queued => queued.id !== mutation.id);
+      const profile = state.profile && mergeServerCopy(
+        state.profile,
+        mutation.type === 'RATE_EVENT'
+          ? mutation.base
+          : { ...state.profile, ...mutation.base }
+      );
+      return { ...state, outbox, profile: profile && rebase(profile, outbox) };
+    }
+    case 'MUTATION_CONFLICTED':
+      return {
+        ...state,
+        outbox: state.outbox.filter(mutation => mutation.id !== action.conflict.mutation.id),
+        conflicts: [...state.conflicts, action.conflict],
+      };
+    case 'CONFLICT_RESOLVED': {
+      const conflict = state.conflicts.find(
+        ({ mutation }) => mutation.id === action.mutationId
+      );
+      if (!conflict) return state;
+      const conflicts = state.conflicts.filter(other => other !== conflict);
+
+      if (action.keepLocal) {
+        // Queue the change again, now based on the copy the server has
+        const { mutation: original, server } = conflict;
+        const mutation: OutboxMutation =
+          original.type === 'RATE_EVENT'
+            ? { ...original, base: server as Event }
+            : { ...original, base: toProfileUpdate(server as UserProfile) };
+        return { ...state, conflicts, outbox: [...state.outbox, mutation] };
+      }
+
+      const profile = mergeServerCopy(state.profile, conflict.server);
+      return { ...state, conflicts, profile: profile && rebase(profile, state.outbox) };
+    }
+    default:
+      return state;
+  }
+};
+
+// Selectors
+
+export const selectProfile = (state: ProfileState): UserProfile | null => state.profile;
+
+export const selectEvents = (state: ProfileState): Event[] =>
+  state.profile?.attendedEvents ?? [];
+
+export const selectEventById = (state: ProfileState, eventId: number): Event | undefined =>
+  selectEvents(state).find(event => event.id === eventId);
+
+export const selectUpcomingEvents = (state: ProfileState): UpcomingEvent[] =>
+  state.profile?.upcomingEvents ?? [];
+
+export const selectUpcomingEventById = (
+  state: ProfileState,
+  eventId: number
+): UpcomingEvent | undefined => selectUpcomingEvents(state).find(event => event.id === eventId);
+
+export const selectRatedEventCount = (state: ProfileState): number =>
+  selectEvents(state).filter(event => event.rated).length;
+
+export const selectPendingEventIds = (state: ProfileState): Set<number> =>
+  new Set(
+    state.outbox.flatMap(mutation => (mutation.type === 'RATE_EVENT' ? [mutation.eventId] : []))
+  );
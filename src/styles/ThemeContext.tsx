@@ -0,0 +1,77 @@
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+  ReactNode,
+} from 'react';
+import { useColorScheme } from 'react-native';
+import { ColorPalette, DarkColors, LightColors } from './theme';
+import { ThemePreference, loadSettings, updateSettings } from '../services/settingsStorage';
+
+export type ColorScheme = 'light' | 'dark';
+
+interface ThemeContextValue {
+  colors: ColorPalette;
+  scheme: ColorScheme;
+  preference: ThemePreference;
+  setPreference: (preference: ThemePreference) => void;
+}
+
+const ThemeContext = createContext<ThemeContextValue | null>(null);
+
+interface ThemeProviderProps {
+  children: ReactNode;
+}
+
+/**
+ * Follows the system appearance unless the user picked light or dark
+ * explicitly. Nothing renders until the stored choice has been read, so the
+ * app never flashes the wrong theme on launch.
+ */
+export const ThemeProvider: React.FC<ThemeProviderProps> = ({ children }) => {
+  const systemScheme = useColorScheme();
+  const [preference, setPreferenceState] = useState<ThemePreference | null>(null);
+
+  useEffect(() => {
+    loadSettings().then(settings => setPreferenceState(settings.themePreference));
+  }, []);
+
+  const setPreference = useCallback((next: ThemePreference) => {
+    setPreferenceState(next);
+    updateSettings({ themePreference: next });
+  }, []);
+
+  const scheme: ColorScheme = preference === 'light' || preference === 'dark'
+    ? preference
+    : systemScheme === 'dark' ? 'dark' : 'light';
+
+  const value = useMemo(() => ({
+    colors: scheme === 'dark' ? DarkColors : LightColors,
+    scheme,
+    preference: preference ?? 'system',
+    setPreference,
+  }), [scheme, preference, setPreference]);
+
+  if (preference === null) return null;
+
+  return <ThemeContext.Provider value={value}>{children}</ThemeContext.Provider>;
+};
+
+export const useTheme = (): ThemeContextValue => {
+  const context = useContext(ThemeContext);
+  if (!context) {
+    throw new Error('useTheme must be used within a ThemeProvider');
+  }
+  return context;
+};
+
+// Builds a component's styles for the active palette, rebuilding them only
+// when the theme changes. Pass a factory defined at module level.
+export const useThemedStyles = <T,>(factory: (colors: ColorPalette) => T): T => {
+  const { colors } = useTheme();
+
+  return useMemo(() => factory(colors), [colors, factory]);
+};
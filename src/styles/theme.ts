@@ -2,7 +2,7 @@ import { Dimensions } from 'react-native';
 
 const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
 
-export const Colors = {
+export const LightColors = {
   // Primary brand colors
   primary: '#6366F1', // Modern indigo
   primaryDark: '#4F46E5',
@@ -45,6 +45,7 @@ export const Colors = {
   success: '#10B981',
   warning: '#F59E0B',
   error: '#EF4444',
+  errorLight: '#FEE2E2',
   info: '#3B82F6',
   
   // Star rating
@@ -59,6 +60,66 @@ export const Colors = {
   },
 };
 
+export type ColorPalette = typeof LightColors;
+
+export const DarkColors: ColorPalette = {
+  // Primary brand colors
+  primary: '#818CF8',
+  primaryDark: '#6366F1',
+  primaryLight: '#A78BFA',
+  primaryUltraLight: '#272554',
+  
+  // Secondary colors
+  secondary: '#34D399',
+  secondaryLight: '#6EE7B7',
+  
+  // Accent colors
+  accent: '#FBBF24',
+  accentLight: '#FCD34D',
+  
+  // Background colors
+  background: {
+    primary: '#1E293B',
+    secondary: '#0F172A',
+    tertiary: '#334155',
+    overlay: 'rgba(0, 0, 0, 0.7)',
+  },
+  
+  // Text colors
+  text: {
+    primary: '#F1F5F9',
+    secondary: '#94A3B8',
+    tertiary: '#64748B',
+    light: '#475569',
+    white: '#FFFFFF',
+  },
+  
+  // Border colors
+  border: {
+    light: '#334155',
+    medium: '#475569',
+    dark: '#64748B',
+  },
+  
+  // Status colors
+  success: '#34D399',
+  warning: '#FBBF24',
+  error: '#F87171',
+  errorLight: '#450A0A',
+  info: '#60A5FA',
+  
+  // Star rating
+  star: '#FBBF24',
+  starInactive: '#475569',
+  
+  // Gradients
+  gradients: {
+    primary: ['#4338CA', '#6D28D9'],
+    secondary: ['#047857', '#059669'],
+    warm: ['#B45309', '#C2410C'],
+  },
+};
+
 export const Typography = {
   size: {
     xs: 12,
@@ -174,10 +235,10 @@ export const Layout = {
     paddingHorizontal: Spacing.base,
     paddingVertical: Spacing.lg,
   },
+  // Background color comes from the active theme
   card: {
     padding: Spacing.xl,
     borderRadius: BorderRadius.lg,
-    backgroundColor: Colors.background.primary,
     ...Shadows.base,
   },
 };
@@ -197,7 +258,8 @@ export const Animations = {
 };
 
 export default {
-  Colors,
+  LightColors,
+  DarkColors,
   Typography,
   Spacing,
   BorderRadius,
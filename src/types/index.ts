@@ -1,21 +1,72 @@
-export interface Event {
+interface EventDetails {
   id: number;
   title: string;
   description: string;
   location: string;
-  date: string;
-  rated: boolean;
-  rating?: number; // 1-5 star rating
+  date: string; // ISO 8601 with a UTC offset
+  timeZone: string; // IANA zone of the venue, e.g. "Asia/Hong_Kong"
   coordinates?: {
     latitude: number;
     longitude: number;
   };
 }
 
+export interface ReviewSubScores {
+  venue?: number; // 1-5
+  host?: number; // 1-5
+  vibe?: number; // 1-5
+}
+
+export interface EventReview {
+  text: string;
+  subScores: ReviewSubScores;
+  photos: string[]; // Image URIs
+  createdAt: string;
+  editedAt?: string;
+}
+
+export interface EventPhoto {
+  id: string;
+  uri: string;
+  thumbnailUri: string;
+  caption?: string;
+  addedAt: string;
+}
+
+export interface Event extends EventDetails {
+  rated: boolean;
+  rating?: number; // 1-5 star rating
+  review?: EventReview;
+  // How every attendee rated the event: counts for 1 to 5 stars, in order
+  ratingDistribution?: number[];
+  // Kept on this device only, like the avatar
+  photos?: EventPhoto[];
+  coverPhotoId?: string; // The first photo is the cover when unset
+}
+
+// One page of attended events from the server
+export interface EventPage {
+  events: Event[];
+  // Where the next page starts; missing on the last page
+  nextOffset?: number;
+}
+
+// 'waitlisted' is never chosen by the user; the server assigns it when a
+// "going" RSVP arrives after the event is full.
+export type RsvpStatus = 'going' | 'maybe' | 'declined' | 'waitlisted';
+
+export interface UpcomingEvent extends EventDetails {
+  rsvpStatus: RsvpStatus | null;
+  capacity?: number; // Unlimited when missing
+  attendeeCount: number;
+}
+
 export interface UserProfile {
   name: string;
   bio: string;
-  profileImageUrl: string;
+  // Unset while the bundled default picture is shown
+  profileImageUrl?: string;
+  profileThumbnailUrl?: string;
   birthdate?: string;
   email?: string;
   phone?: string;
@@ -23,4 +74,5 @@ export interface UserProfile {
   location?: string;
   occupation?: string;
   attendedEvents: Event[];
-} 
\ No newline at end of file
+  upcomingEvents: UpcomingEvent[];
+}
@@ -1,22 +1,18 @@
 import { StackNavigationProp } from '@react-navigation/stack';
 import { RouteProp } from '@react-navigation/native';
-import { Event, UserProfile } from './index';
 
 // Navigation parameter list for the app's stack navigator
-// Note: The callback functions in navigation params will trigger warnings about
-// non-serializable values. This is expected and acceptable for our use case
-// as we need to pass callbacks for data synchronization between screens.
+// Params only carry plain ids; screens read the data itself from the profile
+// store so that navigation state stays serializable.
 export type RootStackParamList = {
-  Profile: {
-    profile: UserProfile;
-  };
+  Profile: undefined;
   EventDetail: {
-    event: Event;
-  };
-  EditProfile: {
-    profile: UserProfile;
-    onUpdateProfile: (updatedProfile: UserProfile) => void;
+    eventId: number;
   };
+  EditProfile: undefined;
+  EventsMap: undefined;
+  // Links that match no screen
+  NotFound: undefined;
 };
 
 export type ProfileScreenNavigationProp = StackNavigationProp<
@@ -38,4 +34,16 @@ export type EditProfileScreenNavigationProp = StackNavigationProp<
   'EditProfile'
 >;
 
-export type EditProfileScreenRouteProp = RouteProp<RootStackParamList, 'EditProfile'>; 
\ No newline at end of file
+export type EditProfileScreenRouteProp = RouteProp<RootStackParamList, 'EditProfile'>;
+
+export type EventsMapScreenNavigationProp = StackNavigationProp<
+  RootStackParamList,
+  'EventsMap'
+>;
+
+export type EventsMapScreenRouteProp = RouteProp<RootStackParamList, 'EventsMap'>;
+
+export type NotFoundScreenNavigationProp = StackNavigationProp<
+  RootStackParamList,
+  'NotFound'
+>;
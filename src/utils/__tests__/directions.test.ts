@@ -0,0 +1,71 @@
+import { DirectionsTarget, buildDirectionsUrl, getMapsProviders } from '../directions';
+
+const withCoordinates: DirectionsTarget = {
+  title: 'Sunset Rooftop Social',
+  location: 'The Crown, Central',
+  coordinates: { latitude: 22.2819, longitude: 114.1577 },
+};
+
+const addressOnly: DirectionsTarget = {
+  title: 'Dim Sum Brunch',
+  location: '添好運 Sham Shui Po',
+};
+
+describe('buildDirectionsUrl', () => {
+  it('sends Apple Maps to the coordinates, labelled with the title', () => {
+    expect(buildDirectionsUrl('apple', withCoordinates)).toBe(
+      'https://maps.apple.com/?daddr=22.2819,114.1577&q=Sunset%20Rooftop%20Social'
+    );
+  });
+
+  it('sends Google Maps to the coordinates', () => {
+    expect(buildDirectionsUrl('google', withCoordinates)).toBe(
+      'https://www.google.com/maps/dir/?api=1&destination=22.2819,114.1577'
+    );
+  });
+
+  it('drops a labelled pin at the coordinates for geo: apps', () => {
+    expect(buildDirectionsUrl('geo', withCoordinates)).toBe(
+      'geo:22.2819,114.1577?q=22.2819,114.1577(Sunset%20Rooftop%20Social)'
+    );
+  });
+
+  it('searches for the encoded address when there are no coordinates', () => {
+    const address = '%E6%B7%BB%E5%A5%BD%E9%81%8B%20Sham%20Shui%20Po';
+
+    expect(buildDirectionsUrl('apple', addressOnly)).toBe(`https://maps.apple.com/?daddr=${address}`);
+    expect(buildDirectionsUrl('google', addressOnly)).toBe(
+      `https://www.google.com/maps/dir/?api=1&destination=${address}`
+    );
+    expect(buildDirectionsUrl('geo', addressOnly)).toBe(`geo:0,0?q=${address}`);
+  });
+
+  it('keeps characters that would end the query out of the address and title', () => {
+    const target: DirectionsTarget = { title: 'Q&A #2', location: 'Hall 1 & 2 #B' };
+
+    expect(buildDirectionsUrl('google', target)).toBe(
+      'https://www.google.com/maps/dir/?api=1&destination=Hall%201%20%26%202%20%23B'
+    );
+    expect(buildDirectionsUrl('geo', { ...target, coordinates: withCoordinates.coordinates })).toBe(
+      'geo:22.2819,114.1577?q=22.2819,114.1577(Q%26A%20%232)'
+    );
+  });
+
+  it('writes negative coordinates as they are', () => {
+    const target = { ...withCoordinates, coordinates: { latitude: -33.8568, longitude: -151.2153 } };
+
+    expect(buildDirectionsUrl('google', target)).toBe(
+      'https://www.google.com/maps/dir/?api=1&destination=-33.8568,-151.2153'
+    );
+  });
+});
+
+describe('getMapsProviders', () => {
+  it.each([
+    ['ios', ['apple', 'google']],
+    ['android', ['google', 'geo']],
+    ['web', ['google']],
+  ])('offers the apps available on %s', (platform, providers) => {
+    expect(getMapsProviders(platform)).toEqual(providers);
+  });
+});
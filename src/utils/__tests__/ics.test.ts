@@ -0,0 +1,137 @@
+import { CalendarEvent, buildCalendar, buildEventIcs, escapeText, foldLine, toIcsFileName } from '../ics';
+
+const CRLF = '\r\n';
+const NOW = new Date('2025-01-01T00:00:00Z');
+
+// Undoes line folding (RFC 5545 3.1) so properties can be matched whole
+const unfold = (ics: string) => ics.replace(/\r\n /g, '').split(CRLF);
+
+const utf8Length = (text: string) => new TextEncoder().encode(text).length;
+
+const event = (overrides: Partial<CalendarEvent> = {}): CalendarEvent => ({
+  id: 101,
+  title: 'Sunset Rooftop Social',
+  description: 'Golden hour drinks',
+  location: 'The Crown, Central',
+  date: '2025-06-10T17:30:00+08:00',
+  ...overrides,
+});
+
+describe('escapeText', () => {
+  it('escapes backslashes, semicolons, commas and line breaks', () => {
+    expect(escapeText('a\\b;c,d\ne\r\nf\rg')).toBe('a\\\\b\\;c\\,d\\ne\\nf\\ng');
+  });
+});
+
+describe('foldLine', () => {
+  it('leaves lines of up to 75 octets alone', () => {
+    const line = 'x'.repeat(75);
+    expect(foldLine(line)).toBe(line);
+  });
+
+  it('folds at 75 octets, counting the leading space of continuation lines', () => {
+    const physicalLines = foldLine('x'.repeat(200)).split(CRLF);
+
+    expect(physicalLines.map(line => line.length)).toEqual([75, 75, 75 - 23]);
+    physicalLines.slice(1).forEach(line => expect(line.startsWith(' x')).toBe(true));
+  });
+
+  it('never splits a multi-byte character', () => {
+    // 3 octets each, so 75 octets would end in the middle of a character
+    const line = 'a' + '王'.repeat(40) + '😀'.repeat(20);
+    const physicalLines = foldLine(line).split(CRLF);
+
+    physicalLines.forEach(physical => {
+      expect(utf8Length(physical)).toBeLessThanOrEqual(75);
+      expect(physical).not.toMatch(/[\uD800-\uDBFF](?![\uDC00-\uDFFF])|(?<![\uD800-\uDBFF])[\uDC00-\uDFFF]/);
+    });
+    expect(physicalLines[0]).toBe('a' + '王'.repeat(24));
+    expect(physicalLines.map(physical => physical.slice(1)).join('')).toBe(line.slice(1));
+  });
+});
+
+describe('buildCalendar', () => {
+  it('ends every line, including the last, with CRLF', () => {
+    const ics = buildEventIcs(event(), { now: NOW });
+
+    expect(ics.endsWith(CRLF)).toBe(true);
+    expect(ics.replace(/\r\n/g, '')).not.toMatch(/[\r\n]/);
+  });
+
+  it('writes a VEVENT with escaped text fields', () => {
+    const lines = unfold(buildEventIcs(event({ description: 'Drinks; snacks\nand views' }), { now: NOW }));
+
+    expect(lines).toEqual([
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//ProfileApp//Events//EN',
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+      'BEGIN:VEVENT',
+      'UID:event-101@profileapp.local',
+      'DTSTAMP:20250101T000000Z',
+      'DTSTART:20250610T093000Z',
+      'DTEND:20250610T113000Z',
+      'SUMMARY:Sunset Rooftop Social',
+      'DESCRIPTION:Drinks\\; snacks\\nand views',
+      'LOCATION:The Crown\\, Central',
+      'END:VEVENT',
+      'END:VCALENDAR',
+      '',
+    ]);
+  });
+
+  it('writes the start and end in the venue zone when there is one', () => {
+    const lines = unfold(buildEventIcs(event({ timeZone: 'Asia/Hong_Kong' }), { now: NOW }));
+
+    expect(lines).toContain('DTSTART;TZID=Asia/Hong_Kong:20250610T173000');
+    expect(lines).toContain('DTEND;TZID=Asia/Hong_Kong:20250610T193000');
+  });
+
+  it('ends zoned events by elapsed time across a daylight saving change', () => {
+    const lines = unfold(buildEventIcs(
+      event({ date: '2025-03-09T01:30:00-05:00', timeZone: 'America/New_York' }),
+      { now: NOW }
+    ));
+
+    expect(lines).toContain('DTSTART;TZID=America/New_York:20250309T013000');
+    expect(lines).toContain('DTEND;TZID=America/New_York:20250309T043000');
+  });
+
+  it('uses the given duration for the end time', () => {
+    const lines = unfold(buildEventIcs(event(), { now: NOW, durationMinutes: 45 }));
+
+    expect(lines).toContain('DTEND:20250610T101500Z');
+  });
+
+  it('adds GEO only when the event has coordinates', () => {
+    const withCoordinates = unfold(buildEventIcs(
+      event({ coordinates: { latitude: 22.2819, longitude: 114.1577 } }),
+      { now: NOW }
+    ));
+
+    expect(withCoordinates).toContain('GEO:22.2819;114.1577');
+    expect(unfold(buildEventIcs(event(), { now: NOW })).some(line => line.startsWith('GEO'))).toBe(false);
+  });
+
+  it('holds one VEVENT per event and names the feed', () => {
+    const lines = unfold(buildCalendar(
+      [event(), event({ id: 102 })],
+      { now: NOW, calendarName: 'Attended, 2025' }
+    ));
+
+    expect(lines.filter(line => line === 'BEGIN:VEVENT')).toHaveLength(2);
+    expect(lines).toContain('UID:event-102@profileapp.local');
+    expect(lines).toContain('X-WR-CALNAME:Attended\\, 2025');
+  });
+});
+
+describe('toIcsFileName', () => {
+  it('turns the title into a slug', () => {
+    expect(toIcsFileName('Sunset Rooftop Social!')).toBe('sunset-rooftop-social.ics');
+  });
+
+  it('falls back to a default name', () => {
+    expect(toIcsFileName('王小明')).toBe('event.ics');
+  });
+});
@@ -0,0 +1,82 @@
+import jsQR from 'jsqr';
+import { ErrorCorrectionLevel, QrCode, encodeQrCode, toUtf8Bytes } from '../qrCode';
+import { buildVCard } from '../vcard';
+
+const QUIET_ZONE = 4;
+const MODULE_PIXELS = 4;
+
+// Draws the symbol as an RGBA image, as a camera would see it, and reads it
+// back with an independent decoder
+const decode = (code: QrCode) => {
+  const side = (code.size + QUIET_ZONE * 2) * MODULE_PIXELS;
+  const pixels = new Uint8ClampedArray(side * side * 4).fill(255);
+
+  code.modules.forEach((row, y) => row.forEach((dark, x) => {
+    if (!dark) return;
+    for (let dy = 0; dy < MODULE_PIXELS; dy++) {
+      for (let dx = 0; dx < MODULE_PIXELS; dx++) {
+        const px = (x + QUIET_ZONE) * MODULE_PIXELS + dx;
+        const py = (y + QUIET_ZONE) * MODULE_PIXELS + dy;
+        pixels.fill(0, (py * side + px) * 4, (py * side + px) * 4 + 3);
+      }
+    }
+  }));
+
+  return jsQR(pixels, side, side);
+};
+
+describe('toUtf8Bytes', () => {
+  it('encodes characters of every length', () => {
+    expect(toUtf8Bytes('aé王😀')).toEqual([
+      0x61,
+      0xc3, 0xa9,
+      0xe7, 0x8e, 0x8b,
+      0xf0, 0x9f, 0x98, 0x80,
+    ]);
+  });
+});
+
+describe('encodeQrCode', () => {
+  it('round-trips short text in a version 1 symbol', () => {
+    const code = encodeQrCode('HELLO WORLD');
+
+    expect(code.size).toBe(21);
+    expect(decode(code)?.data).toBe('HELLO WORLD');
+  });
+
+  it.each<ErrorCorrectionLevel>(['L', 'M', 'Q', 'H'])(
+    'round-trips a contact card with non-ASCII text at level %s',
+    (level) => {
+      const card = buildVCard({
+        name: 'Zoë Ångström 王小明',
+        email: 'zoe@example.com',
+        phone: '+852 9876 5432',
+        occupation: 'Engineer, R&D',
+        location: 'Hong Kong',
+      });
+      const result = decode(encodeQrCode(card, { errorCorrection: level }));
+
+      expect(result?.binaryData).toEqual(toUtf8Bytes(card));
+      expect(result?.data).toBe(card);
+    }
+  );
+
+  it('round-trips text that needs a large symbol with version information', () => {
+    const text = 'https://profileapp.example.com/events/101?ref=' + 'x'.repeat(600);
+    const code = encodeQrCode(text);
+
+    // Versions 7 and up carry version information blocks
+    expect(code.size).toBeGreaterThanOrEqual(7 * 4 + 17);
+    expect(decode(code)?.data).toBe(text);
+  });
+
+  it('uses the smallest symbol that fits', () => {
+    // Version 1 at level M holds 14 bytes
+    expect(encodeQrCode('a'.repeat(14)).size).toBe(21);
+    expect(encodeQrCode('a'.repeat(15)).size).toBe(25);
+  });
+
+  it('rejects text too long for any version', () => {
+    expect(() => encodeQrCode('a'.repeat(1274), { errorCorrection: 'H' })).toThrow(/too long/);
+  });
+});
@@ -0,0 +1,108 @@
+import { buildVCard, toVCardFileName } from '../vcard';
+
+const CRLF = '\r\n';
+
+// Undoes line folding (RFC 6350 3.2) so properties can be matched whole
+const unfold = (card: string) => card.replace(/\r\n /g, '').split(CRLF);
+
+const utf8Length = (text: string) => new TextEncoder().encode(text).length;
+
+describe('buildVCard', () => {
+  it('builds a version 4.0 card from the profile fields', () => {
+    const card = buildVCard({
+      name: 'Ada Lovelace',
+      email: 'ada@example.com',
+      phone: '+44 20 7946 0958',
+      occupation: 'Mathematician',
+      location: 'London',
+    });
+
+    expect(card.endsWith(CRLF)).toBe(true);
+    expect(unfold(card)).toEqual([
+      'BEGIN:VCARD',
+      'VERSION:4.0',
+      'PRODID:-//ProfileApp//Profile//EN',
+      'FN:Ada Lovelace',
+      'N:Lovelace;Ada;;;',
+      'EMAIL:ada@example.com',
+      'TEL;VALUE=uri:tel:+442079460958',
+      'TITLE:Mathematician',
+      'ADR:;;;London;;;',
+      'END:VCARD',
+      '',
+    ]);
+  });
+
+  it('leaves out empty fields', () => {
+    const lines = unfold(buildVCard({ name: 'Ada', email: '  ', phone: '', occupation: undefined }));
+
+    expect(lines.some(line => /^(EMAIL|TEL|TITLE|ADR|PHOTO)[:;]/.test(line))).toBe(false);
+  });
+
+  it('escapes commas, semicolons, backslashes and line breaks', () => {
+    const lines = unfold(buildVCard({
+      name: 'Lovelace, Ada',
+      occupation: 'Analyst; Programmer\\Writer',
+      location: 'Marylebone\nLondon\r\nUK',
+    }));
+
+    expect(lines).toContain('FN:Lovelace\\, Ada');
+    expect(lines).toContain('TITLE:Analyst\\; Programmer\\\\Writer');
+    expect(lines).toContain('ADR:;;;Marylebone\\nLondon\\nUK;;;');
+  });
+
+  it('escapes separators inside the structured name', () => {
+    expect(unfold(buildVCard({ name: 'Ada Lovelace;King' }))).toContain('N:Lovelace\\;King;Ada;;;');
+  });
+
+  it('keeps non-ASCII names intact', () => {
+    const lines = unfold(buildVCard({ name: 'Zoë Ångström' }));
+
+    expect(lines).toContain('FN:Zoë Ångström');
+    expect(lines).toContain('N:Ångström;Zoë;;;');
+  });
+
+  it('keeps a name written without spaces whole', () => {
+    const lines = unfold(buildVCard({ name: '王小明' }));
+
+    expect(lines).toContain('FN:王小明');
+    expect(lines).toContain('N:;王小明;;;');
+  });
+
+  it('folds long lines at 75 octets without splitting multi-byte characters', () => {
+    const name = '王小明'.repeat(20) + ' 😀'.repeat(10);
+    const card = buildVCard({ name });
+    const physicalLines = card.split(CRLF).filter(Boolean);
+
+    physicalLines.forEach(line => {
+      expect(utf8Length(line)).toBeLessThanOrEqual(75);
+      // A split surrogate pair or UTF-8 sequence would leave a lone surrogate
+      expect(line).not.toMatch(/[\uD800-\uDBFF](?![\uDC00-\uDFFF])|(?<![\uD800-\uDBFF])[\uDC00-\uDFFF]/);
+    });
+    expect(physicalLines.length).toBeGreaterThan(5);
+    expect(unfold(card)).toContain(`FN:${name}`);
+  });
+
+  it('writes numbers without a country code as text', () => {
+    expect(unfold(buildVCard({ name: 'Ada', phone: '9876 5432' }))).toContain('TEL:9876 5432');
+  });
+
+  it('includes the photo when one is given', () => {
+    const photo = 'data:image/jpeg;base64,' + 'A'.repeat(200);
+    expect(unfold(buildVCard({ name: 'Ada' }, { photo }))).toContain(`PHOTO:${photo}`);
+  });
+});
+
+describe('toVCardFileName', () => {
+  it('keeps letters from any script', () => {
+    expect(toVCardFileName('王小明 / Zoë!')).toBe('王小明-Zoë.vcf');
+  });
+
+  it('falls back to a default name', () => {
+    expect(toVCardFileName('???')).toBe('contact.vcf');
+  });
+
+  it('shortens long names without cutting a character in half', () => {
+    expect(toVCardFileName('😀'.repeat(50))).toBe(`${'😀'.repeat(40)}.vcf`);
+  });
+});
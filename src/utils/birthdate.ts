@@ -0,0 +1,33 @@
+import { format, isAfter, isBefore, parseISO, startOfDay } from 'date-fns';
+
+// Birthdates are plain calendar dates, stored as "yyyy-MM-dd"
+const BIRTHDATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const MIN_BIRTHDATE = new Date(1900, 0, 1);
+
+export const toBirthdateString = (date: Date) => format(date, 'yyyy-MM-dd');
+
+/**
+ * The birthdate as local midnight, or null if it isn't a real date between
+ * MIN_BIRTHDATE and today. "1995-02-30" and tomorrow are both rejected.
+ */
+export const parseBirthdate = (value: string, today: Date = new Date()): Date | null => {
+  if (!BIRTHDATE_PATTERN.test(value)) return null;
+
+  const date = parseISO(value);
+  if (Number.isNaN(date.getTime()) || toBirthdateString(date) !== value) return null;
+  if (isBefore(date, MIN_BIRTHDATE) || isAfter(date, startOfDay(today))) return null;
+  return date;
+};
+
+export const calculateAge = (birthdate: string, today: Date = new Date()): number | null => {
+  const birth = parseBirthdate(birthdate, today);
+  if (!birth) return null;
+
+  let age = today.getFullYear() - birth.getFullYear();
+  const monthDiff = today.getMonth() - birth.getMonth();
+  if (monthDiff < 0 || (monthDiff === 0 && today.getDate() < birth.getDate())) {
+    age--;
+  }
+  return age;
+};
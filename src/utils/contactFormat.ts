@@ -0,0 +1,85 @@
+// Email and international phone number checks for the contact fields.
+
+// Deliberately loose: one @, no spaces, and a dot in the domain. Anything
+// stricter rejects real addresses.
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@.]+(\.[^\s@.]+)+$/;
+
+export const isValidEmail = (email: string) => EMAIL_PATTERN.test(email.trim());
+
+// ITU country codes: 1 and 7 are the only one-digit codes and these are the
+// two-digit ones; every other code has three digits.
+const TWO_DIGIT_COUNTRY_CODES = new Set([
+  '20', '27', '30', '31', '32', '33', '34', '36', '39', '40', '41', '43', '44', '45', '46',
+  '47', '48', '49', '51', '52', '53', '54', '55', '56', '57', '58', '60', '61', '62', '63',
+  '64', '65', '66', '81', '82', '84', '86', '90', '91', '92', '93', '94', '95', '98',
+]);
+
+// Digit groups of the national number where every number has the same
+// length, e.g. Hong Kong numbers read "9876 5432". Numbers elsewhere keep
+// their national part in one block.
+const NATIONAL_GROUPS: Record<string, number[]> = {
+  '1': [3, 3, 4],
+  '65': [4, 4],
+  '852': [4, 4],
+  '853': [4, 4],
+};
+
+// E.164 limits the whole number, country code included, to 15 digits
+const MIN_DIGITS = 8;
+const MAX_DIGITS = 15;
+
+export interface PhoneNumber {
+  countryCode: string;
+  nationalNumber: string;
+}
+
+const getCountryCodeLength = (digits: string) => {
+  if (digits[0] === '1' || digits[0] === '7') return 1;
+  return TWO_DIGIT_COUNTRY_CODES.has(digits.slice(0, 2)) ? 2 : 3;
+};
+
+/**
+ * Reads a number written with its country code, as "+852 9876 5432",
+ * "+1 (555) 123-4567" or "00852 98765432". Returns null when it has no
+ * country code or the wrong number of digits.
+ */
+export const parsePhoneNumber = (input: string): PhoneNumber | null => {
+  const trimmed = input.trim();
+  if (!/^(\+|00)[\d\s().-]+$/.test(trimmed)) return null;
+
+  const digits = trimmed.replace(/^00/, '').replace(/\D/g, '');
+  if (digits.length < MIN_DIGITS || digits.length > MAX_DIGITS) return null;
+
+  const countryCode = digits.slice(0, getCountryCodeLength(digits));
+  const nationalNumber = digits.slice(countryCode.length);
+  const groups = NATIONAL_GROUPS[countryCode];
+  if (groups && nationalNumber.length !== groups.reduce((sum, size) => sum + size, 0)) {
+    return null;
+  }
+
+  return { countryCode, nationalNumber };
+};
+
+const groupDigits = (digits: string, groups: number[]) => {
+  let start = 0;
+  return groups
+    .map(size => {
+      const part = digits.slice(start, start + size);
+      start += size;
+      return part;
+    })
+    .join(' ');
+};
+
+// Numbers from countries with a known grouping are rewritten in it, e.g.
+// "+852 9876 5432". Others keep the user's own grouping, with the spacing
+// tidied up. Returns null when the number is not valid.
+export const formatPhoneNumber = (input: string): string | null => {
+  const phone = parsePhoneNumber(input);
+  if (!phone) return null;
+
+  const groups = NATIONAL_GROUPS[phone.countryCode];
+  return groups
+    ? `+${phone.countryCode} ${groupDigits(phone.nationalNumber, groups)}`
+    : input.trim().replace(/\s+/g, ' ');
+};
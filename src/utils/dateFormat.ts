@@ -0,0 +1,62 @@
+import { format, parseISO } from 'date-fns';
+import { Event } from '../types';
+import { AppLocale, DatePatterns } from '../i18n/locales';
+import { getDeviceTimeZone, getTimeZoneLabel, getTimeZoneOffset, toZonedTime } from './timeZone';
+
+export type EventTime = Pick<Event, 'date' | 'timeZone'>;
+
+// Formats in `timeZone` when given, otherwise in the device's zone
+export const formatDate = (
+  date: Date | string,
+  pattern: keyof DatePatterns,
+  locale: AppLocale,
+  timeZone?: string
+) => {
+  const instant = new Date(date);
+  return format(
+    timeZone ? toZonedTime(instant, timeZone) : instant,
+    locale.datePatterns[pattern],
+    { locale: locale.dateLocale }
+  );
+};
+
+// Shared by the event cards, detail screen, calendar and timeline so an event
+// date reads the same everywhere. Times are the venue's local time.
+export const formatEventDate = ({ date, timeZone }: EventTime, locale: AppLocale) => ({
+  full: formatDate(date, 'full', locale, timeZone),
+  weekday: formatDate(date, 'weekday', locale, timeZone),
+  day: formatDate(date, 'day', locale, timeZone),
+  month: formatDate(date, 'month', locale, timeZone),
+  year: formatDate(date, 'year', locale, timeZone),
+  time: formatDate(date, 'time', locale, timeZone),
+  zone: getTimeZoneLabel(timeZone, new Date(date), locale.intlTag),
+});
+
+/**
+ * The event's start in the device's own zone, for people who are not where
+ * the event is. Null when the device is on the same clock as the venue.
+ */
+export const formatDeviceLocalTime = ({ date, timeZone }: EventTime, locale: AppLocale) => {
+  const instant = new Date(date);
+  if (getTimeZoneOffset(timeZone, instant) === -instant.getTimezoneOffset()) return null;
+
+  return {
+    dateTime: formatDate(instant, 'weekdayTime', locale),
+    zone: getTimeZoneLabel(getDeviceTimeZone(), instant, locale.intlTag),
+  };
+};
+
+export const formatMonthYear = (date: Date | string, locale: AppLocale, timeZone?: string) =>
+  formatDate(date, 'monthYear', locale, timeZone);
+
+// Calendar day key, e.g. "2025-06-10", in `timeZone` or the device's zone
+export const toDayKey = (date: Date | string, timeZone?: string) => {
+  const instant = new Date(date);
+  return format(timeZone ? toZonedTime(instant, timeZone) : instant, 'yyyy-MM-dd');
+};
+
+// Day keys are read as local midnight; `new Date(key)` would read them as UTC
+export const fromDayKey = (dayKey: string) => parseISO(dayKey);
+
+export const formatDayHeading = (dayKey: string, locale: AppLocale) =>
+  formatDate(fromDayKey(dayKey), 'dayHeading', locale);
@@ -0,0 +1,48 @@
+import { Event } from '../types';
+import { MessageKey } from '../i18n/messages/en';
+
+export type MapsProvider = 'apple' | 'google' | 'geo';
+
+export type DirectionsTarget = Pick<Event, 'title' | 'location' | 'coordinates'>;
+
+export const MAPS_PROVIDER_LABELS: Record<MapsProvider, MessageKey> = {
+  apple: 'directions.provider.apple',
+  google: 'directions.provider.google',
+  geo: 'directions.provider.geo',
+};
+
+// geo: URIs are only understood on Android, and Apple Maps only exists on iOS
+export const getMapsProviders = (platform: string): MapsProvider[] => {
+  switch (platform) {
+    case 'ios':
+      return ['apple', 'google'];
+    case 'android':
+      return ['google', 'geo'];
+    default:
+      return ['google'];
+  }
+};
+
+/**
+ * Builds a deep link that opens turn-by-turn directions to the event. Uses the
+ * exact coordinates when known and falls back to searching for the address.
+ */
+export const buildDirectionsUrl = (provider: MapsProvider, target: DirectionsTarget): string => {
+  const { coordinates, location, title } = target;
+  const latLng = coordinates ? `${coordinates.latitude},${coordinates.longitude}` : null;
+  const address = encodeURIComponent(location);
+
+  switch (provider) {
+    case 'apple':
+      return latLng
+        ? `https://maps.apple.com/?daddr=${latLng}&q=${encodeURIComponent(title)}`
+        : `https://maps.apple.com/?daddr=${address}`;
+    case 'google':
+      return `https://www.google.com/maps/dir/?api=1&destination=${latLng ?? address}`;
+    case 'geo':
+      // The label in parentheses names the dropped pin in most Android maps apps
+      return latLng
+        ? `geo:${latLng}?q=${latLng}(${encodeURIComponent(title)})`
+        : `geo:0,0?q=${address}`;
+  }
+};
@@ -0,0 +1,156 @@
+import { subDays, subMonths, subYears } from 'date-fns';
+import { Event, EventPage } from '../types';
+import { MessageKey } from '../i18n/messages/en';
+
+export type RatedFilter = 'all' | 'rated' | 'unrated';
+
+export type RatingRange = 'any' | 'high' | 'mid' | 'low';
+
+export type DateRange = 'any' | 'month' | 'halfYear' | 'year' | 'older';
+
+export type EventSortOption = 'newest' | 'oldest' | 'highestRated' | 'lowestRated' | 'title';
+
+export interface EventFilters {
+  query: string;
+  rated: RatedFilter;
+  rating: RatingRange;
+  dateRange: DateRange;
+  location: string | null;
+  sort: EventSortOption;
+}
+
+export const DEFAULT_EVENT_FILTERS: EventFilters = {
+  query: '',
+  rated: 'all',
+  rating: 'any',
+  dateRange: 'any',
+  location: null,
+  sort: 'newest',
+};
+
+export const RATED_FILTER_LABELS: Record<RatedFilter, MessageKey> = {
+  all: 'filters.rated.all',
+  rated: 'filters.rated.rated',
+  unrated: 'filters.rated.unrated',
+};
+
+export const RATING_RANGE_LABELS: Record<RatingRange, MessageKey> = {
+  any: 'filters.rating.any',
+  high: 'filters.rating.high',
+  mid: 'filters.rating.mid',
+  low: 'filters.rating.low',
+};
+
+export const DATE_RANGE_LABELS: Record<DateRange, MessageKey> = {
+  any: 'filters.date.any',
+  month: 'filters.date.month',
+  halfYear: 'filters.date.halfYear',
+  year: 'filters.date.year',
+  older: 'filters.date.older',
+};
+
+export const SORT_LABELS: Record<EventSortOption, MessageKey> = {
+  newest: 'filters.sort.newest',
+  oldest: 'filters.sort.oldest',
+  highestRated: 'filters.sort.highestRated',
+  lowestRated: 'filters.sort.lowestRated',
+  title: 'filters.sort.title',
+};
+
+const RATING_BOUNDS: Record<Exclude<RatingRange, 'any'>, [number, number]> = {
+  high: [4, 5],
+  mid: [3, 3],
+  low: [1, 2],
+};
+
+const matchesQuery = (event: Event, query: string) => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return true;
+  return [event.title, event.description, event.location].some(field =>
+    field.toLowerCase().includes(needle)
+  );
+};
+
+const matchesRating = (event: Event, range: RatingRange) => {
+  if (range === 'any') return true;
+  if (!event.rated || event.rating === undefined) return false;
+  const [min, max] = RATING_BOUNDS[range];
+  return event.rating >= min && event.rating <= max;
+};
+
+const matchesDateRange = (event: Event, range: DateRange, now: Date) => {
+  if (range === 'any') return true;
+  const date = new Date(event.date);
+  switch (range) {
+    case 'month':
+      return date >= subDays(now, 30);
+    case 'halfYear':
+      return date >= subMonths(now, 6);
+    case 'year':
+      return date >= subYears(now, 1);
+    case 'older':
+      return date < subYears(now, 1);
+  }
+};
+
+const compareEvents = (sort: EventSortOption) => (a: Event, b: Event): number => {
+  const byDate = new Date(b.date).getTime() - new Date(a.date).getTime();
+  switch (sort) {
+    case 'newest':
+      return byDate;
+    case 'oldest':
+      return -byDate;
+    // Unrated events always go last, newest first among equal ratings
+    case 'highestRated':
+      return (b.rating ?? 0) - (a.rating ?? 0) || byDate;
+    case 'lowestRated':
+      return (a.rating ?? 6) - (b.rating ?? 6) || byDate;
+    case 'title':
+      return a.title.localeCompare(b.title);
+  }
+};
+
+/**
+ * Narrows and orders the attended events for the profile list. Returns a new
+ * array; the input is left untouched.
+ */
+export const applyEventFilters = (
+  events: Event[],
+  filters: EventFilters,
+  now: Date = new Date()
+): Event[] =>
+  events
+    .filter(event =>
+      matchesQuery(event, filters.query) &&
+      (filters.rated === 'all' || event.rated === (filters.rated === 'rated')) &&
+      matchesRating(event, filters.rating) &&
+      matchesDateRange(event, filters.dateRange, now) &&
+      (filters.location === null || event.location === filters.location)
+    )
+    .sort(compareEvents(filters.sort));
+
+// Cuts one page out of the filtered events, the way GET /events does
+export const pageEvents = (
+  events: Event[],
+  { offset, limit, filters }: { offset: number; limit: number; filters: EventFilters },
+  now: Date = new Date()
+): EventPage => {
+  const matching = applyEventFilters(events, filters, now);
+  const nextOffset = offset + limit;
+  return {
+    events: matching.slice(offset, nextOffset),
+    ...(nextOffset < matching.length && { nextOffset }),
+  };
+};
+
+// Search text and sort order are not counted, since neither hides any events
+export const countActiveFilters = (filters: EventFilters): number =>
+  [
+    filters.rated !== 'all',
+    filters.rating !== 'any',
+    filters.dateRange !== 'any',
+    filters.location !== null,
+  ].filter(Boolean).length;
+
+export const getEventLocations = (events: Event[]): string[] =>
+  [...new Set(events.map(event => event.location))].sort((a, b) => a.localeCompare(b));
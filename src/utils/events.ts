@@ -0,0 +1,71 @@
+import { Event, EventPhoto, UpcomingEvent, UserProfile } from '../types';
+import { formatMonthYear, toDayKey } from './dateFormat';
+import { AppLocale } from '../i18n/locales';
+
+export const toAttendedEvent = ({
+  rsvpStatus,
+  capacity,
+  attendeeCount,
+  ...details
+}: UpcomingEvent): Event => ({
+  ...details,
+  rated: false,
+});
+
+/**
+ * Moves upcoming events whose start time has passed into the attended
+ * history. Only events the user was going to are kept, newest first, so they
+ * can be rated; the rest are dropped.
+ */
+export const archivePastEvents = (profile: UserProfile, now: Date = new Date()): UserProfile => {
+  const past = profile.upcomingEvents.filter(event => new Date(event.date) <= now);
+  if (past.length === 0) return profile;
+
+  const attended = past
+    .filter(event => event.rsvpStatus === 'going')
+    .filter(event => !profile.attendedEvents.some(existing => existing.id === event.id))
+    .map(toAttendedEvent)
+    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+
+  return {
+    ...profile,
+    upcomingEvents: profile.upcomingEvents.filter(event => !past.includes(event)),
+    attendedEvents: [...attended, ...profile.attendedEvents],
+  };
+};
+
+// Start time (epoch ms) of the soonest upcoming event, or null if there is none
+export const nextUpcomingEventTime = (profile: UserProfile): number | null => {
+  const times = profile.upcomingEvents.map(event => new Date(event.date).getTime());
+  return times.length > 0 ? Math.min(...times) : null;
+};
+
+export interface EventMonthGroup {
+  key: string;
+  title: string;
+  events: Event[];
+}
+
+// Groups events by calendar month, newest month and newest event first
+export const groupEventsByMonth = (events: Event[], locale: AppLocale): EventMonthGroup[] => {
+  const sorted = [...events].sort(
+    (a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()
+  );
+  const groups: EventMonthGroup[] = [];
+
+  for (const event of sorted) {
+    const key = toDayKey(event.date, event.timeZone).slice(0, 7);
+    const current = groups[groups.length - 1];
+    if (current?.key === key) {
+      current.events.push(event);
+    } else {
+      groups.push({ key, title: formatMonthYear(event.date, locale, event.timeZone), events: [event] });
+    }
+  }
+
+  return groups;
+};
+
+// The chosen cover, or the first photo when none was chosen or it was deleted
+export const getCoverPhoto = (event: Event): EventPhoto | undefined =>
+  event.photos?.find(photo => photo.id === event.coverPhotoId) ?? event.photos?.[0];
@@ -0,0 +1,144 @@
+import { Event } from '../types';
+import { toOffsetIsoString } from './timeZone';
+
+/**
+ * iCalendar (RFC 5545) generation. Kept free of React Native imports so it
+ * can be exercised on its own.
+ */
+
+// Times are written in UTC when there is no time zone
+export type CalendarEvent = Pick<Event, 'id' | 'title' | 'description' | 'location' | 'date' | 'coordinates'> &
+  Partial<Pick<Event, 'timeZone'>>;
+
+export interface IcsOptions {
+  // Events only carry a start time, so the end is derived from this
+  durationMinutes?: number;
+  calendarName?: string;
+  now?: Date;
+}
+
+export const DEFAULT_EVENT_DURATION_MINUTES = 120;
+
+const PRODUCT_ID = '-//ProfileApp//Events//EN';
+const UID_DOMAIN = 'profileapp.local';
+const MAX_LINE_OCTETS = 75;
+const CRLF = '\r\n';
+
+// TEXT values escape backslashes, separators and line breaks (RFC 5545 3.3.11)
+export const escapeText = (value: string): string =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n|\r|\n/g, '\\n');
+
+const utf8Length = (char: string): number => {
+  const code = char.codePointAt(0) ?? 0;
+  if (code < 0x80) return 1;
+  if (code < 0x800) return 2;
+  if (code < 0x10000) return 3;
+  return 4;
+};
+
+/**
+ * Folds a content line so no physical line exceeds 75 octets (RFC 5545 3.1).
+ * Continuation lines start with a single space, which counts toward the limit,
+ * and multi-byte UTF-8 characters are never split.
+ */
+export const foldLine = (line: string): string => {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    const size = utf8Length(char);
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+
+  return parts.join(`${CRLF} `);
+};
+
+// UTC date-time form, e.g. 20250610T093000Z
+export const formatIcsDateTime = (date: Date): string =>
+  date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// Wall-clock form in the given zone, e.g. 20250610T173000
+const formatIcsLocalDateTime = (date: Date, timeZone: string): string =>
+  toOffsetIsoString(date, timeZone).slice(0, 19).replace(/[-:]/g, '');
+
+// Zoned times follow the venue's daylight saving rules in the user's calendar.
+// Calendar apps know the IANA names, so no VTIMEZONE is written for them.
+const formatDateProperty = (name: string, date: Date, timeZone?: string): string =>
+  timeZone
+    ? `${name};TZID=${timeZone}:${formatIcsLocalDateTime(date, timeZone)}`
+    : `${name}:${formatIcsDateTime(date)}`;
+
+const buildEventLines = (
+  event: CalendarEvent,
+  { durationMinutes = DEFAULT_EVENT_DURATION_MINUTES, now = new Date() }: IcsOptions
+): string[] => {
+  const start = new Date(event.date);
+  const end = new Date(start.getTime() + durationMinutes * 60 * 1000);
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:event-${event.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${formatIcsDateTime(now)}`,
+    formatDateProperty('DTSTART', start, event.timeZone),
+    formatDateProperty('DTEND', end, event.timeZone),
+    `SUMMARY:${escapeText(event.title)}`,
+    `DESCRIPTION:${escapeText(event.description)}`,
+    `LOCATION:${escapeText(event.location)}`,
+  ];
+
+  if (event.coordinates) {
+    lines.push(`GEO:${event.coordinates.latitude};${event.coordinates.longitude}`);
+  }
+
+  lines.push('END:VEVENT');
+  return lines;
+};
+
+/**
+ * Builds a complete VCALENDAR object holding one VEVENT per event. Lines are
+ * folded and CRLF-terminated, ready to be written to a .ics file.
+ */
+export const buildCalendar = (events: CalendarEvent[], options: IcsOptions = {}): string => {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+  ];
+
+  if (options.calendarName) {
+    lines.push(`X-WR-CALNAME:${escapeText(options.calendarName)}`);
+  }
+
+  events.forEach(event => lines.push(...buildEventLines(event, options)));
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldLine).join(CRLF) + CRLF;
+};
+
+export const buildEventIcs = (event: CalendarEvent, options: IcsOptions = {}): string =>
+  buildCalendar([event], options);
+
+// Safe, readable file name for an exported event
+export const toIcsFileName = (title: string): string => {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 40);
+  return `${slug || 'event'}.ics`;
+};
@@ -0,0 +1,68 @@
+export interface LatLng {
+  latitude: number;
+  longitude: number;
+}
+
+export interface MapRegion extends LatLng {
+  latitudeDelta: number;
+  longitudeDelta: number;
+}
+
+export interface MapCluster<T> extends LatLng {
+  id: string;
+  items: T[];
+}
+
+const MIN_REGION_DELTA = 0.01;
+
+/**
+ * Groups nearby items into clusters by snapping them to a grid sized to the
+ * visible region, so the number of markers stays roughly constant whatever the
+ * zoom level. Each cluster sits at the average position of its items.
+ */
+export const clusterByRegion = <T extends LatLng>(
+  items: T[],
+  region: MapRegion,
+  cellsAcross = 6
+): MapCluster<T>[] => {
+  const cellLat = region.latitudeDelta / cellsAcross;
+  const cellLng = region.longitudeDelta / cellsAcross;
+  const cells = new Map<string, T[]>();
+
+  items.forEach(item => {
+    const key = `${Math.floor(item.latitude / cellLat)}:${Math.floor(item.longitude / cellLng)}`;
+    cells.set(key, [...(cells.get(key) ?? []), item]);
+  });
+
+  return [...cells.entries()].map(([key, members]) => ({
+    id: key,
+    items: members,
+    latitude: members.reduce((sum, item) => sum + item.latitude, 0) / members.length,
+    longitude: members.reduce((sum, item) => sum + item.longitude, 0) / members.length,
+  }));
+};
+
+/**
+ * Smallest region showing every coordinate, padded so markers don't sit on
+ * the edge of the map. Returns null when there is nothing to show.
+ */
+export const regionForCoordinates = (
+  coordinates: LatLng[],
+  padding = 1.4
+): MapRegion | null => {
+  if (coordinates.length === 0) return null;
+
+  const latitudes = coordinates.map(point => point.latitude);
+  const longitudes = coordinates.map(point => point.longitude);
+  const minLat = Math.min(...latitudes);
+  const maxLat = Math.max(...latitudes);
+  const minLng = Math.min(...longitudes);
+  const maxLng = Math.max(...longitudes);
+
+  return {
+    latitude: (minLat + maxLat) / 2,
+    longitude: (minLng + maxLng) / 2,
+    latitudeDelta: Math.max((maxLat - minLat) * padding, MIN_REGION_DELTA),
+    longitudeDelta: Math.max((maxLng - minLng) * padding, MIN_REGION_DELTA),
+  };
+};
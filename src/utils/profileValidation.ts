@@ -0,0 +1,351 @@
+import { Event, EventPage, RsvpStatus, UpcomingEvent, UserProfile } from '../types';
+import { MessageKey } from '../i18n/messages/en';
+import { MessageValues } from '../i18n/messageFormat';
+import { hasUtcOffset, isValidTimeZone } from './timeZone';
+import { parseBirthdate } from './birthdate';
+import { isValidEmail, parsePhoneNumber } from './contactFormat';
+
+// One problem with one field. `path` is how the field is reached from the
+// validated value, e.g. "email" or "attendedEvents.2.rating".
+export interface FieldError {
+  path: string;
+  message: MessageKey;
+  values?: MessageValues;
+}
+
+export type ValidationResult<T> =
+  | { ok: true; data: T }
+  | { ok: false; errors: FieldError[] };
+
+export type Validator<T> = (value: unknown) => ValidationResult<T>;
+
+type Fields = Record<string, unknown>;
+
+const RSVP_STATUSES: RsvpStatus[] = ['going', 'maybe', 'declined', 'waitlisted'];
+
+// Calendar date with an optional time and offset, e.g. "1995-03-15" or
+// "2025-06-10T17:30:00+08:00"
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/i;
+
+export const isRecord = (value: unknown): value is Fields =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isInteger = (value: unknown): value is number => Number.isInteger(value);
+
+const joinPath = (base: string, key: string | number) => (base ? `${base}.${key}` : String(key));
+
+// Rejects dates that parse but don't exist, such as February 30
+export const isValidIsoDate = (value: string): boolean => {
+  const match = ISO_DATE.exec(value);
+  if (!match || Number.isNaN(new Date(value).getTime())) return false;
+
+  const [, year, month, day] = match.map(Number);
+  const calendarDate = new Date(Date.UTC(year, month - 1, day));
+  return calendarDate.getUTCMonth() === month - 1 && calendarDate.getUTCDate() === day;
+};
+
+const createChecker = (errors: FieldError[]) => {
+  const fail = (path: string, message: MessageKey, values?: MessageValues) => {
+    errors.push({ path, message, values });
+  };
+
+  const string = (fields: Fields, key: string, path: string, { required = false } = {}) => {
+    const value = fields[key];
+    const fieldPath = joinPath(path, key);
+    if (value === undefined && !required) return;
+    if (typeof value !== 'string') {
+      fail(fieldPath, value === undefined ? 'validation.required' : 'validation.invalidValue');
+    } else if (required && !value.trim()) {
+      fail(fieldPath, 'validation.required');
+    }
+  };
+
+  // Empty optional dates count as missing
+  const date = (
+    fields: Fields,
+    key: string,
+    path: string,
+    { required = false, withOffset = false } = {}
+  ) => {
+    const value = fields[key];
+    const fieldPath = joinPath(path, key);
+    if ((value === undefined || value === '') && !required) return;
+    if (typeof value !== 'string' || !isValidIsoDate(value) || (withOffset && !hasUtcOffset(value))) {
+      fail(fieldPath, 'validation.invalidDate');
+    }
+  };
+
+  // Optional text that has to follow a format when filled in
+  const formatted = (
+    fields: Fields,
+    key: string,
+    path: string,
+    isValid: (value: string) => boolean,
+    message: MessageKey
+  ) => {
+    const value = fields[key];
+    if (value === undefined || value === '') return;
+    if (typeof value !== 'string') {
+      fail(joinPath(path, key), 'validation.invalidValue');
+    } else if (!isValid(value)) {
+      fail(joinPath(path, key), message);
+    }
+  };
+
+  const number = (
+    fields: Fields,
+    key: string,
+    path: string,
+    { min, max, integer = true, required = true }: {
+      min: number;
+      max?: number;
+      integer?: boolean;
+      required?: boolean;
+    }
+  ) => {
+    const value = fields[key];
+    const fieldPath = joinPath(path, key);
+    if (value === undefined && !required) return;
+    if (typeof value !== 'number' || !Number.isFinite(value) || (integer && !isInteger(value))) {
+      fail(fieldPath, 'validation.invalidValue');
+    } else if (value < min || (max !== undefined && value > max)) {
+      fail(
+        fieldPath,
+        max === undefined ? 'validation.tooSmall' : 'validation.outOfRange',
+        max === undefined ? { min } : { min, max }
+      );
+    }
+  };
+
+  const stringList = (fields: Fields, key: string, path: string) => {
+    const value = fields[key];
+    const fieldPath = joinPath(path, key);
+    if (!Array.isArray(value)) {
+      fail(fieldPath, 'validation.invalidValue');
+      return;
+    }
+    value.forEach((item, index) => {
+      if (typeof item !== 'string') fail(joinPath(fieldPath, index), 'validation.invalidValue');
+    });
+  };
+
+  const record = (fields: Fields, key: string, path: string, { required = false } = {}) => {
+    const value = fields[key];
+    if (value === undefined && !required) return null;
+    if (!isRecord(value)) {
+      fail(joinPath(path, key), 'validation.invalidValue');
+      return null;
+    }
+    return value;
+  };
+
+  return { fail, string, date, formatted, number, stringList, record };
+};
+
+type Checker = ReturnType<typeof createChecker>;
+
+const checkEventDetails = (check: Checker, event: Fields, path: string) => {
+  check.number(event, 'id', path, { min: 0 });
+  check.string(event, 'title', path, { required: true });
+  check.string(event, 'description', path);
+  check.string(event, 'location', path, { required: true });
+  check.date(event, 'date', path, { required: true, withOffset: true });
+
+  if (typeof event.timeZone !== 'string' || !isValidTimeZone(event.timeZone)) {
+    check.fail(joinPath(path, 'timeZone'), 'validation.invalidTimeZone');
+  }
+
+  const coordinates = check.record(event, 'coordinates', path);
+  if (coordinates) {
+    const coordinatesPath = joinPath(path, 'coordinates');
+    check.number(coordinates, 'latitude', coordinatesPath, { min: -90, max: 90, integer: false });
+    check.number(coordinates, 'longitude', coordinatesPath, { min: -180, max: 180, integer: false });
+  }
+};
+
+const checkEventPhotos = (check: Checker, event: Fields, path: string) => {
+  check.string(event, 'coverPhotoId', path);
+
+  const photos = event.photos;
+  const photosPath = joinPath(path, 'photos');
+  if (photos === undefined) return;
+  if (!Array.isArray(photos)) {
+    check.fail(photosPath, 'validation.invalidValue');
+    return;
+  }
+
+  photos.forEach((photo, index) => {
+    const photoPath = joinPath(photosPath, index);
+    if (!isRecord(photo)) {
+      check.fail(photoPath, 'validation.invalidValue');
+      return;
+    }
+    check.string(photo, 'id', photoPath, { required: true });
+    check.string(photo, 'uri', photoPath, { required: true });
+    check.string(photo, 'thumbnailUri', photoPath, { required: true });
+    check.string(photo, 'caption', photoPath);
+    check.date(photo, 'addedAt', photoPath, { required: true });
+  });
+};
+
+const checkEvent = (check: Checker, event: Fields, path: string) => {
+  checkEventDetails(check, event, path);
+
+  // A rating is present exactly when the event is marked as rated
+  if (typeof event.rated !== 'boolean') {
+    check.fail(joinPath(path, 'rated'), 'validation.invalidValue');
+  } else if (event.rated) {
+    check.number(event, 'rating', path, { min: 1, max: 5 });
+  } else if (event.rating !== undefined) {
+    check.fail(joinPath(path, 'rating'), 'validation.unexpectedRating');
+  }
+
+  const review = check.record(event, 'review', path);
+  if (review) {
+    const reviewPath = joinPath(path, 'review');
+    check.string(review, 'text', reviewPath);
+    check.stringList(review, 'photos', reviewPath);
+    check.date(review, 'createdAt', reviewPath, { required: true });
+    check.date(review, 'editedAt', reviewPath);
+
+    const subScores = check.record(review, 'subScores', reviewPath, { required: true });
+    if (subScores) {
+      const subScoresPath = joinPath(reviewPath, 'subScores');
+      ['venue', 'host', 'vibe'].forEach(key => {
+        check.number(subScores, key, subScoresPath, { min: 1, max: 5, required: false });
+      });
+    }
+  }
+
+  if (event.ratingDistribution !== undefined) {
+    const distribution = event.ratingDistribution;
+    if (
+      !Array.isArray(distribution) ||
+      distribution.length !== 5 ||
+      !distribution.every(count => isInteger(count) && count >= 0)
+    ) {
+      check.fail(joinPath(path, 'ratingDistribution'), 'validation.invalidValue');
+    }
+  }
+
+  checkEventPhotos(check, event, path);
+};
+
+const checkUpcomingEvent = (check: Checker, event: Fields, path: string) => {
+  checkEventDetails(check, event, path);
+
+  if (event.rsvpStatus !== null && !RSVP_STATUSES.includes(event.rsvpStatus as RsvpStatus)) {
+    check.fail(joinPath(path, 'rsvpStatus'), 'validation.invalidValue');
+  }
+  check.number(event, 'capacity', path, { min: 1, required: false });
+  check.number(event, 'attendeeCount', path, { min: 0 });
+};
+
+const checkEventList = (
+  check: Checker,
+  fields: Fields,
+  key: string,
+  checkItem: (check: Checker, event: Fields, path: string) => void,
+  seenIds: Set<unknown>
+) => {
+  const events = fields[key];
+  if (!Array.isArray(events)) {
+    check.fail(key, 'validation.invalidValue');
+    return;
+  }
+
+  events.forEach((event, index) => {
+    const path = joinPath(key, index);
+    if (!isRecord(event)) {
+      check.fail(path, 'validation.invalidValue');
+      return;
+    }
+    checkItem(check, event, path);
+
+    // Ids are shared by both lists, since upcoming events become attended ones
+    if (seenIds.has(event.id)) {
+      check.fail(joinPath(path, 'id'), 'validation.duplicateId', { id: String(event.id) });
+    }
+    seenIds.add(event.id);
+  });
+};
+
+const toResult = <T>(value: unknown, errors: FieldError[]): ValidationResult<T> =>
+  errors.length === 0 ? { ok: true, data: value as T } : { ok: false, errors };
+
+const validateWith = <T>(
+  checkItem: (check: Checker, fields: Fields, path: string) => void
+): Validator<T> => (value) => {
+  const errors: FieldError[] = [];
+  if (!isRecord(value)) {
+    errors.push({ path: '', message: 'validation.invalidValue' });
+  } else {
+    checkItem(createChecker(errors), value, '');
+  }
+  return toResult<T>(value, errors);
+};
+
+export const validateEvent = validateWith<Event>(checkEvent);
+
+export const validateUpcomingEvent = validateWith<UpcomingEvent>(checkUpcomingEvent);
+
+export const validateEventPage = validateWith<EventPage>((check, page) => {
+  checkEventList(check, page, 'events', checkEvent, new Set());
+  check.number(page, 'nextOffset', '', { min: 1, required: false });
+});
+
+const checkUserProfile = (check: Checker, profile: Fields) => {
+  check.string(profile, 'name', '', { required: true });
+  check.string(profile, 'bio', '', { required: true });
+  check.string(profile, 'profileImageUrl', '');
+  check.string(profile, 'profileThumbnailUrl', '');
+  check.date(profile, 'birthdate', '');
+  check.string(profile, 'email', '');
+  check.string(profile, 'phone', '');
+  check.string(profile, 'location', '');
+  check.string(profile, 'occupation', '');
+  check.stringList(profile, 'interests', '');
+
+  const seenIds = new Set<unknown>();
+  checkEventList(check, profile, 'attendedEvents', checkEvent, seenIds);
+  checkEventList(check, profile, 'upcomingEvents', checkUpcomingEvent, seenIds);
+};
+
+// The shape of a profile. This gates the local cache and every API response,
+// so it must keep accepting data saved before stricter form rules existed.
+export const validateUserProfile = validateWith<UserProfile>(checkUserProfile);
+
+// What the edit form accepts: the shape above plus the contact formats. A
+// profile that fails only these still loads; the form flags the fields.
+export const validateProfileForm = validateWith<UserProfile>((check, profile) => {
+  checkUserProfile(check, profile);
+  check.formatted(profile, 'birthdate', '', value => parseBirthdate(value) !== null, 'validation.invalidBirthdate');
+  check.formatted(profile, 'email', '', isValidEmail, 'validation.invalidEmail');
+  check.formatted(profile, 'phone', '', value => parsePhoneNumber(value) !== null, 'validation.invalidPhone');
+});
+
+// Validates every item of a list, reporting errors under the item's index
+export const validateList = <T>(validateItem: Validator<T>): Validator<T[]> => (value) => {
+  if (!Array.isArray(value)) {
+    return { ok: false, errors: [{ path: '', message: 'validation.invalidValue' }] };
+  }
+
+  const errors = value.flatMap((item, index) => {
+    const result = validateItem(item);
+    return result.ok
+      ? []
+      : result.errors.map(error => ({ ...error, path: error.path ? `${index}.${error.path}` : String(index) }));
+  });
+  return toResult<T[]>(value, errors);
+};
+
+// First error for each field, for showing next to form inputs
+export const toFieldErrorMap = (errors: FieldError[]): Record<string, FieldError> =>
+  errors.reduce<Record<string, FieldError>>((map, error) => {
+    if (!map[error.path]) map[error.path] = error;
+    return map;
+  }, {});
+
+// One-line summary for logs and error messages
+export const describeFieldErrors = (errors: FieldError[]): string =>
+  errors.map(({ path, message }) => `${path || '(root)'}: ${message}`).join('; ');
@@ -0,0 +1,102 @@
+// IANA time zone helpers built on Intl, so no zone database ships with the app.
+
+const OFFSET_SUFFIX = /(Z|[+-]\d{2}:?\d{2})$/i;
+
+const partsFormatters = new Map<string, Intl.DateTimeFormat>();
+
+const getPartsFormatter = (timeZone: string) => {
+  let formatter = partsFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    partsFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    getPartsFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const getDeviceTimeZone = (): string =>
+  Intl.DateTimeFormat().resolvedOptions().timeZone ?? 'UTC';
+
+// Whether an ISO date-time string says which offset it is in
+export const hasUtcOffset = (isoString: string) => OFFSET_SUFFIX.test(isoString);
+
+// Minutes the zone is ahead of UTC at the given instant, e.g. 480 for Hong Kong
+export const getTimeZoneOffset = (timeZone: string, date: Date): number => {
+  const parts: Record<string, number> = {};
+  getPartsFormatter(timeZone).formatToParts(date).forEach(({ type, value }) => {
+    parts[type] = Number(value);
+  });
+
+  const wallClockAsUtc = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour % 24,
+    parts.minute,
+    parts.second
+  );
+  return Math.round((wallClockAsUtc - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+};
+
+/**
+ * Returns a Date whose local fields (hours, day, ...) read as the wall-clock
+ * time in `timeZone`, for formatting with date-fns. The result is not the
+ * same instant, so never compare or store it.
+ */
+export const toZonedTime = (date: Date, timeZone: string): Date => {
+  const offset = getTimeZoneOffset(timeZone, date);
+  return new Date(date.getTime() + (offset + date.getTimezoneOffset()) * 60000);
+};
+
+// Reads an offset-less date-time such as "2025-06-10T17:30:00" as wall-clock
+// time in `timeZone`
+export const fromZonedTime = (wallClock: string, timeZone: string): Date => {
+  const [datePart, timePart = ''] = wallClock.split('T');
+  const [year, month, day] = datePart.split('-').map(Number);
+  const [hour = 0, minute = 0, second = 0] = timePart.split(':').map(Number);
+  const wallClockAsUtc = Date.UTC(year, month - 1, day, hour, minute, Math.floor(second));
+
+  // The offset can differ either side of a daylight saving change, so settle
+  // it from the first guess
+  const guess = getTimeZoneOffset(timeZone, new Date(wallClockAsUtc));
+  const offset = getTimeZoneOffset(timeZone, new Date(wallClockAsUtc - guess * 60000));
+  return new Date(wallClockAsUtc - offset * 60000);
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// ISO string in the zone's wall-clock time with its offset, e.g.
+// "2025-06-10T17:30:00+08:00"
+export const toOffsetIsoString = (date: Date, timeZone: string): string => {
+  const offset = getTimeZoneOffset(timeZone, date);
+  const zoned = new Date(date.getTime() + offset * 60000);
+  const sign = offset < 0 ? '-' : '+';
+  const absolute = Math.abs(offset);
+
+  return `${zoned.toISOString().slice(0, 19)}${sign}${pad(Math.floor(absolute / 60))}:${pad(absolute % 60)}`;
+};
+
+// Short zone name for display, e.g. "HKT" or "GMT+8" depending on the platform
+export const getTimeZoneLabel = (timeZone: string, date: Date, intlTag: string): string => {
+  const part = new Intl.DateTimeFormat(intlTag, { timeZone, timeZoneName: 'short' })
+    .formatToParts(date)
+    .find(({ type }) => type === 'timeZoneName');
+  return part?.value ?? timeZone;
+};
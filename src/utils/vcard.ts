@@ -0,0 +1,88 @@
+import { UserProfile } from '../types';
+import { escapeText, foldLine } from './ics';
+import { parsePhoneNumber } from './contactFormat';
+
+/**
+ * vCard 4.0 (RFC 6350) generation. Kept free of React Native imports so it
+ * can be exercised on its own.
+ */
+
+export type ContactProfile = Pick<UserProfile, 'name' | 'email' | 'phone' | 'occupation' | 'location'>;
+
+export interface VCardOptions {
+  // An http(s) URL or a data: URI of the picture
+  photo?: string;
+}
+
+export const VCARD_MIME_TYPE = 'text/vcard';
+
+const PRODUCT_ID = '-//ProfileApp//Profile//EN';
+const CRLF = '\r\n';
+
+// vCard shares iCalendar's TEXT escaping and 75-octet line folding
+const escapeComponents = (components: string[]) => components.map(escapeText).join(';');
+
+// "Ada King Lovelace" files under Lovelace with the rest as given names. A
+// single word, as with names written without spaces, is kept whole as the
+// given name; FN always carries the name exactly as entered.
+const splitName = (name: string) => {
+  const words = name.trim().split(/\s+/).filter(Boolean);
+  if (words.length < 2) return { family: '', given: words.join('') };
+  return { family: words[words.length - 1], given: words.slice(0, -1).join(' ') };
+};
+
+// Numbers with a country code become tel: URIs; anything else stays as text
+const formatTel = (phone: string) => {
+  const parsed = parsePhoneNumber(phone);
+  return parsed
+    ? `TEL;VALUE=uri:tel:+${parsed.countryCode}${parsed.nationalNumber}`
+    : `TEL:${escapeText(phone.trim())}`;
+};
+
+/**
+ * Builds a contact card for the profile. Lines are folded and
+ * CRLF-terminated, ready to be written to a .vcf file or put in a QR code.
+ */
+export const buildVCard = (profile: ContactProfile, { photo }: VCardOptions = {}): string => {
+  const name = profile.name.trim();
+  const { family, given } = splitName(name);
+
+  const lines = [
+    'BEGIN:VCARD',
+    'VERSION:4.0',
+    `PRODID:${PRODUCT_ID}`,
+    `FN:${escapeText(name)}`,
+    `N:${escapeComponents([family, given, '', '', ''])}`,
+  ];
+
+  if (profile.email?.trim()) {
+    lines.push(`EMAIL:${escapeText(profile.email.trim())}`);
+  }
+  if (profile.phone?.trim()) {
+    lines.push(formatTel(profile.phone));
+  }
+  if (profile.occupation?.trim()) {
+    lines.push(`TITLE:${escapeText(profile.occupation.trim())}`);
+  }
+  if (profile.location?.trim()) {
+    // Free-form locations go in the locality part of the address
+    lines.push(`ADR:${escapeComponents(['', '', '', profile.location.trim(), '', '', ''])}`);
+  }
+  if (photo) {
+    lines.push(`PHOTO:${photo}`);
+  }
+
+  lines.push('END:VCARD');
+  return lines.map(foldLine).join(CRLF) + CRLF;
+};
+
+// File names keep letters from any script. ASCII punctuation other than "-"
+// and ".", spaces and control characters become dashes.
+export const toVCardFileName = (name: string): string => {
+  const slug = name
+    .trim()
+    .replace(/[\u0000-,/:-@[-`{-\u007f]+/g, '-')
+    .replace(/^[-.]+|[-.]+$/g, '');
+  // Sliced by code point so a character outside the BMP is never cut in half
+  return `${Array.from(slug).slice(0, 40).join('') || 'contact'}.vcf`;
+};